@@ -1,5 +1,9 @@
 // Jest setup file for React Native Expo project
 
+// Supabase settings read by src/config at import time
+process.env.EXPO_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY = 'test-anon-key';
+
 // Mock react-native-reanimated
 jest.mock('react-native-reanimated', () => {
   const Reanimated = require('react-native-reanimated/mock');
@@ -47,10 +51,12 @@ global.console = {
   error: jest.fn(),
 };
 
-// Mock window.location for web compatibility
-Object.defineProperty(window, 'location', {
-  value: {
-    origin: 'http://localhost:3000',
-  },
-  writable: true,
-});
+// Mock window.location for web compatibility - API route tests run in the node environment
+if (typeof window !== 'undefined') {
+  Object.defineProperty(window, 'location', {
+    value: {
+      origin: 'http://localhost:3000',
+    },
+    writable: true,
+  });
+}
@@ -4,7 +4,7 @@ import { FEATURES } from '@/config/features';
 import { useEffect } from 'react';
 
 export default function AppLayout() {
-  const { isAuthenticated, isLoading, user } = useAuth();
+  const { isAuthenticated, isLoading, user, mfaRequired } = useAuth();
 
   // Add logging to debug auth state changes
   useEffect(() => {
@@ -28,10 +28,18 @@ export default function AppLayout() {
     return <Redirect href="/(auth)/welcome" />;
   }
 
+  // Stay out of the app until the TOTP challenge passes
+  if (isAuthenticated && mfaRequired) {
+    console.log('[APP_LAYOUT] Redirecting to MFA challenge');
+    return <Redirect href="/(auth)/mfa" />;
+  }
+
   console.log('[APP_LAYOUT] Rendering app content');
   return (
     <Stack screenOptions={{ headerShown: false }}>
       <Stack.Screen name="index" />
+      <Stack.Screen name="profile" />
+      <Stack.Screen name="security" />
     </Stack>
   );
 }
@@ -1,5 +1,7 @@
+import { useLocalSearchParams } from 'expo-router';
 import { Chat } from '@/features/chat';
 
 export default function HomeScreen() {
-  return <Chat />;
+  const { conversationId } = useLocalSearchParams<{ conversationId?: string }>();
+  return <Chat conversationId={conversationId} />;
 }
@@ -0,0 +1,5 @@
+import { ProfileSettings } from '@/features/auth';
+
+export default function ProfileScreen() {
+  return <ProfileSettings />;
+}
@@ -0,0 +1,5 @@
+import { SecuritySettings } from '@/features/auth';
+
+export default function SecurityScreen() {
+  return <SecuritySettings />;
+}
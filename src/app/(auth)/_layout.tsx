@@ -1,10 +1,12 @@
-import { Stack, Redirect } from 'expo-router';
+import { Stack, Redirect, router, useSegments } from 'expo-router';
 import { View, ActivityIndicator } from 'react-native';
 import { useAuth } from '@/features/auth';
 import { useEffect } from 'react';
 
 export default function AuthLayout() {
-  const { isAuthenticated, isLoading, user } = useAuth();
+  const { isAuthenticated, isLoading, user, mfaRequired } = useAuth();
+  const segments = useSegments();
+  const onMfaScreen = segments.at(-1) === 'mfa';
 
   // Add logging to debug auth state changes
   useEffect(() => {
@@ -15,6 +17,15 @@ export default function AuthLayout() {
     });
   }, [isAuthenticated, isLoading, user]);
 
+  // A password sign-in that still needs its TOTP code continues on the challenge screen
+  useEffect(() => {
+    if (isAuthenticated && mfaRequired && !onMfaScreen) {
+      router.replace('/(auth)/mfa');
+    } else if (!isAuthenticated && onMfaScreen) {
+      router.replace('/(auth)/login');
+    }
+  }, [isAuthenticated, mfaRequired, onMfaScreen]);
+
   // Show loading state while checking auth
   if (isLoading) {
     console.log('[AUTH_LAYOUT] Showing loading state');
@@ -26,7 +37,7 @@ export default function AuthLayout() {
   }
 
   // Redirect to app if already authenticated
-  if (isAuthenticated) {
+  if (isAuthenticated && !mfaRequired) {
     console.log('[AUTH_LAYOUT] Redirecting to app - user already authenticated');
     return <Redirect href="/(app)" />;
   }
@@ -53,6 +64,13 @@ export default function AuthLayout() {
           animationDuration: 300,
         }}
       />
+      <Stack.Screen
+        name="mfa"
+        options={{
+          animation: 'fade',
+          gestureEnabled: false,
+        }}
+      />
     </Stack>
   );
 }
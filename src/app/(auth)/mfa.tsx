@@ -0,0 +1,5 @@
+import { MfaChallenge } from '@/features/auth';
+
+export default function MfaScreen() {
+  return <MfaChallenge />;
+}
@@ -75,6 +75,18 @@ function RootLayoutNav() {
             ...screenTransitions.slideFromRight,
           }}
         />
+        <Stack.Screen
+          name="auth/callback"
+          options={{
+            ...screenTransitions.fadeIn,
+          }}
+        />
+        <Stack.Screen
+          name="shared/[token]"
+          options={{
+            ...screenTransitions.fadeIn,
+          }}
+        />
       </Stack>
     </>
   );
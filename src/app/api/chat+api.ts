@@ -1,137 +1,464 @@
-import { openai } from '@ai-sdk/openai';
-import { streamText, tool } from 'ai';
+import {
+  streamText,
+  generateText,
+  NoSuchModelError,
+  type CoreMessage,
+  type FinishReason,
+  type LanguageModelUsage,
+} from 'ai';
 import { z } from 'zod';
 import {
   ChatRequestSchema,
-  WeatherToolSchema,
-  CelsiusConvertToolSchema,
-  WeatherResultSchema,
-  CelsiusConvertResultSchema,
+  ChatResponseSchema,
+  CONTEXT_SUMMARIZED_HEADER,
+  type ConversationSettings,
+  type DocumentCitation,
 } from '@/types/api';
-import { db } from '@/lib/supabase';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { getRequestSession, getServiceDb } from '@/lib/api/session';
+import { resolveChatModel } from '@/lib/ai/providers';
+import { createToolSet } from '@/lib/tools';
+import { indexMessageEmbeddings, type IndexableMessage } from '@/lib/ai/embeddings';
+import {
+  describeAttachments,
+  isAttachmentUrl,
+  signAttachmentUrls,
+  supportsAttachments,
+  toUserContent,
+} from '@/lib/ai/attachments';
+import { indexDocuments, isDocumentAttachment } from '@/lib/ai/documents';
+import {
+  getContextLimits,
+  getContextSummary,
+  planContext,
+  summarizeHistory,
+  toSummaryPreamble,
+} from '@/lib/ai/context';
+import {
+  getConversationSettings,
+  resolveGenerationSettings,
+  toChatFinishReason,
+} from '@/lib/ai/generation';
+import { getPersona, type PersonaPreset } from '@/config/personas';
 import { randomUUID } from 'crypto';
 
+/**
+ * Fields shared by streamText and generateText results that we persist
+ */
+interface AssistantCompletion {
+  text: string;
+  /** `aborted` when the client stopped the stream before it finished */
+  finishReason: FinishReason | 'aborted';
+  usage?: LanguageModelUsage;
+  toolCalls: Record<string, any>[];
+  toolResults: Record<string, any>[];
+}
+
+// Long enough for the model provider to fetch attachments while the request runs
+const ATTACHMENT_URL_EXPIRY_SECONDS = 10 * 60;
+
+/**
+ * Client message ids are UUIDs that double as database ids - anything else is ignored
+ */
+const toMessageId = (id: string | undefined): string | null => {
+  return id && z.string().uuid().safeParse(id).success ? id : null;
+};
+
 export async function POST(req: Request) {
   try {
+    // Saving, retrieval and attachments all run as the caller, so RLS decides what they can
+    // touch. Without Supabase there is nothing to protect and the template chats anonymously.
+    const session = await getRequestSession(req);
+    if (!session && isSupabaseConfigured()) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            message: 'Sign in to chat',
+            type: 'unauthorized',
+          },
+        }),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
     const requestBody = await req.json();
     const validatedRequest = ChatRequestSchema.parse(requestBody);
-    const { messages, conversationId, userId, saveMessages = true } = validatedRequest;
+    const { messages, conversationId, saveMessages = true, regenerate = false } = validatedRequest;
+    // The verified caller, never the userId in the body
+    const userId = session?.user.id;
+    const db = session?.db;
+    const { model, modelId } = resolveChatModel(validatedRequest.model);
 
     console.log('post messages:', messages);
     console.log('conversation ID:', conversationId);
-    console.log('user ID:', userId);
+    console.log('model:', modelId);
+
+    // Assistant replies have no author, so RLS only lets the service role insert them.
+    // The caller's write access is checked here instead.
+    let replyDb: typeof db | null = null;
+    if (saveMessages && conversationId && db) {
+      const { data: canWrite, error: accessError } = await db.canWriteConversation(conversationId);
+      if (accessError) throw new Error(accessError.message);
+      if (!canWrite) {
+        return new Response(
+          JSON.stringify({
+            error: {
+              message: 'You cannot post in this conversation',
+              type: 'forbidden',
+            },
+          }),
+          {
+            status: 403,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      replyDb = getServiceDb();
+      if (!replyDb) {
+        console.error('SUPABASE_SERVICE_ROLE_KEY is not set - assistant replies are not saved');
+      }
+    }
+
+    // The attachments bucket is private. Signing as the caller means storage RLS decides
+    // which files the model and the document indexer can read.
+    const signedUrls = session
+      ? await signAttachmentUrls(
+          session.storage,
+          messages.flatMap((msg) => (msg.role === 'user' && msg.experimental_attachments) || []),
+          ATTACHMENT_URL_EXPIRY_SECONDS
+        ).catch((error) => {
+          console.error('Failed to sign attachment URLs:', error);
+          return new Map<string, string>();
+        })
+      : new Map<string, string>();
+
+    // Each saved message points at the message before it. An edited message shares
+    // its parent with the original, so it becomes a sibling with a higher version.
+    const lastMessage = messages.at(-1);
+    const lastUserMessage = [...messages].reverse().find((msg) => msg.role === 'user');
 
     // Save user message to database if persistence is enabled
     let userMessageId: string | null = null;
-    if (saveMessages && conversationId && userId && messages.length > 0) {
-      const lastMessage = messages[messages.length - 1];
-      if (lastMessage.role === 'user') {
+    if (saveMessages && conversationId && db && userId && lastMessage) {
+      // A regenerated reply answers a user message that is already saved
+      if (lastMessage.role === 'user' && !regenerate) {
         try {
-          const { data: messageData } = await db.createMessage({
+          const parentMessageId = toMessageId(messages.at(-2)?.id);
+          const { data: version, error: versionError } = await db.getNextMessageVersion(
+            conversationId,
+            parentMessageId
+          );
+          if (versionError) throw new Error(versionError.message);
+
+          // Only files in our bucket are kept - see getAttachmentPath
+          const attachments = (lastMessage.experimental_attachments ?? []).filter((attachment) =>
+            isAttachmentUrl(attachment.url)
+          );
+          const { data: messageData, error: messageError } = await db.createMessage({
+            ...(toMessageId(lastMessage.id) && { id: lastMessage.id }),
             conversation_id: conversationId,
-            content: lastMessage.content,
+            content: lastMessage.content.trim() || describeAttachments(attachments),
             role: lastMessage.role,
             metadata: {
               timestamp: new Date().toISOString(),
               client_id: lastMessage.id || randomUUID(),
+              ...(attachments.length > 0 && { attachments }),
             },
+            version: version ?? 1,
+            parent_message_id: parentMessageId,
+            // Collaborators share the conversation, so each user message records its author
+            user_id: userId,
           });
+          if (messageError) throw new Error(messageError.message);
           userMessageId = messageData?.id || null;
           console.log('Saved user message:', userMessageId);
         } catch (error) {
           console.error('Failed to save user message:', error);
         }
+
+        // Indexed before generating so searchDocuments can already find the new files
+        const documents = (lastMessage.experimental_attachments ?? []).filter(isDocumentAttachment);
+        if (documents.length > 0) {
+          try {
+            const chunkCount = await indexDocuments(
+              db,
+              conversationId,
+              userMessageId,
+              documents,
+              signedUrls
+            );
+            console.log('Indexed document chunks:', chunkCount);
+          } catch (error) {
+            console.error('Failed to index documents:', error);
+          }
+        }
+      }
+    }
+
+    // Resolve generation parameters: request → conversation settings → persona → config defaults
+    let conversationSettings: ConversationSettings = {};
+    let conversationMetadata: Record<string, any> | undefined;
+    let persona: PersonaPreset | undefined;
+    if (conversationId && db) {
+      try {
+        const { data: conversation, error: conversationError } =
+          await db.getConversation(conversationId);
+        if (conversationError) throw new Error(conversationError.message);
+        conversationMetadata = conversation?.metadata;
+        persona = getPersona(conversation?.metadata?.persona_id);
+        conversationSettings = {
+          ...persona?.settings,
+          ...getConversationSettings(conversation?.metadata),
+        };
+      } catch (error) {
+        console.error('Failed to load conversation settings:', error);
+      }
+    }
+    const generation = resolveGenerationSettings(validatedRequest, conversationSettings);
+
+    // Fit history into the prompt budget. Turns that no longer fit are folded into the
+    // rolling summary, which is saved so later requests only summarize newer turns.
+    const contextPlan = planContext(
+      messages,
+      getContextSummary(conversationMetadata),
+      getContextLimits(generation.maxTokens)
+    );
+    let contextSummary = contextPlan.summary;
+    if (contextPlan.toSummarize.length > 0) {
+      try {
+        contextSummary = await summarizeHistory(model, contextSummary, contextPlan.toSummarize);
+        if (saveMessages && conversationId && db) {
+          // Only the owner can update the conversation - a collaborator's summary is used once
+          const { error: summaryError } = await db.updateConversation(conversationId, {
+            metadata: { ...conversationMetadata, context_summary: contextSummary },
+          });
+          if (summaryError) {
+            console.error('Failed to save conversation summary:', summaryError.message);
+          }
+        }
+        console.log('Summarized messages:', contextPlan.toSummarize.length);
+      } catch (error) {
+        // The older turns are still trimmed - the request goes ahead without them
+        console.error('Failed to summarize conversation history:', error);
       }
     }
+    const summarizedMessageCount = messages.length - contextPlan.messages.length;
+    const contextHeaders: Record<string, string> =
+      summarizedMessageCount > 0
+        ? { [CONTEXT_SUMMARIZED_HEADER]: String(summarizedMessageCount) }
+        : {};
 
     // Track timing for assistant response
     const startTime = Date.now();
 
-    const result = streamText({
-      model: openai('gpt-4o'),
-      messages: messages.map((msg) => ({
-        role: msg.role,
-        content: msg.content || '',
-        ...(msg.id && { id: msg.id }),
-      })),
-      tools: {
-        // https://ai-sdk.dev/docs/getting-started/expo#enhance-your-chatbot-with-tools
-        weather: tool({
-          description: 'Get the weather in a location (fahrenheit)',
-          parameters: WeatherToolSchema,
-          async execute({ location }) {
-            const temperature = Math.round(Math.random() * (90 - 32) + 32);
-            const result = {
-              location,
-              temperature,
-            };
-
-            // Validate result against schema
-            return WeatherResultSchema.parse(result);
-          },
-        }),
+    // Filled by searchDocuments and saved with the reply so its [n] citations can be shown
+    const citations = new Map<string, DocumentCitation>();
+    const tools = createToolSet({ conversationId, userId, db, citations });
+
+    // Sent to the client as the message id and reused as the database id, so a
+    // stopped stream and its saved partial message share the same id
+    const generatedMessageId = randomUUID();
 
-        convertFahrenheitToCelsius: tool({
-          description: 'Convert a temperature in fahrenheit to celsius',
-          parameters: CelsiusConvertToolSchema,
-          async execute({ temperature }) {
-            const celsius = Math.round((temperature - 32) * (5 / 9));
-            const result = {
-              temperature,
-              celsius,
-            };
-
-            // Validate result against schema
-            return CelsiusConvertResultSchema.parse(result);
+    const saveAssistantMessage = async (completion: AssistantCompletion) => {
+      // Save assistant response to database
+      if (!conversationId || !db || !replyDb || !completion.text.trim()) {
+        return null;
+      }
+
+      const endTime = Date.now();
+      const responseTime = endTime - startTime;
+
+      try {
+        // Tool round-trip continuations resend the assistant message, so keep its id
+        const isContinuation = lastMessage?.role === 'assistant';
+        const parentMessageId = userMessageId ?? toMessageId(lastUserMessage?.id);
+        const { data: version, error: versionError } = await replyDb.getNextMessageVersion(
+          conversationId,
+          parentMessageId
+        );
+        if (versionError) throw new Error(versionError.message);
+        const assistantMessageId = isContinuation
+          ? toMessageId(lastMessage.id)
+          : generatedMessageId;
+
+        const { data: assistantMessage, error: messageError } = await replyDb.createMessage({
+          ...(assistantMessageId && { id: assistantMessageId }),
+          conversation_id: conversationId,
+          content: completion.text.trim(),
+          role: 'assistant',
+          metadata: {
+            timestamp: new Date().toISOString(),
+            response_time_ms: responseTime,
+            user_message_id: userMessageId,
+            finish_reason: completion.finishReason,
+            usage: completion.usage,
+            generation: {
+              temperature: generation.temperature,
+              max_tokens: generation.maxTokens,
+            },
+            ...(citations.size > 0 && { citations: [...citations.values()] }),
           },
-        }),
-      },
-      onFinish: async (completion) => {
-        console.log('Stream finished');
+          model_used: modelId,
+          tokens_used: completion.usage?.totalTokens || null,
+          response_time_ms: responseTime,
+          tool_calls: completion.toolCalls || [],
+          tool_results: completion.toolResults || [],
+          version: version ?? 1,
+          parent_message_id: parentMessageId,
+        });
 
-        // Save assistant response to database
-        if (saveMessages && conversationId && completion.text.trim()) {
-          const endTime = Date.now();
-          const responseTime = endTime - startTime;
+        if (messageError) throw new Error(messageError.message);
+        console.log('Saved assistant message:', assistantMessage?.id);
 
+        // Auto-generate conversation title if this is the first user message
+        if (messages.length <= 2) {
+          // user message + assistant response
           try {
-            const { data: assistantMessage } = await db.createMessage({
-              conversation_id: conversationId,
-              content: completion.text.trim(),
-              role: 'assistant',
-              metadata: {
-                timestamp: new Date().toISOString(),
-                response_time_ms: responseTime,
-                user_message_id: userMessageId,
-                finish_reason: completion.finishReason,
-                usage: completion.usage,
-              },
-              model_used: 'gpt-4o',
-              tokens_used: completion.usage?.totalTokens || null,
-              response_time_ms: responseTime,
-              tool_calls: completion.toolCalls || [],
-              tool_results: completion.toolResults || [],
-            });
-
-            console.log('Saved assistant message:', assistantMessage?.id);
-
-            // Auto-generate conversation title if this is the first user message
-            if (messages.length <= 2) {
-              // user message + assistant response
-              try {
-                const generatedTitle = await db.generateConversationTitle(conversationId);
-                if (generatedTitle.data) {
-                  await db.updateConversation(conversationId, { title: generatedTitle.data });
-                  console.log('Updated conversation title:', generatedTitle.data);
-                }
-              } catch (titleError) {
-                console.error('Failed to generate conversation title:', titleError);
-              }
+            const generatedTitle = await db.generateConversationTitle(conversationId);
+            if (generatedTitle.data) {
+              await db.updateConversation(conversationId, { title: generatedTitle.data });
+              console.log('Updated conversation title:', generatedTitle.data);
             }
-          } catch (error) {
-            console.error('Failed to save assistant message:', error);
+          } catch (titleError) {
+            console.error('Failed to generate conversation title:', titleError);
           }
         }
+
+        return assistantMessage?.id ?? null;
+      } catch (error) {
+        console.error('Failed to save assistant message:', error);
+        return null;
+      }
+    };
+
+    // Embed the saved turn for the searchHistory tool. Runs in the background so the
+    // response is not held up by the embedding provider.
+    const indexSavedTurn = (assistantMessageId: string | null, assistantText: string) => {
+      if (!conversationId || !db || !assistantMessageId) return;
+
+      const turn: IndexableMessage[] = [
+        ...(userMessageId && lastMessage
+          ? [{ id: userMessageId, conversationId, content: lastMessage.content }]
+          : []),
+        { id: assistantMessageId, conversationId, content: assistantText.trim() },
+      ];
+
+      indexMessageEmbeddings(db, turn)
+        .then((count) => console.log('Indexed message embeddings:', count))
+        .catch((error) => console.error('Failed to index message embeddings:', error));
+    };
+
+    // The persona prompt is injected here rather than sent by the client, and any
+    // client-supplied system messages are dropped so the persona cannot be overridden.
+    // Attachments become image and file parts for models that can read them.
+    const canReadAttachments = supportsAttachments(modelId);
+    const coreMessages: CoreMessage[] = [
+      ...(persona ? [{ role: 'system' as const, content: persona.systemPrompt }] : []),
+      ...(contextSummary
+        ? [{ role: 'system' as const, content: toSummaryPreamble(contextSummary) }]
+        : []),
+      ...contextPlan.messages
+        .filter((msg) => !persona || msg.role !== 'system')
+        .map((msg) =>
+          msg.role === 'user'
+            ? {
+                role: msg.role,
+                content: toUserContent(msg, canReadAttachments, signedUrls),
+                ...(msg.id && { id: msg.id }),
+              }
+            : {
+                role: msg.role,
+                content: msg.content || '',
+                ...(msg.id && { id: msg.id }),
+              }
+        ),
+    ];
+
+    // Non-streaming JSON mode - returns the ChatResponseSchema shape
+    if (!generation.stream) {
+      const completion = await generateText({
+        model,
+        messages: coreMessages,
+        temperature: generation.temperature,
+        maxTokens: generation.maxTokens,
+        tools,
+        // Run tool round-trips server-side so the response contains the final answer
+        maxSteps: 5,
+        experimental_generateMessageId: () => generatedMessageId,
+      });
+
+      const assistantMessageId = await saveAssistantMessage(completion);
+      indexSavedTurn(assistantMessageId, completion.text);
+
+      const response = ChatResponseSchema.parse({
+        id: assistantMessageId ?? `chatcmpl-${randomUUID()}`,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model: modelId,
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: completion.text,
+              ...(assistantMessageId && { id: assistantMessageId }),
+            },
+            finish_reason: toChatFinishReason(completion.finishReason),
+          },
+        ],
+        usage: {
+          prompt_tokens: completion.usage.promptTokens,
+          completion_tokens: completion.usage.completionTokens,
+          total_tokens: completion.usage.totalTokens,
+        },
+      });
+
+      return new Response(JSON.stringify(response), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json', ...contextHeaders },
+      });
+    }
+
+    // Persist whatever was streamed if the client stops generation
+    let partialText = '';
+    let isFinished = false;
+    req.signal.addEventListener('abort', () => {
+      if (isFinished) return;
+      isFinished = true;
+      console.log('Stream aborted by client');
+      saveAssistantMessage({
+        text: partialText,
+        finishReason: 'aborted',
+        toolCalls: [],
+        toolResults: [],
+      });
+    });
+
+    const result = streamText({
+      model,
+      messages: coreMessages,
+      temperature: generation.temperature,
+      maxTokens: generation.maxTokens,
+      tools,
+      // Tool round-trips also run server-side here, so one request saves one assistant message
+      maxSteps: 5,
+      experimental_generateMessageId: () => generatedMessageId,
+      abortSignal: req.signal,
+      onChunk: ({ chunk }) => {
+        if (chunk.type === 'text-delta') {
+          partialText += chunk.textDelta;
+        }
+      },
+      onFinish: async (completion) => {
+        if (isFinished) return;
+        isFinished = true;
+        console.log('Stream finished');
+        const assistantMessageId = await saveAssistantMessage(completion);
+        indexSavedTurn(assistantMessageId, completion.text);
       },
     });
 
@@ -142,11 +469,27 @@ export async function POST(req: Request) {
         // https://github.com/expo/expo/issues/32950#issuecomment-2508297646
         'Content-Type': 'application/octet-stream',
         'Content-Encoding': 'none',
+        ...contextHeaders,
       },
     });
   } catch (error) {
     console.error('Chat API error:', error);
 
+    if (NoSuchModelError.isInstance(error)) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            message: error.message,
+            type: 'invalid_model',
+          },
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
     if (error instanceof z.ZodError) {
       return new Response(
         JSON.stringify({
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { MfaRecoveryRequestSchema } from '@/types/api';
+import { createServiceClient } from '@/lib/supabase';
+import { getRequestSession } from '@/lib/api/session';
+
+const errorResponse = (status: number, message: string, type: string) => {
+  return new Response(JSON.stringify({ error: { message, type } }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+/**
+ * Redeem an MFA recovery code and remove the caller's authenticators
+ * Called from the aal1 session of a user stuck on the MFA challenge. The code is
+ * consumed as the caller, then the factors are deleted with the auth admin API.
+ * Deleting a verified factor signs the user out of every session.
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getRequestSession(req);
+    if (!session) {
+      return errorResponse(401, 'Sign in to use a recovery code', 'unauthorized');
+    }
+
+    const admin = createServiceClient();
+    if (!admin) {
+      return errorResponse(503, 'Account recovery is not configured', 'not_configured');
+    }
+
+    const { code } = MfaRecoveryRequestSchema.parse(await req.json());
+    const userId = session.user.id;
+
+    const { data: redeemed, error: redeemError } = await session.db.redeemMfaRecoveryCode(code);
+    if (redeemError) throw new Error(redeemError.message);
+    if (!redeemed) {
+      return errorResponse(400, 'Invalid recovery code', 'invalid_code');
+    }
+
+    const { data, error: listError } = await admin.auth.admin.mfa.listFactors({ userId });
+    if (listError) throw listError;
+
+    for (const factor of data.factors) {
+      const { error } = await admin.auth.admin.mfa.deleteFactor({ id: factor.id, userId });
+      if (error) throw error;
+    }
+
+    // The remaining codes belonged to the removed factors
+    const { error: deleteError } = await admin
+      .from('mfa_recovery_codes')
+      .delete()
+      .eq('user_id', userId);
+    if (deleteError) throw new Error(deleteError.message);
+
+    console.log(`Removed ${data.factors.length} MFA factors with a recovery code`);
+
+    return new Response(JSON.stringify({ removedFactors: data.factors.length }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('MFA recovery API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return errorResponse(400, 'Invalid recovery code', 'validation_error');
+    }
+
+    return errorResponse(500, 'Recovery failed', 'server_error');
+  }
+}
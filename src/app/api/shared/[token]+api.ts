@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { SharedConversationResponseSchema } from '@/types/api';
+import { db, type SharedConversationResult } from '@/lib/supabase';
+
+const SHARE_ERRORS: Record<
+  Exclude<SharedConversationResult['status'], 'ok'>,
+  { status: number; message: string }
+> = {
+  not_found: { status: 404, message: 'Shared conversation not found' },
+  expired: { status: 410, message: 'This share link has expired' },
+  forbidden: { status: 403, message: 'This share link does not allow viewing' },
+};
+
+const errorResponse = (status: number, message: string, type: string) => {
+  return new Response(JSON.stringify({ error: { message, type } }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+/**
+ * Resolve a public share link to a read-only transcript
+ * No session is required - access is checked against conversation_shares
+ */
+export async function GET(_req: Request, { token }: Record<string, string>) {
+  try {
+    if (!z.string().uuid().safeParse(token).success) {
+      return errorResponse(404, SHARE_ERRORS.not_found.message, 'not_found');
+    }
+
+    const { data, error } = await db.getSharedConversation(token);
+
+    if (error || !data) {
+      throw new Error(error?.message ?? 'Empty response from get_shared_conversation');
+    }
+
+    const result = data as SharedConversationResult;
+
+    if (result.status !== 'ok') {
+      const shareError = SHARE_ERRORS[result.status];
+      return errorResponse(shareError.status, shareError.message, result.status);
+    }
+
+    const response = SharedConversationResponseSchema.parse(result);
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Shared conversation API error:', error);
+    return errorResponse(500, 'Internal server error', 'server_error');
+  }
+}
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { SpeechRequestSchema } from '@/types/api';
+import { getRequestSession } from '@/lib/api/session';
+import { getTextToSpeechProvider, toSpeechText } from '@/lib/speech';
+
+const errorResponse = (status: number, message: string, type: string) => {
+  return new Response(JSON.stringify({ error: { message, type } }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+/**
+ * Read an assistant message aloud
+ * The message is loaded as the caller, so only replies they can see are read, and
+ * only their stored content. Markdown is reduced to plain text first. A message's
+ * text does not change once saved, so the audio can be cached by message id.
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getRequestSession(req);
+    if (!session) {
+      return errorResponse(401, 'Sign in to read messages aloud', 'unauthorized');
+    }
+
+    const { messageId, voice } = SpeechRequestSchema.parse(await req.json());
+
+    const { data: message, error: messageError } = await session.db.getMessage(messageId);
+    if (messageError) throw new Error(messageError.message);
+    if (!message || message.role !== 'assistant') {
+      return errorResponse(404, 'Message not found', 'not_found');
+    }
+
+    const speechText = toSpeechText(message.content);
+    if (!speechText) {
+      return errorResponse(400, 'The message has no text to read', 'validation_error');
+    }
+
+    const provider = getTextToSpeechProvider();
+    const { audio, mimeType } = await provider.synthesize({ text: speechText, voice });
+
+    return new Response(audio, {
+      status: 200,
+      headers: {
+        'Content-Type': mimeType,
+        'Content-Length': String(audio.byteLength),
+        'Cache-Control': 'private, max-age=86400',
+        ETag: `"${messageId}${voice ? `-${voice}` : ''}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Speech API error:', error);
+
+    if (error instanceof z.ZodError) {
+      return errorResponse(400, 'Invalid request format', 'validation_error');
+    }
+
+    return errorResponse(500, 'Failed to synthesize speech', 'server_error');
+  }
+}
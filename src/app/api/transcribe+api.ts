@@ -0,0 +1,56 @@
+import { TranscriptionResponseSchema } from '@/types/api';
+import { getSpeechToTextProvider } from '@/lib/speech';
+import { getRequestSession } from '@/lib/api/session';
+import { readLimitedBody } from '@/lib/api/body';
+
+// Upload limit of the OpenAI transcription API
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+const errorResponse = (status: number, message: string, type: string) => {
+  return new Response(JSON.stringify({ error: { message, type } }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+/**
+ * Transcribe a voice recording
+ * The body is the audio file with its type in Content-Type, e.g. `audio/mp4`.
+ * An optional `language` query parameter hints the spoken language.
+ * Requires a signed-in caller, and uploads over the limit are refused before they are buffered.
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getRequestSession(req);
+    if (!session) {
+      return errorResponse(401, 'Sign in to use voice input', 'unauthorized');
+    }
+
+    const mimeType = req.headers.get('Content-Type')?.split(';')[0].trim() ?? '';
+    if (!mimeType.startsWith('audio/')) {
+      return errorResponse(415, 'Expected an audio file', 'unsupported_media_type');
+    }
+
+    const audio = await readLimitedBody(req, MAX_AUDIO_BYTES);
+    if (!audio) {
+      return errorResponse(413, 'The recording is too long', 'payload_too_large');
+    }
+    if (audio.byteLength === 0) {
+      return errorResponse(400, 'The recording is empty', 'validation_error');
+    }
+
+    const language = new URL(req.url).searchParams.get('language') || undefined;
+    const provider = getSpeechToTextProvider();
+    const result = await provider.transcribe({ audio, mimeType, language });
+
+    console.log(`Transcribed ${audio.byteLength} bytes with ${provider.name}`);
+
+    return new Response(JSON.stringify(TranscriptionResponseSchema.parse(result)), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Transcribe API error:', error);
+    return errorResponse(500, 'Failed to transcribe audio', 'server_error');
+  }
+}
@@ -0,0 +1,12 @@
+import * as WebBrowser from 'expo-web-browser';
+import { AuthCallback } from '@/features/auth';
+
+// On web the sign-in popup loads this route, posts its URL back to the opener and closes
+const authSession = WebBrowser.maybeCompleteAuthSession();
+
+/**
+ * OAuth and magic link redirect target - outside the (auth) group, which redirects signed-in users
+ */
+export default function AuthCallbackScreen() {
+  return <AuthCallback handledBySession={authSession.type === 'success'} />;
+}
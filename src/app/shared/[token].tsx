@@ -0,0 +1,10 @@
+import { useLocalSearchParams } from 'expo-router';
+import { SharedConversation } from '@/features/chat';
+
+/**
+ * Public share link - outside the (app) group so no sign-in is required
+ */
+export default function SharedConversationScreen() {
+  const { token } = useLocalSearchParams<{ token: string }>();
+  return <SharedConversation shareToken={token} />;
+}
@@ -19,6 +19,7 @@ const getBooleanEnvVar = (key: string, fallback: boolean = false): boolean => {
 export const CORE_FEATURES = {
   // UI Features
   enableVoiceInput: getBooleanEnvVar('EXPO_PUBLIC_ENABLE_VOICE', false),
+  enableTextToSpeech: getBooleanEnvVar('EXPO_PUBLIC_ENABLE_TTS', false),
   enableDarkMode: getBooleanEnvVar('EXPO_PUBLIC_ENABLE_DARK_MODE', true),
   enableHapticFeedback: getBooleanEnvVar('EXPO_PUBLIC_ENABLE_HAPTICS', true),
   enableAnimations: getBooleanEnvVar('EXPO_PUBLIC_ENABLE_ANIMATIONS', true),
@@ -53,13 +54,14 @@ export const CORE_FEATURES = {
  * Template Features - To be implemented in future phases
  */
 export const TEMPLATE_FEATURES = {
-  // Authentication Extensions (not yet implemented)
+  // Authentication Extensions - OAuth providers, magic links and SMS codes through Supabase
   enableSocialAuth: getBooleanEnvVar('EXPO_PUBLIC_ENABLE_SOCIAL_AUTH', false),
+  enableMagicLinkAuth: getBooleanEnvVar('EXPO_PUBLIC_ENABLE_MAGIC_LINK_AUTH', false),
   enableSmsAuth: getBooleanEnvVar('EXPO_PUBLIC_ENABLE_SMS_AUTH', false),
   enableGoogleAuth: getBooleanEnvVar('EXPO_PUBLIC_ENABLE_GOOGLE_AUTH', false),
   enableAppleAuth: getBooleanEnvVar('EXPO_PUBLIC_ENABLE_APPLE_AUTH', false),
 
-  // Storage & File Management (not yet implemented)
+  // Storage & File Management - image and file attachments in chat
   enableStorage: getBooleanEnvVar('EXPO_PUBLIC_ENABLE_STORAGE', false),
   enableFileUploads: getBooleanEnvVar('EXPO_PUBLIC_ENABLE_FILE_UPLOADS', false),
 
@@ -85,6 +87,7 @@ export const FEATURES = {
 export const FEATURE_CATEGORIES = {
   ui: [
     'enableVoiceInput',
+    'enableTextToSpeech',
     'enableDarkMode',
     'enableHapticFeedback',
     'enableAnimations',
@@ -96,6 +99,7 @@ export const FEATURE_CATEGORIES = {
     'enableProfile',
     'enableProfileManagement',
     'enableEmailAuth',
+    'enableMagicLinkAuth',
     'enableSmsAuth',
     'enableGoogleAuth',
     'enableAppleAuth',
@@ -173,6 +177,10 @@ export const validateTemplateFeatures = (): string[] => {
     warnings.push('enableSocialAuth requires enableAuth to be enabled');
   }
 
+  if ((FEATURES.enableGoogleAuth || FEATURES.enableAppleAuth) && !FEATURES.enableSocialAuth) {
+    warnings.push('enableGoogleAuth and enableAppleAuth require enableSocialAuth to be enabled');
+  }
+
   // Storage dependency checks
   if (FEATURES.enableFileUploads && !FEATURES.enableStorage) {
     warnings.push('enableFileUploads requires enableStorage to be enabled');
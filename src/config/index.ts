@@ -45,6 +45,20 @@ const getNumberEnvVar = (key: string, fallback?: number): number => {
   return parsed;
 };
 
+/**
+ * Decimal environment variable getter
+ */
+const getFloatEnvVar = (key: string, fallback: number): number => {
+  // eslint-disable-next-line expo/no-dynamic-env-var
+  const value = process.env[key];
+  if (!value) return fallback;
+  const parsed = parseFloat(value);
+  if (isNaN(parsed)) {
+    throw new Error(`Invalid numeric value for environment variable ${key}: ${value}`);
+  }
+  return parsed;
+};
+
 /**
  * Application configuration object
  * All environment variables and settings are centralized here
@@ -59,10 +73,23 @@ export const config = {
 
   // AI/Chat Configuration
   ai: {
+    defaultModel: getEnvVar(
+      'EXPO_PUBLIC_DEFAULT_MODEL',
+      getBooleanEnvVar('EXPO_PUBLIC_MOCK_API', false) ? 'mock:echo' : 'openai:gpt-4o'
+    ),
     maxMessages: getNumberEnvVar('EXPO_PUBLIC_MAX_MESSAGES', 100),
-    defaultTemperature: getNumberEnvVar('EXPO_PUBLIC_DEFAULT_TEMPERATURE', 0.7),
+    defaultTemperature: getFloatEnvVar('EXPO_PUBLIC_DEFAULT_TEMPERATURE', 0.7),
     maxTokens: getNumberEnvVar('EXPO_PUBLIC_MAX_TOKENS', 2000),
+    // Prompt budget for history - older turns beyond it are summarized
+    contextTokens: getNumberEnvVar('EXPO_PUBLIC_CONTEXT_TOKENS', 8000),
     streamingEnabled: getBooleanEnvVar('EXPO_PUBLIC_STREAMING_ENABLED', true),
+    // Embedding model for semantic history search - `mock:hash` works offline
+    embeddingModel: getEnvVar(
+      'EXPO_PUBLIC_EMBEDDING_MODEL',
+      getBooleanEnvVar('EXPO_PUBLIC_MOCK_API', false)
+        ? 'mock:hash'
+        : 'openai:text-embedding-3-small'
+    ),
   },
 
   // Supabase Configuration (Phase 2.1)
@@ -74,6 +101,17 @@ export const config = {
     ),
   },
 
+  // Storage Configuration
+  storage: {
+    // Private bucket created by 010_chat_attachments.sql - files are read through signed URLs
+    attachmentsBucket: getEnvVar('EXPO_PUBLIC_ATTACHMENTS_BUCKET', 'chat-attachments'),
+    maxAttachmentSizeMb: getNumberEnvVar('EXPO_PUBLIC_MAX_ATTACHMENT_SIZE_MB', 10),
+    maxAttachmentsPerMessage: getNumberEnvVar('EXPO_PUBLIC_MAX_ATTACHMENTS', 4),
+    // Public bucket created by 014_profile_management.sql
+    avatarsBucket: getEnvVar('EXPO_PUBLIC_AVATARS_BUCKET', 'avatars'),
+    maxAvatarSizeMb: getNumberEnvVar('EXPO_PUBLIC_MAX_AVATAR_SIZE_MB', 2),
+  },
+
   // Feature Flags (imported from features.ts)
   features: FEATURES,
 
@@ -208,3 +246,11 @@ if (__DEV__) {
 
 // Re-export feature utilities for convenience
 export { FEATURES, getEnabledFeatures, validateTemplateFeatures } from './features';
+export {
+  MODEL_OPTIONS,
+  PROVIDER_LABELS,
+  getModelOption,
+  normalizeModelId,
+  parseModelId,
+} from './models';
+export type { ModelOption, ModelProvider } from './models';
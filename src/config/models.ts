@@ -0,0 +1,75 @@
+/**
+ * AI Model Catalog
+ * Client-safe list of models selectable for /api/chat requests
+ */
+
+/**
+ * Providers registered in the server-side model registry
+ */
+export const MODEL_PROVIDERS = ['openai', 'anthropic', 'local', 'mock'] as const;
+
+export type ModelProvider = (typeof MODEL_PROVIDERS)[number];
+
+export interface ModelOption {
+  /** Registry identifier in `provider:model` form, stored in `messages.model_used` */
+  id: string;
+  provider: ModelProvider;
+  label: string;
+  /** Accepts image and PDF attachments as multimodal parts */
+  vision?: boolean;
+}
+
+/**
+ * Model name served by the local OpenAI-compatible endpoint (Ollama, LM Studio, vLLM...)
+ */
+const LOCAL_MODEL_NAME = process.env.EXPO_PUBLIC_LOCAL_AI_MODEL || 'llama3.1';
+
+export const MODEL_OPTIONS: ModelOption[] = [
+  { id: 'openai:gpt-4o', provider: 'openai', label: 'GPT-4o', vision: true },
+  { id: 'openai:gpt-4o-mini', provider: 'openai', label: 'GPT-4o mini', vision: true },
+  {
+    id: 'anthropic:claude-3-5-sonnet-latest',
+    provider: 'anthropic',
+    label: 'Claude 3.5 Sonnet',
+    vision: true,
+  },
+  { id: 'anthropic:claude-3-5-haiku-latest', provider: 'anthropic', label: 'Claude 3.5 Haiku' },
+  { id: `local:${LOCAL_MODEL_NAME}`, provider: 'local', label: `Local (${LOCAL_MODEL_NAME})` },
+  { id: 'mock:echo', provider: 'mock', label: 'Mock (echo)' },
+];
+
+export const PROVIDER_LABELS: Record<ModelProvider, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  local: 'Local',
+  mock: 'Mock',
+};
+
+/**
+ * Split a `provider:model` identifier into its parts
+ */
+export const parseModelId = (modelId: string): { provider: string; modelName: string } => {
+  const separatorIndex = modelId.indexOf(':');
+  if (separatorIndex === -1) {
+    return { provider: '', modelName: modelId };
+  }
+  return {
+    provider: modelId.slice(0, separatorIndex),
+    modelName: modelId.slice(separatorIndex + 1),
+  };
+};
+
+/**
+ * Registry identifier for a stored `messages.model_used` value
+ * Replies saved before the provider registry hold a bare model name, and all of them came from OpenAI
+ */
+export const normalizeModelId = (modelId: string): string => {
+  return parseModelId(modelId).provider ? modelId : `openai:${modelId}`;
+};
+
+/**
+ * Look up the catalog entry for a model identifier
+ */
+export const getModelOption = (modelId: string): ModelOption | undefined => {
+  return MODEL_OPTIONS.find((option) => option.id === modelId);
+};
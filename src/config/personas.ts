@@ -0,0 +1,76 @@
+/**
+ * Persona Presets
+ * System prompts and default generation settings selectable per conversation
+ */
+import type { Ionicons } from '@expo/vector-icons';
+import type { ConversationSettings } from '@/types/api';
+
+export interface PersonaPreset {
+  /** Stored in `conversations.metadata.persona_id` */
+  id: string;
+  name: string;
+  description: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  /** Injected server-side as the first `system` message */
+  systemPrompt: string;
+  /** Defaults applied beneath `conversations.metadata.settings` */
+  settings: ConversationSettings;
+}
+
+export const DEFAULT_PERSONA_ID = 'assistant';
+
+export const PERSONA_PRESETS: PersonaPreset[] = [
+  {
+    id: 'assistant',
+    name: 'Assistant',
+    description: 'Balanced, general-purpose help',
+    icon: 'sparkles-outline',
+    systemPrompt:
+      'You are a helpful AI assistant. Answer clearly and accurately, and ask a clarifying question when a request is ambiguous.',
+    settings: {},
+  },
+  {
+    id: 'concise',
+    name: 'Concise',
+    description: 'Short, direct answers',
+    icon: 'flash-outline',
+    systemPrompt:
+      'You are a concise assistant. Answer in as few words as possible. Use bullet points for lists and skip preamble.',
+    settings: { temperature: 0.3, maxTokens: 500 },
+  },
+  {
+    id: 'developer',
+    name: 'Developer',
+    description: 'Code-focused, precise technical help',
+    icon: 'code-slash-outline',
+    systemPrompt:
+      'You are a senior software engineer. Give precise, working code with brief explanations. Use fenced code blocks with language tags and point out edge cases.',
+    settings: { temperature: 0.2 },
+  },
+  {
+    id: 'writer',
+    name: 'Writer',
+    description: 'Creative drafting and editing',
+    icon: 'create-outline',
+    systemPrompt:
+      'You are a skilled writing partner. Help draft, edit and improve text while matching the tone the user asks for.',
+    settings: { temperature: 1.0 },
+  },
+  {
+    id: 'tutor',
+    name: 'Tutor',
+    description: 'Step-by-step explanations',
+    icon: 'school-outline',
+    systemPrompt:
+      'You are a patient tutor. Explain concepts step by step, check understanding with short questions, and avoid giving away full answers to exercises unless asked.',
+    settings: { temperature: 0.5 },
+  },
+];
+
+/**
+ * Look up a persona preset by id
+ */
+export const getPersona = (personaId: string | null | undefined): PersonaPreset | undefined => {
+  if (!personaId) return undefined;
+  return PERSONA_PRESETS.find((persona) => persona.id === personaId);
+};
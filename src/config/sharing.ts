@@ -0,0 +1,63 @@
+/**
+ * Share Access Levels
+ * Permissions an owner can grant when sharing a conversation
+ */
+
+export const SHARE_PERMISSIONS = ['read', 'comment', 'fork', 'write'] as const;
+
+export type SharePermission = (typeof SHARE_PERMISSIONS)[number];
+
+export interface ShareAccessLevel {
+  id: SharePermission;
+  label: string;
+  description: string;
+  /** Stored in `conversation_shares.permissions` - each level includes the ones before it */
+  permissions: SharePermission[];
+  /** Only granted to invited users - public links cannot carry it */
+  inviteOnly?: boolean;
+}
+
+export const SHARE_ACCESS_LEVELS: ShareAccessLevel[] = [
+  {
+    id: 'read',
+    label: 'Read',
+    description: 'View the conversation',
+    permissions: ['read'],
+  },
+  {
+    id: 'comment',
+    label: 'Comment',
+    description: 'View and comment on messages',
+    permissions: ['read', 'comment'],
+  },
+  {
+    id: 'fork',
+    label: 'Fork',
+    description: 'View, comment and copy into their own conversation',
+    permissions: ['read', 'comment', 'fork'],
+  },
+  {
+    id: 'write',
+    label: 'Write',
+    description: 'Everything above, plus send messages in this conversation',
+    permissions: ['read', 'comment', 'fork', 'write'],
+    inviteOnly: true,
+  },
+];
+
+/**
+ * Levels that can be granted to a share - public links cannot carry invite-only access
+ */
+export const getAvailableShareLevels = (isPublic: boolean): ShareAccessLevel[] => {
+  return SHARE_ACCESS_LEVELS.filter((level) => !isPublic || !level.inviteOnly);
+};
+
+/**
+ * Highest access level granted by a permissions array
+ */
+export const getShareAccessLevel = (
+  permissions: string[] | null | undefined
+): ShareAccessLevel | undefined => {
+  if (!permissions?.length) return undefined;
+  return [...SHARE_ACCESS_LEVELS].reverse().find((level) => permissions.includes(level.id));
+};
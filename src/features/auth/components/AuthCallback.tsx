@@ -0,0 +1,71 @@
+/**
+ * AuthCallback Component
+ * Landing screen for OAuth redirects and magic links that open the app as a deep link
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, ActivityIndicator, StatusBar, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Redirect, router } from 'expo-router';
+import * as Linking from 'expo-linking';
+import { useTheme } from '@/features/shared';
+import { useAuth } from '../hooks/useAuth';
+import { completeAuthRedirect } from '../utils';
+
+interface AuthCallbackProps {
+  /** The redirect was already handed back to the browser session that started it */
+  handledBySession?: boolean;
+}
+
+export function AuthCallback({ handledBySession = false }: AuthCallbackProps) {
+  const { isDark } = useTheme();
+  const { isAuthenticated } = useAuth();
+  const url = Linking.useURL();
+  const [error, setError] = useState<string | null>(null);
+  const handledUrlRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (handledBySession || isAuthenticated || !url || handledUrlRef.current === url) return;
+    handledUrlRef.current = url;
+
+    completeAuthRedirect(url).catch((err) => {
+      console.error('Error completing sign in:', err);
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+    });
+  }, [handledBySession, isAuthenticated, url]);
+
+  // The in-app browser session may have exchanged the code already
+  if (isAuthenticated) {
+    return <Redirect href="/(app)" />;
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-background" edges={['top', 'left', 'right', 'bottom']}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? '#0f0f11' : '#fafaf9'}
+      />
+      <View className="flex-1 items-center justify-center p-8">
+        {error ? (
+          <>
+            <Text className="text-lg font-semibold text-foreground text-center">
+              Sign in failed
+            </Text>
+            <Text className="text-sm text-muted-foreground mt-2 text-center">{error}</Text>
+            <TouchableOpacity
+              onPress={() => router.replace('/(auth)/login')}
+              className="bg-primary rounded-xl px-6 py-3 mt-6"
+            >
+              <Text className="text-primary-foreground font-semibold">Back to sign in</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <ActivityIndicator size="large" color={isDark ? '#9ca3af' : '#6b7280'} />
+            <Text className="text-sm text-muted-foreground mt-4">Signing you in...</Text>
+          </>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
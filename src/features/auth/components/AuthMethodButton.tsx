@@ -1,15 +1,24 @@
 import React from 'react';
-import { TouchableOpacity, Text, View } from 'react-native';
+import { TouchableOpacity, Text, View, ActivityIndicator } from 'react-native';
 import { useTheme } from '@/features/shared';
 import FontAwesome6 from '@expo/vector-icons/FontAwesome6';
 
 interface AuthMethodButtonProps {
-  method: 'google' | 'apple' | 'sms';
+  method: 'google' | 'apple' | 'sms' | 'email';
   label: string;
   onPress?: () => void;
+  /** Shows a spinner in place of the icon while this method is signing in */
+  loading?: boolean;
+  disabled?: boolean;
 }
 
-export function AuthMethodButton({ method, label, onPress }: AuthMethodButtonProps) {
+export function AuthMethodButton({
+  method,
+  label,
+  onPress,
+  loading = false,
+  disabled = false,
+}: AuthMethodButtonProps) {
   const { isDark } = useTheme();
 
   const renderIcon = () => {
@@ -34,6 +43,12 @@ export function AuthMethodButton({ method, label, onPress }: AuthMethodButtonPro
             <FontAwesome6 name="apple" size={18} color={isDark ? '#ffffff' : '#000000'} />
           </View>
         );
+      case 'email':
+        return (
+          <View style={containerStyle}>
+            <FontAwesome6 name="envelope" size={18} color={isDark ? '#ffffff' : '#000000'} />
+          </View>
+        );
       case 'sms':
         return (
           <View style={containerStyle}>
@@ -45,16 +60,13 @@ export function AuthMethodButton({ method, label, onPress }: AuthMethodButtonPro
     }
   };
 
-  const handlePress = () => {
-    // TODO: Implement actual auth methods
-    console.log(`${method} auth not implemented yet`);
-    onPress?.();
-  };
-
   return (
     <TouchableOpacity
-      onPress={handlePress}
-      className="w-full flex-row items-center justify-center py-4 px-6 rounded-xl border border-border bg-card"
+      onPress={onPress}
+      disabled={disabled || loading || !onPress}
+      className={`w-full flex-row items-center justify-center py-4 px-6 rounded-xl border border-border bg-card ${
+        disabled && !loading ? 'opacity-50' : ''
+      }`}
       style={{
         shadowColor: isDark ? '#000' : '#000',
         shadowOffset: { width: 0, height: 1 },
@@ -63,7 +75,13 @@ export function AuthMethodButton({ method, label, onPress }: AuthMethodButtonPro
         elevation: 2,
       }}
     >
-      <View className="mr-3">{renderIcon()}</View>
+      <View className="mr-3">
+        {loading ? (
+          <ActivityIndicator size="small" color={isDark ? '#ffffff' : '#000000'} />
+        ) : (
+          renderIcon()
+        )}
+      </View>
       <Text className="text-base font-medium text-foreground">{label}</Text>
     </TouchableOpacity>
   );
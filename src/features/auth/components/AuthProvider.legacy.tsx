@@ -5,8 +5,16 @@
 
 import React, { createContext, useEffect, useState, ReactNode, useRef, useCallback } from 'react';
 import { auth, supabase, db, isSupabaseConfigured } from '@/lib/supabase';
-import type { AuthContextType, AuthState, ProfileCreateData } from '../types';
-import type { Profile } from '@/lib/supabase';
+import type {
+  AuthContextType,
+  AuthState,
+  OAuthProvider,
+  PasswordlessChannel,
+  ProfileCreateData,
+  ProfileUpdateData,
+} from '../types';
+import type { Profile, UserIdentity } from '@/lib/supabase';
+import { getAuthRedirectUrl, isMfaRequired, requestMfaRecovery, runOAuthFlow } from '../utils';
 
 // Create authentication context
 export const AuthContext = createContext<AuthContextType | null>(null);
@@ -26,6 +34,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     session: null,
     profile: null,
     error: null,
+    mfaRequired: false,
   });
 
   // Track initialization and active operations
@@ -158,6 +167,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
             isAuthenticated: !!session,
             user: session?.user || null,
             session,
+            mfaRequired: isMfaRequired(session),
             profile: null, // Start with null, will be loaded async
             isLoading: false,
           }));
@@ -228,6 +238,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
                   isAuthenticated: !!session,
                   user: session?.user || null,
                   session,
+                  mfaRequired: isMfaRequired(session),
                   profile: null, // Start with null, will be loaded async
                   isLoading: false,
                   error: null, // Clear errors on auth state change
@@ -318,6 +329,118 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const signInWithProvider = async (provider: OAuthProvider): Promise<void> => {
+    const operationId = 'signInWithProvider';
+    try {
+      startOperation(operationId);
+      setState((prev) => ({ ...prev, error: null }));
+
+      const completed = await runOAuthFlow(provider, 'signIn');
+      // Otherwise wait for auth state change
+      if (!completed) completeOperation(operationId);
+    } catch (error) {
+      completeOperation(operationId);
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Sign in failed',
+      }));
+      throw error;
+    }
+  };
+
+  const sendMagicLink = async (email: string): Promise<void> => {
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+
+      const { error } = await auth.sendMagicLink(email, getAuthRedirectUrl());
+      if (error) throw new Error(error.message);
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Sending sign-in link failed',
+      }));
+      throw error;
+    }
+  };
+
+  const sendPhoneCode = async (phone: string): Promise<void> => {
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+
+      const { error } = await auth.sendPhoneOtp(phone);
+      if (error) throw new Error(error.message);
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Sending code failed',
+      }));
+      throw error;
+    }
+  };
+
+  // The session arrives through onAuthStateChange once the code is accepted
+  const verifyCode = async (
+    channel: PasswordlessChannel,
+    destination: string,
+    code: string
+  ): Promise<void> => {
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+
+      const { error } =
+        channel === 'phone'
+          ? await auth.verifyOtp({ phone: destination, token: code, type: 'sms' })
+          : await auth.verifyOtp({ email: destination, token: code, type: 'email' });
+      if (error) throw new Error(error.message);
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Verifying code failed',
+      }));
+      throw error;
+    }
+  };
+
+  const verifyMfa = async (code: string): Promise<void> => {
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+
+      const factor = state.user?.factors?.find(
+        (item) => item.factor_type === 'totp' && item.status === 'verified'
+      );
+      if (!factor) throw new Error('No authenticator app is set up for this account');
+
+      // Verifying raises the session to aal2 and fires MFA_CHALLENGE_VERIFIED
+      const { error } = await auth.verifyMfa(factor.id, code);
+      if (error) throw new Error(error.message);
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Verifying code failed',
+      }));
+      throw error;
+    }
+  };
+
+  const redeemRecoveryCode = async (code: string): Promise<void> => {
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+
+      if (!state.session) throw new Error('Sign in again to use a recovery code');
+      await requestMfaRecovery(state.session.access_token, code);
+
+      // Removing the factors revoked every session, so the user signs in again with
+      // their password alone. SIGNED_OUT clears the auth state.
+      await auth.signOut();
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Recovery code failed',
+      }));
+      throw error;
+    }
+  };
+
   const signUp = async (
     email: string,
     password: string,
@@ -448,7 +571,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setState((prev) => ({ ...prev, error: null }));
   };
 
-  const updateProfile = async (updates: any): Promise<void> => {
+  const updateProfile = async (updates: ProfileUpdateData): Promise<void> => {
     setState((prev) => ({ ...prev, error: null }));
 
     try {
@@ -495,6 +618,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         isAuthenticated: !!session,
         user: session?.user || null,
         session,
+        mfaRequired: isMfaRequired(session),
         profile,
       }));
       console.log('[AUTH] Session refreshed successfully');
@@ -572,15 +696,63 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     return () => clearInterval(interval);
   }, [state.session, refreshSession]);
 
+  const getIdentities = async (): Promise<UserIdentity[]> => {
+    const { identities, error } = await auth.getUserIdentities();
+    if (error) throw new Error(error.message);
+    return identities ?? [];
+  };
+
+  const linkProvider = async (provider: OAuthProvider): Promise<void> => {
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+      await runOAuthFlow(provider, 'link');
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Linking account failed',
+      }));
+      throw error;
+    }
+  };
+
+  const unlinkIdentity = async (identity: UserIdentity): Promise<void> => {
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+
+      const { error } = await auth.unlinkIdentity(identity);
+      if (error) throw new Error(error.message);
+
+      const { user } = await auth.getUser();
+      if (user) {
+        setState((prev) => ({ ...prev, user }));
+      }
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Unlinking account failed',
+      }));
+      throw error;
+    }
+  };
+
   // Context value
   const value: AuthContextType = {
     ...state,
     signIn,
+    signInWithProvider,
+    sendMagicLink,
+    sendPhoneCode,
+    verifyCode,
+    verifyMfa,
+    redeemRecoveryCode,
     signUp,
     signOut,
     resetPassword,
     clearError,
     updateProfile,
+    getIdentities,
+    linkProvider,
+    unlinkIdentity,
     refreshSession,
   };
 
@@ -6,8 +6,16 @@
 
 import React, { createContext, useEffect, useState, ReactNode, useRef, useCallback } from 'react';
 import { auth, supabase, db, isSupabaseConfigured } from '@/lib/supabase';
-import type { AuthContextType, AuthState, ProfileCreateData } from '../types';
-import type { Profile } from '@/lib/supabase';
+import type {
+  AuthContextType,
+  AuthState,
+  OAuthProvider,
+  PasswordlessChannel,
+  ProfileCreateData,
+  ProfileUpdateData,
+} from '../types';
+import type { Profile, UserIdentity } from '@/lib/supabase';
+import { getAuthRedirectUrl, isMfaRequired, requestMfaRecovery, runOAuthFlow } from '../utils';
 
 // Create authentication context
 export const AuthContext = createContext<AuthContextType | null>(null);
@@ -27,6 +35,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     session: null,
     profile: null,
     error: null,
+    mfaRequired: false,
   });
 
   // Track if we've received the initial session event
@@ -115,6 +124,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
                   isAuthenticated: !!session,
                   user: session?.user || null,
                   session,
+                  mfaRequired: isMfaRequired(session),
                   profile: session?.user?.id === prev.user?.id ? prev.profile : null, // Keep profile if same user
                   isLoading: false,
                   error: null,
@@ -223,6 +233,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           isAuthenticated: true,
           user: data.user,
           session: data.session,
+          // Enrolled users finish signing in on the MFA challenge screen
+          mfaRequired: isMfaRequired(data.session),
           profile: null, // Will be loaded by listener or on next render
           isLoading: false,
         }));
@@ -251,6 +263,117 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // The session arrives through onAuthStateChange once the code is exchanged
+  const signInWithProvider = async (provider: OAuthProvider): Promise<void> => {
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+
+      const completed = await runOAuthFlow(provider, 'signIn');
+      if (!completed) {
+        console.log(`[AUTH] ${provider} sign in cancelled`);
+      }
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Sign in failed',
+      }));
+      throw error;
+    }
+  };
+
+  const sendMagicLink = async (email: string): Promise<void> => {
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+
+      const { error } = await auth.sendMagicLink(email, getAuthRedirectUrl());
+      if (error) throw new Error(error.message);
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Sending sign-in link failed',
+      }));
+      throw error;
+    }
+  };
+
+  const sendPhoneCode = async (phone: string): Promise<void> => {
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+
+      const { error } = await auth.sendPhoneOtp(phone);
+      if (error) throw new Error(error.message);
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Sending code failed',
+      }));
+      throw error;
+    }
+  };
+
+  // The session arrives through onAuthStateChange once the code is accepted
+  const verifyCode = async (
+    channel: PasswordlessChannel,
+    destination: string,
+    code: string
+  ): Promise<void> => {
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+
+      const { error } =
+        channel === 'phone'
+          ? await auth.verifyOtp({ phone: destination, token: code, type: 'sms' })
+          : await auth.verifyOtp({ email: destination, token: code, type: 'email' });
+      if (error) throw new Error(error.message);
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Verifying code failed',
+      }));
+      throw error;
+    }
+  };
+
+  const verifyMfa = async (code: string): Promise<void> => {
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+
+      const factor = state.user?.factors?.find(
+        (item) => item.factor_type === 'totp' && item.status === 'verified'
+      );
+      if (!factor) throw new Error('No authenticator app is set up for this account');
+
+      // Verifying raises the session to aal2 and fires MFA_CHALLENGE_VERIFIED
+      const { error } = await auth.verifyMfa(factor.id, code);
+      if (error) throw new Error(error.message);
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Verifying code failed',
+      }));
+      throw error;
+    }
+  };
+
+  const redeemRecoveryCode = async (code: string): Promise<void> => {
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+
+      if (!state.session) throw new Error('Sign in again to use a recovery code');
+      await requestMfaRecovery(state.session.access_token, code);
+
+      // Removing the factors revoked every session, so the user signs in again with
+      // their password alone. SIGNED_OUT clears the auth state.
+      await auth.signOut();
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Recovery code failed',
+      }));
+      throw error;
+    }
+  };
+
   const signUp = async (
     email: string,
     password: string,
@@ -334,6 +457,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         user: null,
         session: null,
         profile: null,
+        mfaRequired: false,
         isLoading: false,
       }));
     } catch (error) {
@@ -364,7 +488,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setState((prev) => ({ ...prev, error: null }));
   };
 
-  const updateProfile = async (updates: any): Promise<void> => {
+  const updateProfile = async (updates: ProfileUpdateData): Promise<void> => {
     setState((prev) => ({ ...prev, error: null }));
 
     try {
@@ -395,6 +519,46 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const getIdentities = async (): Promise<UserIdentity[]> => {
+    const { identities, error } = await auth.getUserIdentities();
+    if (error) throw new Error(error.message);
+    return identities ?? [];
+  };
+
+  const linkProvider = async (provider: OAuthProvider): Promise<void> => {
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+      await runOAuthFlow(provider, 'link');
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Linking account failed',
+      }));
+      throw error;
+    }
+  };
+
+  const unlinkIdentity = async (identity: UserIdentity): Promise<void> => {
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+
+      const { error } = await auth.unlinkIdentity(identity);
+      if (error) throw new Error(error.message);
+
+      // The cached user still lists the removed identity until it is fetched again
+      const { user } = await auth.getUser();
+      if (user) {
+        setState((prev) => ({ ...prev, user }));
+      }
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Unlinking account failed',
+      }));
+      throw error;
+    }
+  };
+
   const refreshSession = useCallback(async (): Promise<void> => {
     try {
       setState((prev) => ({ ...prev, error: null }));
@@ -411,6 +575,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         isAuthenticated: !!session,
         user: session?.user || null,
         session,
+        mfaRequired: isMfaRequired(session),
         profile,
       }));
       console.log('[AUTH] Session refreshed successfully');
@@ -432,11 +597,20 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const value: AuthContextType = {
     ...state,
     signIn,
+    signInWithProvider,
+    sendMagicLink,
+    sendPhoneCode,
+    verifyCode,
+    verifyMfa,
+    redeemRecoveryCode,
     signUp,
     signOut,
     resetPassword,
     clearError,
     updateProfile,
+    getIdentities,
+    linkProvider,
+    unlinkIdentity,
     refreshSession,
   };
 
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -6,21 +6,32 @@ import {
   Platform,
   StatusBar,
   ScrollView,
-  Image,
   TouchableOpacity,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router, useNavigation } from 'expo-router';
 import { AuthForm } from './AuthForm';
 import { AuthMethodButton } from './AuthMethodButton';
+import { PasswordlessForm } from './PasswordlessForm';
 import { useTheme } from '@/features/shared';
 import { useOnboarding } from '@/features/onboarding';
 import { FEATURES } from '@/config/features';
+import { useAuth } from '../hooks/useAuth';
+import type { OAuthProvider, PasswordlessChannel } from '../types';
 
 export function AuthScreen() {
   const { isDark } = useTheme();
   const { resetOnboarding } = useOnboarding();
   const navigation = useNavigation();
+  const { signInWithProvider } = useAuth();
+  const [pendingProvider, setPendingProvider] = useState<OAuthProvider | null>(null);
+  const [passwordlessChannel, setPasswordlessChannel] = useState<PasswordlessChannel | null>(null);
+
+  const showGoogle = FEATURES.enableSocialAuth && FEATURES.enableGoogleAuth;
+  const showApple = FEATURES.enableSocialAuth && FEATURES.enableAppleAuth && Platform.OS === 'ios';
+  const showOtherMethods =
+    !passwordlessChannel &&
+    (FEATURES.enableMagicLinkAuth || FEATURES.enableSmsAuth || showGoogle || showApple);
 
   // Only show back button if onboarding is enabled or we can actually go back
   const shouldShowBackButton = FEATURES.enableOnboarding || navigation.canGoBack();
@@ -54,6 +65,18 @@ export function AuthScreen() {
     }
   };
 
+  // Errors surface through the auth error alert in the root layout
+  const handleProviderPress = async (provider: OAuthProvider) => {
+    try {
+      setPendingProvider(provider);
+      await signInWithProvider(provider);
+    } catch (error) {
+      console.error(`Error signing in with ${provider}:`, error);
+    } finally {
+      setPendingProvider(null);
+    }
+  };
+
   return (
     <SafeAreaView className="flex-1 bg-background" edges={['top', 'left', 'right']}>
       <StatusBar
@@ -99,11 +122,16 @@ export function AuthScreen() {
             </View>
 
             <View className="max-w-sm mx-auto w-full">
-              <AuthForm />
+              {passwordlessChannel ? (
+                <PasswordlessForm
+                  channel={passwordlessChannel}
+                  onCancel={() => setPasswordlessChannel(null)}
+                />
+              ) : (
+                <AuthForm />
+              )}
 
-              {(FEATURES.enableSmsAuth ||
-                FEATURES.enableGoogleAuth ||
-                FEATURES.enableAppleAuth) && (
+              {showOtherMethods && (
                 <View className="mt-12">
                   <View className="flex-row items-center my-8">
                     <View className="flex-1 h-px bg-border" />
@@ -112,14 +140,39 @@ export function AuthScreen() {
                   </View>
 
                   <View className="space-y-4 gap-2">
+                    {FEATURES.enableMagicLinkAuth && (
+                      <AuthMethodButton
+                        method="email"
+                        label="Email me a sign-in link"
+                        onPress={() => setPasswordlessChannel('email')}
+                        disabled={!!pendingProvider}
+                      />
+                    )}
                     {FEATURES.enableSmsAuth && (
-                      <AuthMethodButton method="sms" label="Continue with Phone" />
+                      <AuthMethodButton
+                        method="sms"
+                        label="Continue with Phone"
+                        onPress={() => setPasswordlessChannel('phone')}
+                        disabled={!!pendingProvider}
+                      />
                     )}
-                    {FEATURES.enableGoogleAuth && (
-                      <AuthMethodButton method="google" label="Continue with Google" />
+                    {showGoogle && (
+                      <AuthMethodButton
+                        method="google"
+                        label="Continue with Google"
+                        onPress={() => handleProviderPress('google')}
+                        loading={pendingProvider === 'google'}
+                        disabled={!!pendingProvider}
+                      />
                     )}
-                    {FEATURES.enableAppleAuth && Platform.OS === 'ios' && (
-                      <AuthMethodButton method="apple" label="Continue with Apple" />
+                    {showApple && (
+                      <AuthMethodButton
+                        method="apple"
+                        label="Continue with Apple"
+                        onPress={() => handleProviderPress('apple')}
+                        loading={pendingProvider === 'apple'}
+                        disabled={!!pendingProvider}
+                      />
                     )}
                   </View>
                 </View>
@@ -0,0 +1,146 @@
+/**
+ * MfaChallenge Component
+ * Second sign-in step for accounts with an authenticator app, with a recovery code fallback
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  StatusBar,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '@/features/shared';
+import { useAuth } from '../hooks/useAuth';
+
+const TOTP_LENGTH = 6;
+
+export function MfaChallenge() {
+  const { isDark } = useTheme();
+  const { verifyMfa, redeemRecoveryCode, signOut } = useAuth();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const canSubmit = useRecoveryCode ? !!code.trim() : code.length === TOTP_LENGTH;
+
+  // Errors surface through the auth error alert in the root layout
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    try {
+      setLoading(true);
+      if (useRecoveryCode) {
+        await redeemRecoveryCode(code);
+        Alert.alert(
+          'Two-Factor Authentication Removed',
+          'Sign in again with your password, then set up a new authenticator in Security settings.'
+        );
+      } else {
+        await verifyMfa(code);
+      }
+    } catch (error) {
+      console.error('Error completing MFA challenge:', error);
+      setCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleMode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Sign out error:', error);
+    }
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-background" edges={['top', 'left', 'right']}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? '#0f0f11' : '#fafaf9'}
+      />
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        className="flex-1"
+      >
+        <View className="flex-1 justify-center px-6 py-8">
+          <View className="items-center mb-12">
+            <Text className="text-2xl font-bold text-foreground">Two-Factor Authentication</Text>
+            <Text className="text-base text-muted-foreground text-center mt-2">
+              {useRecoveryCode
+                ? 'Enter one of the recovery codes you saved when setting up two-factor authentication.'
+                : 'Enter the 6-digit code from your authenticator app.'}
+            </Text>
+          </View>
+
+          <View className="max-w-sm mx-auto w-full">
+            <TextInput
+              value={code}
+              onChangeText={(text) =>
+                setCode(useRecoveryCode ? text : text.replace(/\D/g, '').slice(0, TOTP_LENGTH))
+              }
+              placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '000000'}
+              placeholderTextColor={isDark ? '#71717a' : '#a1a1aa'}
+              className="w-full px-4 bg-input rounded-xl text-xl text-foreground border border-border text-center"
+              style={{
+                minHeight: 56,
+                textAlignVertical: 'center',
+                paddingVertical: 16,
+                letterSpacing: useRecoveryCode ? 2 : 8,
+              }}
+              keyboardType={useRecoveryCode ? 'default' : 'number-pad'}
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoComplete={useRecoveryCode ? 'off' : 'one-time-code'}
+              textContentType={useRecoveryCode ? 'none' : 'oneTimeCode'}
+              onSubmitEditing={handleSubmit}
+              autoFocus
+            />
+
+            <TouchableOpacity
+              onPress={handleSubmit}
+              disabled={loading || !canSubmit}
+              className="w-full bg-primary py-4 rounded-xl items-center mt-8 shadow-sm"
+              style={{ opacity: loading || !canSubmit ? 0.7 : 1 }}
+            >
+              {loading ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text className="text-primary-foreground text-base font-semibold">Verify</Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity onPress={handleToggleMode} disabled={loading} className="py-3 mt-4">
+              <Text className="text-center text-primary font-medium">
+                {useRecoveryCode ? 'Use authenticator app instead' : 'Use a recovery code'}
+              </Text>
+            </TouchableOpacity>
+
+            {useRecoveryCode && (
+              <Text className="text-xs text-muted-foreground text-center">
+                A recovery code turns off two-factor authentication so you can set it up again.
+              </Text>
+            )}
+
+            <TouchableOpacity onPress={handleSignOut} disabled={loading} className="py-3 mt-4">
+              <Text className="text-center text-muted-foreground font-medium">Sign out</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * PasswordlessForm Component
+ * Sends a magic link or SMS code, then takes the one-time code to finish signing in
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useTheme } from '@/features/shared';
+import { usePasswordlessAuth, OTP_LENGTH } from '../hooks/usePasswordlessAuth';
+import type { PasswordlessChannel } from '../types';
+
+interface PasswordlessFormProps {
+  channel: PasswordlessChannel;
+  /** Back to email and password sign-in */
+  onCancel: () => void;
+}
+
+export function PasswordlessForm({ channel, onCancel }: PasswordlessFormProps) {
+  const { isDark } = useTheme();
+  const [value, setValue] = useState('');
+  const [code, setCode] = useState('');
+  const { step, destination, loading, error, cooldown, sendCode, resendCode, verifyCode, reset } =
+    usePasswordlessAuth(channel);
+
+  const isEmail = channel === 'email';
+  const canSubmit = step === 'request' ? !!value.trim() : code.length === OTP_LENGTH;
+
+  const handleSubmit = () => {
+    if (step === 'request') {
+      sendCode(value);
+    } else {
+      verifyCode(code);
+    }
+  };
+
+  const handleChangeDestination = () => {
+    setCode('');
+    reset();
+  };
+
+  return (
+    <View className="space-y-5">
+      {step === 'request' ? (
+        <View>
+          <Text className="text-sm font-medium text-foreground mb-2">
+            {isEmail ? 'Email' : 'Phone Number'}
+          </Text>
+          <TextInput
+            value={value}
+            onChangeText={setValue}
+            placeholder={isEmail ? 'you@example.com' : '+1 415 555 0123'}
+            placeholderTextColor={isDark ? '#71717a' : '#a1a1aa'}
+            className="w-full px-4 bg-input rounded-xl text-base text-foreground border border-border"
+            style={{ minHeight: 56, textAlignVertical: 'center', paddingVertical: 16 }}
+            keyboardType={isEmail ? 'email-address' : 'phone-pad'}
+            autoCapitalize="none"
+            autoComplete={isEmail ? 'email' : 'tel'}
+            onSubmitEditing={handleSubmit}
+          />
+          <Text className="text-xs text-muted-foreground mt-2">
+            {isEmail
+              ? "We'll email you a sign-in link. No password needed."
+              : "We'll text you a code to sign in. Message and data rates may apply."}
+          </Text>
+        </View>
+      ) : (
+        <View>
+          <Text className="text-sm text-muted-foreground mb-4">
+            {isEmail
+              ? `We sent a sign-in link to ${destination}. Open it on this device, or enter the code from the email.`
+              : `Enter the code we texted to ${destination}.`}
+          </Text>
+          <Text className="text-sm font-medium text-foreground mb-2">Code</Text>
+          <TextInput
+            value={code}
+            onChangeText={(text) => setCode(text.replace(/\D/g, '').slice(0, OTP_LENGTH))}
+            placeholder={'0'.repeat(OTP_LENGTH)}
+            placeholderTextColor={isDark ? '#71717a' : '#a1a1aa'}
+            className="w-full px-4 bg-input rounded-xl text-xl text-foreground border border-border text-center"
+            style={{
+              minHeight: 56,
+              textAlignVertical: 'center',
+              paddingVertical: 16,
+              letterSpacing: 8,
+            }}
+            keyboardType="number-pad"
+            autoComplete="one-time-code"
+            textContentType="oneTimeCode"
+            maxLength={OTP_LENGTH}
+            onSubmitEditing={handleSubmit}
+            autoFocus
+          />
+        </View>
+      )}
+
+      {error && <Text className="text-sm text-red-500 mt-2">{error}</Text>}
+
+      <TouchableOpacity
+        onPress={handleSubmit}
+        disabled={loading || !canSubmit}
+        className="w-full bg-primary py-4 rounded-xl items-center mt-8 shadow-sm"
+        style={{ opacity: loading || !canSubmit ? 0.7 : 1 }}
+      >
+        {loading ? (
+          <ActivityIndicator color="white" />
+        ) : (
+          <Text className="text-primary-foreground text-base font-semibold">
+            {step === 'verify' ? 'Verify' : isEmail ? 'Send Link' : 'Send Code'}
+          </Text>
+        )}
+      </TouchableOpacity>
+
+      {step === 'verify' && (
+        <View className="flex-row justify-between mt-4">
+          <TouchableOpacity
+            onPress={resendCode}
+            disabled={loading || cooldown > 0}
+            className="py-3"
+          >
+            <Text
+              className={`font-medium ${cooldown > 0 ? 'text-muted-foreground' : 'text-primary'}`}
+            >
+              {cooldown > 0 ? `Resend in ${cooldown}s` : isEmail ? 'Resend link' : 'Resend code'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleChangeDestination} disabled={loading} className="py-3">
+            <Text className="text-primary font-medium">
+              {isEmail ? 'Change email' : 'Change number'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <TouchableOpacity onPress={onCancel} className="py-3">
+        <Text className="text-center text-primary font-medium">Sign in with password instead</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
@@ -0,0 +1,248 @@
+/**
+ * ProfileSettings Component
+ * Profile editing - name, username, bio, website, phone number and profile picture
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+  StatusBar,
+  type TextInputProps,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useTheme } from '@/features/shared';
+import { useAuth } from '../hooks/useAuth';
+import { useProfileForm, type ProfileField } from '../hooks/useProfileForm';
+
+const AVATAR_SIZE = 96;
+const BIO_MAX_LENGTH = 500;
+
+interface FieldConfig
+  extends Pick<
+    TextInputProps,
+    'placeholder' | 'keyboardType' | 'autoCapitalize' | 'autoComplete' | 'textContentType'
+  > {
+  field: ProfileField;
+  label: string;
+  multiline?: boolean;
+}
+
+const FIELDS: FieldConfig[] = [
+  {
+    field: 'full_name',
+    label: 'Name',
+    placeholder: 'Your name',
+    autoCapitalize: 'words',
+    autoComplete: 'name',
+    textContentType: 'name',
+  },
+  {
+    field: 'username',
+    label: 'Username',
+    placeholder: 'username',
+    autoCapitalize: 'none',
+    autoComplete: 'username',
+    textContentType: 'username',
+  },
+  {
+    field: 'bio',
+    label: 'Bio',
+    placeholder: 'A few words about yourself',
+    multiline: true,
+  },
+  {
+    field: 'website',
+    label: 'Website',
+    placeholder: 'example.com',
+    keyboardType: 'url',
+    autoCapitalize: 'none',
+    autoComplete: 'url',
+    textContentType: 'URL',
+  },
+  {
+    field: 'phone',
+    label: 'Phone',
+    placeholder: '+14155550123',
+    keyboardType: 'phone-pad',
+    autoComplete: 'tel',
+    textContentType: 'telephoneNumber',
+  },
+];
+
+export function ProfileSettings() {
+  const { isDark } = useTheme();
+  const { user, profile } = useAuth();
+  const {
+    values,
+    errors,
+    error,
+    isDirty,
+    saving,
+    uploadingAvatar,
+    setValue,
+    save,
+    pickAvatar,
+    removeAvatar,
+  } = useProfileForm();
+
+  const iconColor = isDark ? '#9ca3af' : '#666';
+  const displayName = profile?.full_name || profile?.username || user?.email?.split('@')[0] || '';
+  const canSave = isDirty && !saving;
+
+  const handleSave = async () => {
+    if (await save()) {
+      Alert.alert('Profile Updated', 'Your changes have been saved.');
+    }
+  };
+
+  const handleRemoveAvatar = () => {
+    Alert.alert('Remove Profile Picture', 'Your initial will be shown instead.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: removeAvatar },
+    ]);
+  };
+
+  const renderAvatar = () => (
+    <View className="items-center mb-6">
+      <Pressable
+        onPress={pickAvatar}
+        disabled={uploadingAvatar}
+        accessibilityLabel="Change profile picture"
+        className="rounded-full bg-primary items-center justify-center overflow-hidden"
+        style={{ width: AVATAR_SIZE, height: AVATAR_SIZE }}
+      >
+        {profile?.avatar_url ? (
+          <Image
+            source={{ uri: profile.avatar_url }}
+            style={{ width: AVATAR_SIZE, height: AVATAR_SIZE }}
+          />
+        ) : (
+          <Text className="text-3xl font-semibold text-primary-foreground">
+            {displayName.charAt(0).toUpperCase()}
+          </Text>
+        )}
+        {uploadingAvatar && (
+          <View className="absolute inset-0 items-center justify-center bg-black/40">
+            <ActivityIndicator color="white" />
+          </View>
+        )}
+      </Pressable>
+
+      <View className="flex-row items-center gap-4 mt-3">
+        <Pressable onPress={pickAvatar} disabled={uploadingAvatar}>
+          <Text className="text-sm font-medium text-primary">
+            {profile?.avatar_url ? 'Change photo' : 'Add photo'}
+          </Text>
+        </Pressable>
+        {profile?.avatar_url && (
+          <Pressable onPress={handleRemoveAvatar} disabled={uploadingAvatar}>
+            <Text className="text-sm font-medium text-red-500">Remove</Text>
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+
+  const renderField = ({ field, label, multiline, ...inputProps }: FieldConfig) => (
+    <View key={field} className="mb-4">
+      <Text className="text-sm font-medium text-foreground mb-2">{label}</Text>
+      <TextInput
+        {...inputProps}
+        value={values[field]}
+        onChangeText={(text) => setValue(field, text)}
+        placeholderTextColor={isDark ? '#71717a' : '#a1a1aa'}
+        className={`w-full px-4 bg-input rounded-xl text-base text-foreground border ${
+          errors[field] ? 'border-red-500' : 'border-border'
+        }`}
+        style={{
+          minHeight: multiline ? 96 : 56,
+          textAlignVertical: multiline ? 'top' : 'center',
+          paddingVertical: 16,
+        }}
+        multiline={multiline}
+        maxLength={multiline ? BIO_MAX_LENGTH : undefined}
+        autoCorrect={multiline}
+        editable={!saving}
+      />
+      {errors[field] ? (
+        <Text className="text-sm text-red-500 mt-1">{errors[field]}</Text>
+      ) : (
+        multiline && (
+          <Text className="text-xs text-muted-foreground mt-1 text-right">
+            {values[field].length}/{BIO_MAX_LENGTH}
+          </Text>
+        )
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView className="flex-1 bg-background" edges={['top', 'left', 'right']}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? '#0f0f11' : '#fafaf9'}
+      />
+
+      {/* Header */}
+      <View className="flex-row items-center px-4 py-3 border-b border-border">
+        <Pressable
+          onPress={() => router.back()}
+          className="w-10 h-10 items-center justify-center"
+          accessibilityLabel="Back"
+        >
+          <Ionicons name="chevron-back" size={24} color={isDark ? '#fff' : '#000'} />
+        </Pressable>
+        <Text className="text-lg font-semibold text-foreground ml-2">Profile</Text>
+      </View>
+
+      <KeyboardAvoidingView
+        className="flex-1"
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView className="flex-1 p-4" keyboardShouldPersistTaps="handled">
+          {error && (
+            <View className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+              <Text className="text-sm text-red-700">{error}</Text>
+            </View>
+          )}
+
+          {renderAvatar()}
+
+          <View className="flex-row items-center mb-4">
+            <Ionicons name="mail-outline" size={16} color={iconColor} />
+            <Text className="ml-2 text-sm text-muted-foreground" numberOfLines={1}>
+              {user?.email || profile?.email}
+            </Text>
+          </View>
+
+          {FIELDS.map(renderField)}
+
+          <TouchableOpacity
+            onPress={handleSave}
+            disabled={!canSave}
+            className="w-full bg-primary py-4 rounded-xl items-center mt-4 mb-8 shadow-sm"
+            style={{ opacity: canSave ? 1 : 0.7 }}
+          >
+            {saving ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text className="text-primary-foreground text-base font-semibold">Save Changes</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,295 @@
+/**
+ * SecuritySettings Component
+ * Two-factor authentication settings - authenticator app enrollment and recovery codes
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Linking,
+  Platform,
+  Share,
+  StatusBar,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { SvgXml } from 'react-native-svg';
+import { useTheme } from '@/features/shared';
+import { useMfaEnrollment } from '../hooks/useMfaEnrollment';
+import { getQrCodeSvg } from '../utils';
+
+const TOTP_LENGTH = 6;
+const QR_CODE_SIZE = 180;
+
+export function SecuritySettings() {
+  const { isDark } = useTheme();
+  const [code, setCode] = useState('');
+  const {
+    factors,
+    loading,
+    error,
+    enrollment,
+    recoveryCodes,
+    recoveryCodeCount,
+    startEnrollment,
+    confirmEnrollment,
+    cancelEnrollment,
+    removeFactor,
+    regenerateRecoveryCodes,
+    dismissRecoveryCodes,
+  } = useMfaEnrollment();
+
+  const iconColor = isDark ? '#9ca3af' : '#666';
+  const isEnabled = factors.length > 0;
+
+  const handleConfirm = async () => {
+    if (await confirmEnrollment(code)) {
+      setCode('');
+    }
+  };
+
+  const handleCancel = () => {
+    setCode('');
+    cancelEnrollment();
+  };
+
+  const handleRemove = (factorId: string) => {
+    Alert.alert(
+      'Turn Off Two-Factor Authentication',
+      'Signing in will only need your password or sign-in link. Your recovery codes stop working.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Turn Off', style: 'destructive', onPress: () => removeFactor(factorId) },
+      ]
+    );
+  };
+
+  const handleRegenerate = () => {
+    Alert.alert('Generate New Recovery Codes', 'Your current recovery codes will stop working.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Generate', onPress: regenerateRecoveryCodes },
+    ]);
+  };
+
+  const handleShareCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await Share.share({ message: recoveryCodes.join('\n') });
+    } catch (err) {
+      console.error('Error sharing recovery codes:', err);
+    }
+  };
+
+  const renderRecoveryCodes = () => (
+    <View className="bg-card rounded-lg p-4 mb-6">
+      <Text className="text-base font-semibold text-foreground mb-1">Save your recovery codes</Text>
+      <Text className="text-sm text-muted-foreground mb-4">
+        Each code can be used once to sign in if you lose your authenticator app. They are only
+        shown now.
+      </Text>
+      <View className="flex-row flex-wrap bg-muted rounded-lg p-3">
+        {recoveryCodes?.map((recoveryCode) => (
+          <Text
+            key={recoveryCode}
+            selectable
+            className="w-1/2 py-1 text-sm text-foreground text-center"
+            style={{ fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace' }}
+          >
+            {recoveryCode}
+          </Text>
+        ))}
+      </View>
+      <View className="flex-row gap-2 mt-4">
+        <TouchableOpacity
+          onPress={handleShareCodes}
+          className="flex-1 flex-row items-center justify-center py-3 rounded-xl border border-border"
+        >
+          <Ionicons name="share-outline" size={16} color={iconColor} />
+          <Text className="ml-2 text-sm font-medium text-foreground">Save</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={dismissRecoveryCodes}
+          className="flex-1 items-center justify-center py-3 rounded-xl bg-primary"
+        >
+          <Text className="text-sm font-semibold text-primary-foreground">Done</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderEnrollment = () => {
+    if (!enrollment) return null;
+
+    return (
+      <View className="bg-card rounded-lg p-4 mb-6">
+        <Text className="text-base font-semibold text-foreground mb-1">Scan the QR code</Text>
+        <Text className="text-sm text-muted-foreground mb-4">
+          Scan it with an authenticator app such as 1Password, Google Authenticator or Authy, then
+          enter the 6-digit code it shows.
+        </Text>
+
+        <View className="items-center">
+          <View className="bg-white p-3 rounded-lg">
+            <SvgXml
+              xml={getQrCodeSvg(enrollment.qrCode)}
+              width={QR_CODE_SIZE}
+              height={QR_CODE_SIZE}
+            />
+          </View>
+          <Text className="text-xs text-muted-foreground mt-4">Or enter this key by hand</Text>
+          <Text
+            selectable
+            className="text-sm text-foreground mt-1 text-center"
+            style={{ fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace' }}
+          >
+            {enrollment.secret}
+          </Text>
+          {Platform.OS !== 'web' && (
+            <TouchableOpacity onPress={() => Linking.openURL(enrollment.uri)} className="py-2">
+              <Text className="text-sm text-primary font-medium">Open in authenticator app</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <TextInput
+          value={code}
+          onChangeText={(text) => setCode(text.replace(/\D/g, '').slice(0, TOTP_LENGTH))}
+          placeholder="000000"
+          placeholderTextColor={isDark ? '#71717a' : '#a1a1aa'}
+          className="w-full px-4 bg-input rounded-xl text-xl text-foreground border border-border text-center mt-4"
+          style={{
+            minHeight: 56,
+            textAlignVertical: 'center',
+            paddingVertical: 16,
+            letterSpacing: 8,
+          }}
+          keyboardType="number-pad"
+          autoComplete="one-time-code"
+          textContentType="oneTimeCode"
+          onSubmitEditing={handleConfirm}
+        />
+
+        <View className="flex-row gap-2 mt-4">
+          <TouchableOpacity
+            onPress={handleCancel}
+            disabled={loading}
+            className="flex-1 items-center justify-center py-3 rounded-xl border border-border"
+          >
+            <Text className="text-sm font-medium text-foreground">Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleConfirm}
+            disabled={loading || code.length !== TOTP_LENGTH}
+            className="flex-1 items-center justify-center py-3 rounded-xl bg-primary"
+            style={{ opacity: loading || code.length !== TOTP_LENGTH ? 0.7 : 1 }}
+          >
+            {loading ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text className="text-sm font-semibold text-primary-foreground">Verify</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderStatus = () => (
+    <View className="bg-card rounded-lg p-4 mb-6">
+      <View className="flex-row items-center mb-2">
+        <Ionicons
+          name={isEnabled ? 'shield-checkmark' : 'shield-outline'}
+          size={20}
+          color={isEnabled ? '#22c55e' : iconColor}
+        />
+        <Text className="ml-2 text-base font-semibold text-foreground">
+          Two-factor authentication {isEnabled ? 'is on' : 'is off'}
+        </Text>
+      </View>
+      <Text className="text-sm text-muted-foreground">
+        {isEnabled
+          ? 'Signing in asks for a code from your authenticator app.'
+          : 'Protect your account and shared conversations with a code from an authenticator app.'}
+      </Text>
+
+      {factors.map((factor) => (
+        <View key={factor.id} className="flex-row items-center justify-between mt-4">
+          <View className="flex-row items-center flex-1">
+            <Ionicons name="phone-portrait-outline" size={18} color={iconColor} />
+            <Text className="ml-2 text-sm text-foreground">
+              Authenticator app · added {new Date(factor.created_at).toLocaleDateString()}
+            </Text>
+          </View>
+          <Pressable onPress={() => handleRemove(factor.id)} disabled={loading}>
+            <Text className="text-sm font-medium text-red-500">Remove</Text>
+          </Pressable>
+        </View>
+      ))}
+
+      {isEnabled ? (
+        <View className="flex-row items-center justify-between mt-4 pt-4 border-t border-border">
+          <Text className="text-sm text-muted-foreground">
+            {recoveryCodeCount ?? 0} recovery codes left
+          </Text>
+          <Pressable onPress={handleRegenerate} disabled={loading}>
+            <Text className="text-sm font-medium text-primary">Generate new codes</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <TouchableOpacity
+          onPress={startEnrollment}
+          disabled={loading}
+          className="w-full bg-primary py-3 rounded-xl items-center mt-4"
+          style={{ opacity: loading ? 0.7 : 1 }}
+        >
+          {loading ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text className="text-primary-foreground text-sm font-semibold">
+              Set up authenticator app
+            </Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView className="flex-1 bg-background" edges={['top', 'left', 'right']}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? '#0f0f11' : '#fafaf9'}
+      />
+
+      {/* Header */}
+      <View className="flex-row items-center px-4 py-3 border-b border-border">
+        <Pressable
+          onPress={() => router.back()}
+          className="w-10 h-10 items-center justify-center"
+          accessibilityLabel="Back"
+        >
+          <Ionicons name="chevron-back" size={24} color={isDark ? '#fff' : '#000'} />
+        </Pressable>
+        <Text className="text-lg font-semibold text-foreground ml-2">Security</Text>
+      </View>
+
+      <ScrollView className="flex-1 p-4" keyboardShouldPersistTaps="handled">
+        {error && (
+          <View className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+            <Text className="text-sm text-red-700">{error}</Text>
+          </View>
+        )}
+
+        {recoveryCodes ? renderRecoveryCodes() : enrollment ? renderEnrollment() : renderStatus()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -6,3 +6,8 @@ export { AuthProvider, AuthContext } from './AuthProvider';
 export { AuthScreen } from './AuthScreen';
 export { AuthForm } from './AuthForm';
 export { AuthMethodButton } from './AuthMethodButton';
+export { AuthCallback } from './AuthCallback';
+export { PasswordlessForm } from './PasswordlessForm';
+export { MfaChallenge } from './MfaChallenge';
+export { SecuritySettings } from './SecuritySettings';
+export { ProfileSettings } from './ProfileSettings';
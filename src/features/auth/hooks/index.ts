@@ -4,3 +4,6 @@
 
 export { useAuth } from './useAuth';
 export { useAuthForm } from './useAuthForm';
+export { usePasswordlessAuth } from './usePasswordlessAuth';
+export { useMfaEnrollment } from './useMfaEnrollment';
+export { useProfileForm } from './useProfileForm';
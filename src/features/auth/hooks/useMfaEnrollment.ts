@@ -0,0 +1,209 @@
+/**
+ * useMfaEnrollment Hook
+ * TOTP enrollment, removal and recovery codes for the security settings screen
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { auth, db, type Factor } from '@/lib/supabase';
+import { useAuth } from './useAuth';
+
+export interface TotpEnrollment {
+  factorId: string;
+  /** SVG markup of the QR code */
+  qrCode: string;
+  /** Base32 secret for entering the key by hand */
+  secret: string;
+  /** otpauth:// URI, opens the authenticator app on the same device */
+  uri: string;
+}
+
+interface UseMfaEnrollmentReturn {
+  /** Verified authenticator apps */
+  factors: Factor[];
+  loading: boolean;
+  error: string | null;
+  /** Enrollment waiting for its first code */
+  enrollment: TotpEnrollment | null;
+  /** Plain recovery codes - only available right after they are generated */
+  recoveryCodes: string[] | null;
+  recoveryCodeCount: number | null;
+  startEnrollment: () => Promise<void>;
+  /** Resolves true once the code is accepted and recovery codes are generated */
+  confirmEnrollment: (code: string) => Promise<boolean>;
+  cancelEnrollment: () => Promise<void>;
+  removeFactor: (factorId: string) => Promise<void>;
+  regenerateRecoveryCodes: () => Promise<void>;
+  dismissRecoveryCodes: () => void;
+}
+
+export const useMfaEnrollment = (): UseMfaEnrollmentReturn => {
+  const { user } = useAuth();
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [recoveryCodeCount, setRecoveryCodeCount] = useState<number | null>(null);
+
+  const loadFactors = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [{ data, error: factorsError }, { count, error: countError }] = await Promise.all([
+        auth.listMfaFactors(),
+        db.getMfaRecoveryCodeCount(user.id),
+      ]);
+      if (factorsError) throw new Error(factorsError.message);
+      if (countError) throw new Error(countError.message);
+
+      setFactors(data?.totp ?? []);
+      setRecoveryCodeCount(count);
+    } catch (err) {
+      console.error('Error loading MFA factors:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load two-factor settings');
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadFactors();
+  }, [loadFactors]);
+
+  const generateRecoveryCodes = useCallback(async () => {
+    const { data, error: codesError } = await db.generateMfaRecoveryCodes();
+    if (codesError) throw new Error(codesError.message);
+    setRecoveryCodes(data ?? []);
+  }, []);
+
+  const startEnrollment = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Abandoned enrollments stay behind as unverified factors
+      const { data: existing } = await auth.listMfaFactors();
+      const stale = existing?.all.filter(
+        (factor) => factor.factor_type === 'totp' && factor.status === 'unverified'
+      );
+      await Promise.all((stale ?? []).map((factor) => auth.unenrollMfa(factor.id)));
+
+      // Friendly names must be unique per user
+      const { data, error: enrollError } = await auth.enrollTotp(
+        `Authenticator ${new Date().toISOString()}`
+      );
+      if (enrollError) throw new Error(enrollError.message);
+      if (!data || data.type !== 'totp') throw new Error('Failed to start enrollment');
+
+      setEnrollment({
+        factorId: data.id,
+        qrCode: data.totp.qr_code,
+        secret: data.totp.secret,
+        uri: data.totp.uri,
+      });
+    } catch (err) {
+      console.error('Error starting MFA enrollment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start enrollment');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const confirmEnrollment = useCallback(
+    async (code: string): Promise<boolean> => {
+      if (!enrollment) return false;
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        // Raises this session to aal2, which recovery code generation requires
+        const { error: verifyError } = await auth.verifyMfa(enrollment.factorId, code);
+        if (verifyError) throw new Error(verifyError.message);
+
+        setEnrollment(null);
+        await generateRecoveryCodes();
+        await loadFactors();
+        return true;
+      } catch (err) {
+        console.error('Error confirming MFA enrollment:', err);
+        setError(err instanceof Error ? err.message : 'Failed to verify code');
+        return false;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [enrollment, generateRecoveryCodes, loadFactors]
+  );
+
+  const cancelEnrollment = useCallback(async () => {
+    if (!enrollment) return;
+
+    setEnrollment(null);
+    setError(null);
+    const { error: unenrollError } = await auth.unenrollMfa(enrollment.factorId);
+    if (unenrollError) {
+      console.error('Error cancelling MFA enrollment:', unenrollError);
+    }
+  }, [enrollment]);
+
+  const removeFactor = useCallback(
+    async (factorId: string) => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        // Codes are pointless without a verified factor. They are cleared first,
+        // while the session is still aal2.
+        const isLastFactor = !factors.some(
+          (factor) => factor.id !== factorId && factor.status === 'verified'
+        );
+        if (isLastFactor && user) {
+          const { error: codesError } = await db.deleteMfaRecoveryCodes(user.id);
+          if (codesError) throw new Error(codesError.message);
+        }
+
+        const { error: unenrollError } = await auth.unenrollMfa(factorId);
+        if (unenrollError) throw new Error(unenrollError.message);
+
+        // Drop the removed factor from the session so sign-in no longer asks for it
+        await auth.refreshSession();
+        setRecoveryCodes(null);
+        await loadFactors();
+      } catch (err) {
+        console.error('Error removing MFA factor:', err);
+        setError(err instanceof Error ? err.message : 'Failed to remove authenticator');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [user, factors, loadFactors]
+  );
+
+  const regenerateRecoveryCodes = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      await generateRecoveryCodes();
+      await loadFactors();
+    } catch (err) {
+      console.error('Error generating recovery codes:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate recovery codes');
+    } finally {
+      setLoading(false);
+    }
+  }, [generateRecoveryCodes, loadFactors]);
+
+  return {
+    factors: factors.filter((factor) => factor.status === 'verified'),
+    loading,
+    error,
+    enrollment,
+    recoveryCodes,
+    recoveryCodeCount,
+    startEnrollment,
+    confirmEnrollment,
+    cancelEnrollment,
+    removeFactor,
+    regenerateRecoveryCodes,
+    dismissRecoveryCodes: () => setRecoveryCodes(null),
+  };
+};
@@ -0,0 +1,153 @@
+/**
+ * usePasswordlessAuth Hook
+ * Two-step sign-in with an emailed link or an SMS code, with a resend cooldown
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import type { PasswordlessChannel } from '../types';
+
+// Supabase rejects a new code for the same address within 60 seconds by default
+export const RESEND_COOLDOWN_SECONDS = 60;
+
+export const OTP_LENGTH = 6;
+
+interface UsePasswordlessAuthReturn {
+  step: 'request' | 'verify';
+  /** Normalized email or phone number the code was sent to */
+  destination: string;
+  loading: boolean;
+  /** Validation message - failed requests surface through the auth error alert */
+  error: string | null;
+  /** Seconds until another code can be sent */
+  cooldown: number;
+  sendCode: (value: string) => Promise<void>;
+  resendCode: () => Promise<void>;
+  verifyCode: (code: string) => Promise<void>;
+  /** Go back to entering an email or phone number */
+  reset: () => void;
+}
+
+/**
+ * Normalize and validate what was typed, returning null with an error message when invalid
+ */
+const parseDestination = (
+  channel: PasswordlessChannel,
+  value: string
+): { destination: string | null; error?: string } => {
+  if (channel === 'email') {
+    const email = value.trim().toLowerCase();
+    return /\S+@\S+\.\S+/.test(email)
+      ? { destination: email }
+      : { destination: null, error: 'Email is invalid' };
+  }
+
+  // Spaces, dashes, dots and brackets are allowed while typing
+  const phone = value.replace(/[\s\-().]/g, '');
+  return /^\+[1-9]\d{6,14}$/.test(phone)
+    ? { destination: phone }
+    : { destination: null, error: 'Enter the number with its country code, e.g. +14155550123' };
+};
+
+export const usePasswordlessAuth = (channel: PasswordlessChannel): UsePasswordlessAuthReturn => {
+  const { sendMagicLink, sendPhoneCode, verifyCode: verify } = useAuth();
+  const [step, setStep] = useState<'request' | 'verify'>('request');
+  const [destination, setDestination] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cooldown, setCooldown] = useState(0);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const deliver = useCallback(
+    async (target: string) => {
+      if (channel === 'email') {
+        await sendMagicLink(target);
+      } else {
+        await sendPhoneCode(target);
+      }
+    },
+    [channel, sendMagicLink, sendPhoneCode]
+  );
+
+  const sendCode = useCallback(
+    async (value: string) => {
+      const parsed = parseDestination(channel, value);
+      if (!parsed.destination) {
+        setError(parsed.error ?? null);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        setError(null);
+        await deliver(parsed.destination);
+        setDestination(parsed.destination);
+        setStep('verify');
+        setCooldown(RESEND_COOLDOWN_SECONDS);
+      } catch (err) {
+        console.error('Error sending sign-in code:', err);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [channel, deliver]
+  );
+
+  const resendCode = useCallback(async () => {
+    if (cooldown > 0 || !destination) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      await deliver(destination);
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+    } catch (err) {
+      console.error('Error resending sign-in code:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [cooldown, destination, deliver]);
+
+  const verifyCode = useCallback(
+    async (code: string) => {
+      const token = code.replace(/\s/g, '');
+      if (!new RegExp(`^\\d{${OTP_LENGTH}}$`).test(token)) {
+        setError(`Enter the ${OTP_LENGTH}-digit code`);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        setError(null);
+        await verify(channel, destination, token);
+      } catch (err) {
+        console.error('Error verifying sign-in code:', err);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [channel, destination, verify]
+  );
+
+  const reset = useCallback(() => {
+    setStep('request');
+    setError(null);
+  }, []);
+
+  return {
+    step,
+    destination,
+    loading,
+    error,
+    cooldown,
+    sendCode,
+    resendCode,
+    verifyCode,
+    reset,
+  };
+};
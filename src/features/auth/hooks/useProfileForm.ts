@@ -0,0 +1,199 @@
+/**
+ * useProfileForm Hook
+ * Editable profile fields with validation and profile picture upload for the profile screen
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Alert } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { config } from '@/config';
+import { storage, type Profile } from '@/lib/supabase';
+import { ProfileUpdateSchema } from '@/types/api';
+import { readFileAsArrayBuffer } from '@/features/chat/utils/files';
+import { useAuth } from './useAuth';
+
+export type ProfileField = 'username' | 'full_name' | 'bio' | 'website' | 'phone';
+
+export type ProfileFormValues = Record<ProfileField, string>;
+
+interface UseProfileFormReturn {
+  values: ProfileFormValues;
+  /** Validation errors by field, shown under the inputs */
+  errors: Partial<Record<ProfileField, string>>;
+  /** Upload and storage errors */
+  error: string | null;
+  /** Values differ from the saved profile */
+  isDirty: boolean;
+  saving: boolean;
+  uploadingAvatar: boolean;
+  setValue: (field: ProfileField, value: string) => void;
+  /** Resolves true once the profile is saved */
+  save: () => Promise<boolean>;
+  pickAvatar: () => Promise<void>;
+  removeAvatar: () => Promise<void>;
+}
+
+const PROFILE_FIELDS: ProfileField[] = ['username', 'full_name', 'bio', 'website', 'phone'];
+
+const toFormValues = (profile: Profile | null): ProfileFormValues =>
+  Object.fromEntries(
+    PROFILE_FIELDS.map((field) => [field, profile?.[field] ?? ''])
+  ) as ProfileFormValues;
+
+// The first folder must be the user id - see 014_profile_management.sql
+const getAvatarPath = (userId: string, extension: string) =>
+  `${userId}/avatar-${Date.now()}.${extension}`;
+
+// Storage path of an avatar uploaded to our bucket, null for provider pictures
+const getAvatarStoragePath = (avatarUrl: string | null | undefined): string | null => {
+  const bucketUrl = storage.getPublicUrl(config.storage.avatarsBucket, '');
+  return avatarUrl && bucketUrl && avatarUrl.startsWith(bucketUrl)
+    ? avatarUrl.slice(bucketUrl.length)
+    : null;
+};
+
+const isUniqueViolation = (err: unknown): err is { code: string; message: string } =>
+  typeof err === 'object' && err !== null && (err as { code?: unknown }).code === '23505';
+
+export const useProfileForm = (): UseProfileFormReturn => {
+  const { user, profile, updateProfile, clearError } = useAuth();
+  const [values, setValues] = useState<ProfileFormValues>(() => toFormValues(profile));
+  const [errors, setErrors] = useState<Partial<Record<ProfileField, string>>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
+
+  // Only reset when another profile loads, so an avatar change keeps unsaved edits
+  const loadedProfileIdRef = useRef(profile?.id);
+  useEffect(() => {
+    if (profile?.id === loadedProfileIdRef.current) return;
+    loadedProfileIdRef.current = profile?.id;
+    setValues(toFormValues(profile));
+    setErrors({});
+  }, [profile]);
+
+  const isDirty = PROFILE_FIELDS.some((field) => values[field] !== (profile?.[field] ?? ''));
+
+  const setValue = useCallback((field: ProfileField, value: string) => {
+    setValues((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  }, []);
+
+  const save = useCallback(async (): Promise<boolean> => {
+    const result = ProfileUpdateSchema.safeParse(values);
+    if (!result.success) {
+      const fieldErrors = result.error.flatten().fieldErrors;
+      setErrors(
+        Object.fromEntries(PROFILE_FIELDS.map((field) => [field, fieldErrors[field]?.[0]]))
+      );
+      return false;
+    }
+
+    try {
+      setSaving(true);
+      setErrors({});
+      await updateProfile(result.data);
+      setValues(
+        Object.fromEntries(
+          PROFILE_FIELDS.map((field) => [field, result.data[field] ?? ''])
+        ) as ProfileFormValues
+      );
+      return true;
+    } catch (err) {
+      if (isUniqueViolation(err)) {
+        // Shown under the field instead of the global error alert
+        clearError();
+        setErrors(
+          err.message.includes('phone')
+            ? { phone: 'That phone number is already in use' }
+            : { username: 'That username is taken' }
+        );
+      } else {
+        console.error('Error saving profile:', err);
+      }
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [values, updateProfile, clearError]);
+
+  const replaceAvatar = useCallback(
+    async (avatarUrl: string | null) => {
+      const previousPath = getAvatarStoragePath(profile?.avatar_url);
+      await updateProfile({ avatar_url: avatarUrl });
+
+      // The old picture is only removed once the profile no longer points at it
+      if (previousPath) {
+        const { error: deleteError } = await storage.deleteFile(config.storage.avatarsBucket, [
+          previousPath,
+        ]);
+        if (deleteError) console.error('Error deleting previous avatar:', deleteError);
+      }
+    },
+    [profile?.avatar_url, updateProfile]
+  );
+
+  const pickAvatar = useCallback(async () => {
+    if (!user) return;
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.8,
+    });
+    if (result.canceled) return;
+
+    const [asset] = result.assets;
+    const { avatarsBucket, maxAvatarSizeMb } = config.storage;
+    if ((asset.fileSize ?? 0) > maxAvatarSizeMb * 1024 * 1024) {
+      Alert.alert('Image Too Large', `Choose an image smaller than ${maxAvatarSizeMb} MB.`);
+      return;
+    }
+
+    try {
+      setUploadingAvatar(true);
+      setError(null);
+
+      const contentType = asset.mimeType ?? 'image/jpeg';
+      const path = getAvatarPath(user.id, contentType.split('/')[1] ?? 'jpg');
+      const body = await readFileAsArrayBuffer(asset.uri);
+      const { error: uploadError } = await storage.uploadFile(avatarsBucket, path, body, {
+        contentType,
+      });
+      if (uploadError) throw new Error(uploadError.message);
+
+      await replaceAvatar(storage.getPublicUrl(avatarsBucket, path));
+    } catch (err) {
+      console.error('Error uploading avatar:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload profile picture');
+    } finally {
+      setUploadingAvatar(false);
+    }
+  }, [user, replaceAvatar]);
+
+  const removeAvatar = useCallback(async () => {
+    try {
+      setUploadingAvatar(true);
+      setError(null);
+      await replaceAvatar(null);
+    } catch (err) {
+      console.error('Error removing avatar:', err);
+    } finally {
+      setUploadingAvatar(false);
+    }
+  }, [replaceAvatar]);
+
+  return {
+    values,
+    errors,
+    error,
+    isDirty,
+    saving,
+    uploadingAvatar,
+    setValue,
+    save,
+    pickAvatar,
+    removeAvatar,
+  };
+};
@@ -8,10 +8,21 @@ export { AuthProvider } from './components/AuthProvider';
 export { AuthScreen } from './components/AuthScreen';
 export { AuthForm } from './components/AuthForm';
 export { AuthMethodButton } from './components/AuthMethodButton';
+export { AuthCallback } from './components/AuthCallback';
+export { PasswordlessForm } from './components/PasswordlessForm';
+export { MfaChallenge } from './components/MfaChallenge';
+export { SecuritySettings } from './components/SecuritySettings';
+export { ProfileSettings } from './components/ProfileSettings';
 
 // Hooks
 export { useAuth } from './hooks/useAuth';
 export { useAuthForm } from './hooks/useAuthForm';
+export { usePasswordlessAuth } from './hooks/usePasswordlessAuth';
+export { useMfaEnrollment } from './hooks/useMfaEnrollment';
+export { useProfileForm } from './hooks/useProfileForm';
+
+// Utils
+export { completeAuthRedirect, getAuthRedirectUrl } from './utils';
 
 // Types
-export type { AuthContextType, AuthState } from './types';
+export type { AuthContextType, AuthState, OAuthProvider, PasswordlessChannel } from './types';
@@ -3,7 +3,18 @@
  * Type definitions for authentication functionality
  */
 
-import type { SupabaseSession, SupabaseUser, Profile } from '@/lib/supabase';
+import type { SupabaseSession, SupabaseUser, Profile, UserIdentity } from '@/lib/supabase';
+import type { ProfileUpdate } from '@/types/api';
+
+/**
+ * OAuth providers offered on the sign-in screen
+ */
+export type OAuthProvider = 'google' | 'apple';
+
+/**
+ * Where a passwordless sign-in code is sent
+ */
+export type PasswordlessChannel = 'email' | 'phone';
 
 /**
  * Authentication state
@@ -15,6 +26,8 @@ export interface AuthState {
   session: SupabaseSession | null;
   error: string | null;
   profile: Profile | null;
+  /** Signed in with a password or link, but an enrolled TOTP factor has not been verified yet */
+  mfaRequired: boolean;
 }
 
 /**
@@ -23,13 +36,29 @@ export interface AuthState {
 export interface AuthContextType extends AuthState {
   // Authentication actions
   signIn: (email: string, password: string) => Promise<void>;
+  /** Resolves once signed in, or without a session if the user closes the browser */
+  signInWithProvider: (provider: OAuthProvider) => Promise<void>;
+  /** Email a sign-in link that also carries a one-time code */
+  sendMagicLink: (email: string) => Promise<void>;
+  /** Text a one-time code to an E.164 phone number */
+  sendPhoneCode: (phone: string) => Promise<void>;
+  verifyCode: (channel: PasswordlessChannel, destination: string, code: string) => Promise<void>;
+  /** Complete the MFA challenge with a code from the authenticator app */
+  verifyMfa: (code: string) => Promise<void>;
+  /** Use a recovery code, which removes the enrolled factors and signs the user out */
+  redeemRecoveryCode: (code: string) => Promise<void>;
   signUp: (email: string, password: string, profileData?: ProfileCreateData) => Promise<void>;
   signOut: () => Promise<void>;
   resetPassword: (email: string) => Promise<void>;
   clearError: () => void;
 
   // User profile actions
-  updateProfile: (updates: any) => Promise<void>;
+  updateProfile: (updates: ProfileUpdateData) => Promise<void>;
+
+  // Linked identities - every identity signs in to the same user and profile
+  getIdentities: () => Promise<UserIdentity[]>;
+  linkProvider: (provider: OAuthProvider) => Promise<void>;
+  unlinkIdentity: (identity: UserIdentity) => Promise<void>;
 
   // Utility functions
   refreshSession: () => Promise<void>;
@@ -73,11 +102,6 @@ export interface ResetPasswordData {
 }
 
 /**
- * Profile update data
+ * Profile update data - validated with ProfileUpdateSchema, null clears a field
  */
-export interface ProfileUpdateData {
-  username?: string;
-  full_name?: string;
-  avatar_url?: string;
-  website?: string;
-}
+export type ProfileUpdateData = ProfileUpdate;
@@ -0,0 +1,7 @@
+export {
+  AUTH_CALLBACK_PATH,
+  completeAuthRedirect,
+  getAuthRedirectUrl,
+  runOAuthFlow,
+} from './oauth';
+export { getQrCodeSvg, isMfaRequired, normalizeRecoveryCode, requestMfaRecovery } from './mfa';
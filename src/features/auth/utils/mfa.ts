@@ -0,0 +1,59 @@
+/**
+ * MFA Helpers
+ * Assurance level checks and formatting for TOTP enrollment and recovery codes
+ */
+import type { SupabaseSession } from '@/lib/supabase';
+import { getAuthHeaders } from '@/lib/api/session';
+
+// The access token's `aal` claim becomes aal2 once a factor is verified in the session
+const getSessionAal = (session: NonNullable<SupabaseSession>): string | null => {
+  try {
+    const payload = session.access_token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const padded = payload.padEnd(payload.length + ((4 - (payload.length % 4)) % 4), '=');
+    return JSON.parse(atob(padded)).aal ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether the session still has to pass a TOTP challenge
+ * Same rule as mfa.getAuthenticatorAssuranceLevel, which cannot be awaited inside
+ * onAuthStateChange without deadlocking the client.
+ */
+export const isMfaRequired = (session: SupabaseSession | null): boolean => {
+  if (!session) return false;
+  const hasVerifiedFactor = !!session.user.factors?.some((factor) => factor.status === 'verified');
+  return hasVerifiedFactor && getSessionAal(session) !== 'aal2';
+};
+
+/**
+ * Recovery codes are stored as `xxxxx-xxxxx` - accept them typed without the dash or in capitals
+ */
+export const normalizeRecoveryCode = (code: string): string => {
+  const hex = code.toLowerCase().replace(/[^0-9a-f]/g, '');
+  return hex.length === 10 ? `${hex.slice(0, 5)}-${hex.slice(5)}` : code.trim().toLowerCase();
+};
+
+/**
+ * Supabase returns the QR code as an SVG data URI, which Image cannot render
+ */
+export const getQrCodeSvg = (qrCode: string): string =>
+  qrCode.startsWith('data:') ? qrCode.slice(qrCode.indexOf(',') + 1) : qrCode;
+
+/**
+ * Redeem a recovery code through /api/mfa/recover, which removes the user's authenticators
+ * Removing a verified factor signs the user out everywhere, including this session.
+ */
+export const requestMfaRecovery = async (accessToken: string, code: string): Promise<void> => {
+  const response = await fetch('/api/mfa/recover', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...getAuthHeaders(accessToken) },
+    body: JSON.stringify({ code: normalizeRecoveryCode(code) }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error?.message ?? 'Recovery code failed');
+  }
+};
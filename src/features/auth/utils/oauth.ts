@@ -0,0 +1,81 @@
+/**
+ * OAuth Flow
+ * Runs Supabase OAuth sign-in and identity linking through an in-app browser session
+ *
+ * Supabase redirects back to `<scheme>://auth/callback?code=...` (or the same path
+ * on web) after OAuth consent and when a magic link is opened. The code is exchanged
+ * for a session with the PKCE verifier kept in auth storage, so a magic link only
+ * works on the device that requested it.
+ */
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+import { auth } from '@/lib/supabase';
+import type { EmailOtpType } from '@supabase/supabase-js';
+import type { OAuthProvider } from '../types';
+
+export const AUTH_CALLBACK_PATH = 'auth/callback';
+
+/**
+ * Redirect URL to allow in the Supabase dashboard, e.g. `acme://auth/callback`
+ */
+export const getAuthRedirectUrl = (): string => Linking.createURL(AUTH_CALLBACK_PATH);
+
+// Errors can arrive in the fragment instead of the query string
+const getCallbackParams = (url: string): URLSearchParams => {
+  const parsed = new URL(url);
+  const params = new URLSearchParams(parsed.hash.replace(/^#/, ''));
+  parsed.searchParams.forEach((value, key) => params.set(key, value));
+  return params;
+};
+
+/**
+ * Finish an OAuth or magic link redirect by exchanging its code for a session
+ * Email templates that link with `token_hash` are verified directly instead.
+ * Throws the provider's error description when the redirect carries one.
+ */
+export const completeAuthRedirect = async (url: string): Promise<void> => {
+  const params = getCallbackParams(url);
+  const errorDescription = params.get('error_description') ?? params.get('error');
+  if (errorDescription) {
+    throw new Error(errorDescription);
+  }
+
+  const tokenHash = params.get('token_hash');
+  const type = params.get('type');
+  if (tokenHash && type) {
+    const { error } = await auth.verifyOtp({ token_hash: tokenHash, type: type as EmailOtpType });
+    if (error) throw new Error(error.message);
+    return;
+  }
+
+  const code = params.get('code');
+  if (!code) {
+    throw new Error('Sign-in link is missing its authorization code');
+  }
+
+  const { error } = await auth.exchangeCodeForSession(code);
+  if (error) throw new Error(error.message);
+};
+
+/**
+ * Open the provider's consent page and wait for the redirect
+ * Resolves false when the user closes the browser without finishing.
+ */
+export const runOAuthFlow = async (
+  provider: OAuthProvider,
+  mode: 'signIn' | 'link'
+): Promise<boolean> => {
+  const redirectTo = getAuthRedirectUrl();
+  const { data, error } =
+    mode === 'link'
+      ? await auth.linkIdentity(provider, redirectTo)
+      : await auth.signInWithOAuth(provider, redirectTo);
+  if (error) throw new Error(error.message);
+  if (!data?.url) throw new Error(`Could not start ${provider} sign-in`);
+
+  const result = await WebBrowser.openAuthSessionAsync(data.url, redirectTo);
+  if (result.type !== 'success') return false;
+
+  await completeAuthRedirect(result.url);
+  return true;
+};
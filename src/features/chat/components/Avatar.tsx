@@ -1,12 +1,33 @@
-import { View } from 'react-native';
+import { View, Image, Text } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { cn } from '@/lib/utils';
+import type { MessageAuthor } from '../types';
 
 interface AvatarProps {
   role: 'user' | 'assistant' | string;
+  /** Author of a user message in a collaborative conversation */
+  author?: MessageAuthor | null;
 }
 
-export function Avatar({ role }: AvatarProps) {
+const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((word) => word[0]?.toUpperCase())
+    .join('');
+
+export function Avatar({ role, author }: AvatarProps) {
+  if (author?.avatarUrl) {
+    return (
+      <Image
+        testID="avatar-container"
+        source={{ uri: author.avatarUrl }}
+        className="w-8 h-8 rounded-full"
+      />
+    );
+  }
+
   return (
     <View
       testID="avatar-container"
@@ -15,7 +36,9 @@ export function Avatar({ role }: AvatarProps) {
         role === 'user' ? 'bg-blue-500' : 'bg-gray-700'
       )}
     >
-      {role === 'user' ? (
+      {author ? (
+        <Text className="text-xs font-semibold text-white">{getInitials(author.name)}</Text>
+      ) : role === 'user' ? (
         <Ionicons name="person" size={18} color="white" />
       ) : (
         <Ionicons name="sparkles" size={20} color="white" />
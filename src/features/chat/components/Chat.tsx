@@ -1,13 +1,27 @@
-import { Text, View, StatusBar } from 'react-native';
+import { useEffect } from 'react';
+import { Text, View, StatusBar, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { KeyboardPaddingView, useTheme, Sidebar, useSidebar } from '@/features/shared';
+import { MODEL_OPTIONS, PROVIDER_LABELS, getModelOption, parseModelId } from '@/config/models';
+import { FEATURES } from '@/config/features';
 import { useChatManager } from '../hooks/useChatManager';
+import { useVoiceInput } from '../hooks/useVoiceInput';
+import { useSpeechPlayer } from '../hooks/useSpeechPlayer';
+import { SpeechPlaybackContext } from '../hooks/useSpeechPlayback';
 import { ChatHeader } from './ChatHeader';
 import { MessageList } from './MessageList';
 import { EmptyState } from './EmptyState';
 import { InputBar } from './InputBar';
+import { ContextSummaryIndicator } from './ContextSummaryIndicator';
+import { OfflineBanner } from './OfflineBanner';
+import { ConversationViewers } from './ConversationViewers';
 
-export function Chat() {
+interface ChatProps {
+  /** Open this conversation on mount, e.g. after forking a shared conversation */
+  conversationId?: string;
+}
+
+export function Chat({ conversationId }: ChatProps = {}) {
   const {
     messages,
     error,
@@ -15,14 +29,70 @@ export function Chat() {
     isLoading,
     handleInputChange,
     onSend,
+    canSend,
     handleSuggestionPress,
     currentConversationId,
     handleConversationSelect,
-    handleNewConversation,
+    handleMessageSelect,
+    model,
+    setModel,
+    editingMessageId,
+    startEdit,
+    cancelEdit,
+    getBranchInfo,
+    switchBranch,
+    reload,
+    stop,
+    focusedMessageId,
+    hasMoreMessages,
+    loadingMore,
+    loadOlderMessages,
+    contextSummary,
+    offlineSync,
+    getMessageAuthor,
+    viewers,
+    attachments,
+    pickImage,
+    pickDocument,
+    removeAttachment,
   } = useChatManager();
   const { isDark } = useTheme();
   const sidebar = useSidebar();
 
+  // Dictated text is appended to whatever has been typed so far
+  const voiceInput = useVoiceInput({
+    onTranscript: (text) => handleInputChange(input.trim() ? `${input.trimEnd()} ${text}` : text),
+  });
+
+  const speech = useSpeechPlayer({ messages, isLoading });
+
+  useEffect(() => {
+    if (conversationId) {
+      handleConversationSelect(conversationId);
+    }
+  }, [conversationId, handleConversationSelect]);
+
+  const selectedModel = getModelOption(model);
+  const { provider, modelName } = parseModelId(model);
+
+  const handleModelPress = () => {
+    Alert.alert('Select Model', undefined, [
+      ...MODEL_OPTIONS.map((option) => ({
+        text: option.id === model ? `✓ ${option.label}` : option.label,
+        onPress: () => setModel(option.id),
+      })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const handlePlusPress = () => {
+    Alert.alert('Add Attachment', undefined, [
+      { text: 'Photo Library', onPress: pickImage },
+      { text: 'Document', onPress: pickDocument },
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
   if (error) {
     return (
       <SafeAreaView className="flex-1 bg-background" edges={['top', 'left', 'right']}>
@@ -43,20 +113,72 @@ export function Chat() {
         barStyle={isDark ? 'light-content' : 'dark-content'}
         backgroundColor={isDark ? '#0f0f11' : '#fafaf9'}
       />
-      <ChatHeader onMenuPress={sidebar.open} />
+      <ChatHeader
+        onMenuPress={sidebar.open}
+        onModelPress={handleModelPress}
+        title={selectedModel ? PROVIDER_LABELS[selectedModel.provider] : provider}
+        modelLabel={selectedModel?.label ?? modelName}
+        autoRead={speech.autoRead}
+        onAutoReadToggle={
+          FEATURES.enableTextToSpeech ? () => speech.setAutoRead(!speech.autoRead) : undefined
+        }
+      />
+
+      <ConversationViewers viewers={viewers} />
+
+      <OfflineBanner
+        isOnline={offlineSync.isOnline}
+        pendingCount={offlineSync.pendingCount}
+        syncing={offlineSync.syncing}
+      />
 
       <View className="flex-1">
-        <MessageList messages={messages} isLoading={isLoading} />
+        <SpeechPlaybackContext.Provider value={speech}>
+          <MessageList
+            messages={messages}
+            isLoading={isLoading}
+            getBranchInfo={getBranchInfo}
+            getMessageAuthor={getMessageAuthor}
+            onSwitchBranch={switchBranch}
+            onEditMessage={startEdit}
+            onRegenerate={reload}
+            focusedMessageId={focusedMessageId}
+            hasMore={hasMoreMessages}
+            loadingMore={loadingMore}
+            onLoadMore={loadOlderMessages}
+          />
+        </SpeechPlaybackContext.Provider>
 
         <View className="bg-background">
           {messages.length === 0 && <EmptyState onSuggestionPress={handleSuggestionPress} />}
         </View>
 
+        {contextSummary && (
+          <ContextSummaryIndicator
+            messageCount={contextSummary.messageCount}
+            summary={contextSummary.text}
+          />
+        )}
+
         <InputBar
           input={input}
           onInputChange={handleInputChange}
           onSend={onSend}
+          canSend={canSend}
           isLoading={isLoading}
+          onPlusPress={
+            FEATURES.enableFileUploads && FEATURES.enableStorage ? handlePlusPress : undefined
+          }
+          attachments={attachments}
+          onRemoveAttachment={removeAttachment}
+          onVoicePressIn={FEATURES.enableVoiceInput ? voiceInput.startRecording : undefined}
+          onVoicePressOut={FEATURES.enableVoiceInput ? voiceInput.stopRecording : undefined}
+          isRecording={voiceInput.isRecording}
+          isTranscribing={voiceInput.isTranscribing}
+          voiceError={voiceInput.error}
+          onStop={stop}
+          isEditing={!!editingMessageId}
+          onCancelEdit={cancelEdit}
         />
         <KeyboardPaddingView />
       </View>
@@ -67,6 +189,7 @@ export function Chat() {
         onClose={sidebar.close}
         appName="AI Assistant"
         onConversationSelect={handleConversationSelect}
+        onMessageSelect={handleMessageSelect}
         currentConversationId={currentConversationId ?? undefined}
       />
     </SafeAreaView>
@@ -5,9 +5,23 @@ import { useTheme } from '@/features/shared';
 interface ChatHeaderProps {
   onMenuPress?: () => void;
   onNewChatPress?: () => void;
+  onModelPress?: () => void;
+  title?: string;
+  modelLabel?: string;
+  /** Shows the read-aloud toggle when provided */
+  autoRead?: boolean;
+  onAutoReadToggle?: () => void;
 }
 
-export function ChatHeader({ onMenuPress, onNewChatPress }: ChatHeaderProps) {
+export function ChatHeader({
+  onMenuPress,
+  onNewChatPress,
+  onModelPress,
+  title = 'ChatGPT',
+  modelLabel = '4o',
+  autoRead = false,
+  onAutoReadToggle,
+}: ChatHeaderProps) {
   const { isDark } = useTheme();
 
   return (
@@ -16,18 +30,35 @@ export function ChatHeader({ onMenuPress, onNewChatPress }: ChatHeaderProps) {
         <Ionicons name="menu" size={24} color={isDark ? '#fff' : '#000'} />
       </Pressable>
 
-      <View className="flex-row items-center flex-1 justify-center">
-        <Text className="text-lg font-semibold text-foreground mr-1">ChatGPT</Text>
-        <Text className="text-base text-muted-foreground mr-1">4o</Text>
+      <Pressable
+        onPress={onModelPress}
+        disabled={!onModelPress}
+        className="flex-row items-center flex-1 justify-center"
+      >
+        <Text className="text-lg font-semibold text-foreground mr-1">{title}</Text>
+        <Text className="text-base text-muted-foreground mr-1">{modelLabel}</Text>
         <Ionicons
           name="chevron-forward"
           size={16}
           color={isDark ? '#9ca3af' : '#666'}
           className="ml-0.5"
         />
-      </View>
+      </Pressable>
 
       <View className="flex-row items-center gap-2">
+        {onAutoReadToggle && (
+          <Pressable
+            onPress={onAutoReadToggle}
+            className="w-10 h-10 items-center justify-center"
+            accessibilityLabel={autoRead ? 'Turn off auto-read' : 'Turn on auto-read'}
+          >
+            <Ionicons
+              name={autoRead ? 'volume-high' : 'volume-mute-outline'}
+              size={22}
+              color={isDark ? '#fff' : '#000'}
+            />
+          </Pressable>
+        )}
         <Pressable onPress={onNewChatPress} className="w-10 h-10 items-center justify-center">
           <Ionicons name="create-outline" size={24} color={isDark ? '#fff' : '#000'} />
         </Pressable>
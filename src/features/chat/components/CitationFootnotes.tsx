@@ -0,0 +1,55 @@
+import { View, Text, Pressable, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/features/shared';
+import type { DocumentCitation } from '@/types/api';
+import { openAttachment } from '../utils/attachmentUrls';
+
+interface CitationFootnotesProps {
+  citations: DocumentCitation[];
+}
+
+/**
+ * Show the excerpt behind a citation, with a shortcut to the full file
+ */
+export const showCitation = (citation: DocumentCitation) => {
+  Alert.alert(`[${citation.citation}] ${citation.sourceName}`, citation.content, [
+    {
+      text: 'Open File',
+      onPress: () =>
+        openAttachment(citation.sourceUrl).catch((err) =>
+          Alert.alert('Cannot Open File', err.message)
+        ),
+    },
+    { text: 'Close', style: 'cancel' },
+  ]);
+};
+
+export function CitationFootnotes({ citations }: CitationFootnotesProps) {
+  const { isDark } = useTheme();
+
+  if (citations.length === 0) return null;
+
+  return (
+    <View className="mt-2 pt-2 border-t border-border gap-1">
+      {citations.map((citation) => (
+        <Pressable
+          key={citation.citation}
+          onPress={() => showCitation(citation)}
+          className="flex-row items-center active:opacity-70"
+          accessibilityLabel={`Source ${citation.citation}: ${citation.sourceName}`}
+        >
+          <Text className="text-xs text-primary font-medium">[{citation.citation}]</Text>
+          <Ionicons
+            name="document-text-outline"
+            size={12}
+            color={isDark ? '#9ca3af' : '#666'}
+            style={{ marginLeft: 4 }}
+          />
+          <Text className="ml-1 text-xs text-muted-foreground flex-shrink" numberOfLines={1}>
+            {citation.sourceName}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
@@ -0,0 +1,36 @@
+import { Text, Pressable, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/features/shared';
+
+interface ContextSummaryIndicatorProps {
+  /** Earlier messages the model receives only as a summary */
+  messageCount: number;
+  /** Latest stored summary, when loaded with the conversation */
+  summary: string | null;
+}
+
+export function ContextSummaryIndicator({ messageCount, summary }: ContextSummaryIndicatorProps) {
+  const { isDark } = useTheme();
+
+  const handlePress = () => {
+    const explanation = `To fit the model's context window, ${messageCount} earlier message${
+      messageCount !== 1 ? 's are' : ' is'
+    } sent as a summary instead of in full.`;
+    Alert.alert(
+      'Earlier History Summarized',
+      summary ? `${explanation}\n\n${summary}` : explanation
+    );
+  };
+
+  return (
+    <Pressable
+      onPress={handlePress}
+      className="flex-row items-center justify-center px-4 py-1 active:opacity-70"
+    >
+      <Ionicons name="albums-outline" size={12} color={isDark ? '#9ca3af' : '#666'} />
+      <Text className="ml-1 text-xs text-muted-foreground">
+        Earlier messages summarized ({messageCount})
+      </Text>
+    </Pressable>
+  );
+}
@@ -3,7 +3,7 @@
  * Modal for sharing conversations with other users or publicly
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -18,8 +18,17 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/features/shared/hooks/useTheme';
+import { useAuth } from '@/features/auth/hooks/useAuth';
 import { useConversationSharing } from '../hooks/useConversationSharing';
-import type { ConversationShare } from '@/lib/supabase';
+import { ShareAccessPickerModal } from './ShareAccessPickerModal';
+import {
+  SHARE_ACCESS_LEVELS,
+  getAvailableShareLevels,
+  getShareAccessLevel,
+  type ShareAccessLevel,
+  type SharePermission,
+} from '@/config/sharing';
+import type { ConversationShare, ConversationShareEvent, ShareParticipant } from '@/lib/supabase';
 
 interface ConversationShareModalProps {
   visible: boolean;
@@ -35,36 +44,68 @@ export function ConversationShareModal({
   conversationTitle,
 }: ConversationShareModalProps) {
   const { isDark } = useTheme();
+  const { user } = useAuth();
   const {
     loading,
     error,
     shareConversation,
     getConversationShares,
     removeShare,
+    updateSharePermissions,
+    getShareHistory,
+    getShareParticipants,
+    findUserByEmail,
     generateShareLink,
   } = useConversationSharing();
 
   const [shares, setShares] = useState<ConversationShare[]>([]);
+  const [history, setHistory] = useState<ConversationShareEvent[]>([]);
+  const [participants, setParticipants] = useState<Record<string, ShareParticipant>>({});
   const [isPublicShare, setIsPublicShare] = useState(false);
   const [shareEmail, setShareEmail] = useState('');
   const [expiryDays, setExpiryDays] = useState('7');
-  const [permissions, setPermissions] = useState<string[]>(['read']);
+  const [accessLevel, setAccessLevel] = useState<SharePermission>('read');
   const [shareLink, setShareLink] = useState<string | null>(null);
+  // Share whose access level is being changed
+  const [accessShare, setAccessShare] = useState<ConversationShare | null>(null);
 
-  useEffect(() => {
-    if (visible) {
-      loadShares();
+  const permissions = SHARE_ACCESS_LEVELS.find((level) => level.id === accessLevel)
+    ?.permissions ?? ['read'];
+  const availableLevels = getAvailableShareLevels(isPublicShare);
+
+  const handlePublicShareChange = (value: boolean) => {
+    setIsPublicShare(value);
+    // Public links cannot grant invite-only access
+    if (value && SHARE_ACCESS_LEVELS.find((level) => level.id === accessLevel)?.inviteOnly) {
+      setAccessLevel('read');
     }
-  }, [visible]);
+  };
 
-  const loadShares = async () => {
+  const loadShares = useCallback(async () => {
     try {
-      const sharesData = await getConversationShares(conversationId);
+      const [sharesData, historyData] = await Promise.all([
+        getConversationShares(conversationId),
+        getShareHistory(conversationId),
+      ]);
       setShares(sharesData);
+      setHistory(historyData);
+
+      // Resolve names for everyone who appears in the access list or history
+      const userIds = [
+        ...sharesData.map((share) => share.shared_with),
+        ...historyData.flatMap((event) => [event.shared_with, event.actor_id]),
+      ].filter((id): id is string => !!id);
+      setParticipants(await getShareParticipants(userIds));
     } catch (err) {
       console.error('Failed to load shares:', err);
     }
-  };
+  }, [conversationId, getConversationShares, getShareHistory, getShareParticipants]);
+
+  useEffect(() => {
+    if (visible) {
+      loadShares();
+    }
+  }, [visible, loadShares]);
 
   const handleShare = async () => {
     if (!isPublicShare && !shareEmail.trim()) {
@@ -73,12 +114,29 @@ export function ConversationShareModal({
     }
 
     try {
+      // Public links create their own share
+      if (isPublicShare) {
+        const link = await generateShareLink(conversationId, parseInt(expiryDays), permissions);
+        if (link) {
+          setShareLink(link);
+          await loadShares();
+          Alert.alert('Success', 'Conversation shared successfully!');
+        }
+        return;
+      }
+
+      const recipient = await findUserByEmail(shareEmail);
+      if (!recipient) {
+        Alert.alert('Error', 'No user found with that email address');
+        return;
+      }
+
       const expiresAt = new Date();
       expiresAt.setDate(expiresAt.getDate() + parseInt(expiryDays));
 
       const shareData = await shareConversation({
         conversationId,
-        sharedWith: isPublicShare ? undefined : shareEmail.trim(),
+        sharedWith: recipient.id,
         permissions,
         expiresAt: expiresAt.toISOString(),
       });
@@ -86,15 +144,9 @@ export function ConversationShareModal({
       if (shareData) {
         await loadShares();
         setShareEmail('');
-
-        if (isPublicShare) {
-          const link = await generateShareLink(conversationId, parseInt(expiryDays));
-          setShareLink(link);
-        }
-
         Alert.alert('Success', 'Conversation shared successfully!');
       }
-    } catch (err) {
+    } catch {
       Alert.alert('Error', 'Failed to share conversation');
     }
   };
@@ -118,6 +170,19 @@ export function ConversationShareModal({
     ]);
   };
 
+  const handleChangeAccess = async (level: ShareAccessLevel) => {
+    const share = accessShare;
+    setAccessShare(null);
+    if (!share || level.id === getShareAccessLevel(share.permissions)?.id) return;
+
+    const success = await updateSharePermissions(share.id, level.permissions);
+    if (success) {
+      await loadShares();
+    } else {
+      Alert.alert('Error', 'Failed to update access');
+    }
+  };
+
   const handleShareLink = async () => {
     if (shareLink) {
       try {
@@ -135,8 +200,38 @@ export function ConversationShareModal({
     return new Date(dateString).toLocaleDateString();
   };
 
-  const formatPermissions = (perms: string[]) => {
-    return perms.map((p) => p.charAt(0).toUpperCase() + p.slice(1)).join(', ');
+  const formatPermissions = (perms: string[] | null) => {
+    return getShareAccessLevel(perms)?.label ?? 'No access';
+  };
+
+  const getShareName = (userId: string | null) => {
+    if (!userId) return 'Anyone with the link';
+    if (userId === user?.id) return 'You';
+    const participant = participants[userId];
+    return participant?.full_name || participant?.email || 'Unknown user';
+  };
+
+  const isExpired = (expiresAt: string | null) => {
+    return !!expiresAt && new Date(expiresAt) <= new Date();
+  };
+
+  const describeEvent = (event: ConversationShareEvent) => {
+    const actor = event.actor_id ? getShareName(event.actor_id) : 'Someone';
+    const target = getShareName(event.shared_with);
+
+    switch (event.action) {
+      case 'granted':
+        return `${actor} gave ${target} ${formatPermissions(event.permissions)} access`;
+      case 'changed': {
+        const previous = formatPermissions(event.previous_permissions);
+        const next = formatPermissions(event.permissions);
+        return previous === next
+          ? `${actor} changed the expiry for ${target}`
+          : `${actor} changed ${target} from ${previous} to ${next}`;
+      }
+      case 'revoked':
+        return `${actor} removed access for ${target}`;
+    }
   };
 
   return (
@@ -178,7 +273,7 @@ export function ConversationShareModal({
               </View>
               <Switch
                 value={isPublicShare}
-                onValueChange={setIsPublicShare}
+                onValueChange={handlePublicShareChange}
                 trackColor={{ false: '#767577', true: '#3b82f6' }}
                 thumbColor={isPublicShare ? '#f4f3f4' : '#f4f3f4'}
               />
@@ -204,39 +299,27 @@ export function ConversationShareModal({
             <View className="mb-4">
               <Text className="text-sm font-medium text-foreground mb-2">Permissions</Text>
               <View className="flex-row space-x-2">
-                <Pressable
-                  onPress={() => setPermissions(['read'])}
-                  className={`px-3 py-2 rounded-lg ${
-                    permissions.includes('read') && permissions.length === 1
-                      ? 'bg-primary'
-                      : 'bg-card border border-border'
-                  }`}
-                >
-                  <Text
-                    className={`text-sm ${
-                      permissions.includes('read') && permissions.length === 1
-                        ? 'text-primary-foreground'
-                        : 'text-foreground'
+                {availableLevels.map((level) => (
+                  <Pressable
+                    key={level.id}
+                    onPress={() => setAccessLevel(level.id)}
+                    className={`px-3 py-2 rounded-lg ${
+                      accessLevel === level.id ? 'bg-primary' : 'bg-card border border-border'
                     }`}
                   >
-                    Read Only
-                  </Text>
-                </Pressable>
-                <Pressable
-                  onPress={() => setPermissions(['read', 'write'])}
-                  className={`px-3 py-2 rounded-lg ${
-                    permissions.includes('write') ? 'bg-primary' : 'bg-card border border-border'
-                  }`}
-                >
-                  <Text
-                    className={`text-sm ${
-                      permissions.includes('write') ? 'text-primary-foreground' : 'text-foreground'
-                    }`}
-                  >
-                    Read & Write
-                  </Text>
-                </Pressable>
+                    <Text
+                      className={`text-sm ${
+                        accessLevel === level.id ? 'text-primary-foreground' : 'text-foreground'
+                      }`}
+                    >
+                      {level.label}
+                    </Text>
+                  </Pressable>
+                ))}
               </View>
+              <Text className="text-xs text-muted-foreground mt-2">
+                {SHARE_ACCESS_LEVELS.find((level) => level.id === accessLevel)?.description}
+              </Text>
             </View>
 
             {/* Expiry Days */}
@@ -281,26 +364,39 @@ export function ConversationShareModal({
             )}
           </View>
 
-          {/* Current Shares */}
+          {/* Who Has Access */}
           {shares.length > 0 && (
-            <View>
-              <Text className="text-base font-semibold text-foreground mb-4">Current Shares</Text>
+            <View className="mb-6">
+              <Text className="text-base font-semibold text-foreground mb-4">Who Has Access</Text>
               {shares.map((share) => (
                 <View key={share.id} className="bg-card rounded-lg p-3 mb-2">
                   <View className="flex-row items-center justify-between">
                     <View className="flex-1">
                       <Text className="text-sm font-medium text-foreground">
-                        {share.shared_with ? share.shared_with : 'Public Share'}
+                        {getShareName(share.shared_with)}
                       </Text>
-                      <Text className="text-xs text-muted-foreground">
-                        Permissions: {formatPermissions(share.permissions)}
-                      </Text>
-                      {share.expires_at && (
-                        <Text className="text-xs text-muted-foreground">
-                          Expires: {formatDate(share.expires_at)}
+                      {share.expires_at ? (
+                        <Text
+                          className={`text-xs ${
+                            isExpired(share.expires_at) ? 'text-red-500' : 'text-muted-foreground'
+                          }`}
+                        >
+                          {isExpired(share.expires_at) ? 'Expired' : 'Expires'}:{' '}
+                          {formatDate(share.expires_at)}
                         </Text>
+                      ) : (
+                        <Text className="text-xs text-muted-foreground">Never expires</Text>
                       )}
                     </View>
+                    <Pressable
+                      onPress={() => setAccessShare(share)}
+                      className="flex-row items-center px-2 py-1 mr-1 rounded-lg border border-border"
+                    >
+                      <Text className="text-xs text-foreground mr-1">
+                        {formatPermissions(share.permissions)}
+                      </Text>
+                      <Ionicons name="chevron-down" size={12} color={isDark ? '#9ca3af' : '#666'} />
+                    </Pressable>
                     <Pressable
                       onPress={() => handleRemoveShare(share.id)}
                       className="w-8 h-8 items-center justify-center"
@@ -313,6 +409,34 @@ export function ConversationShareModal({
             </View>
           )}
 
+          {/* Change History */}
+          {history.length > 0 && (
+            <View>
+              <Text className="text-base font-semibold text-foreground mb-4">History</Text>
+              {history.map((event) => (
+                <View key={event.id} className="flex-row items-start mb-3">
+                  <Ionicons
+                    name={
+                      event.action === 'granted'
+                        ? 'person-add-outline'
+                        : event.action === 'changed'
+                          ? 'swap-horizontal-outline'
+                          : 'person-remove-outline'
+                    }
+                    size={16}
+                    color={isDark ? '#9ca3af' : '#666'}
+                  />
+                  <View className="flex-1 ml-2">
+                    <Text className="text-sm text-foreground">{describeEvent(event)}</Text>
+                    <Text className="text-xs text-muted-foreground">
+                      {new Date(event.created_at).toLocaleString()}
+                    </Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
+
           {/* Error Display */}
           {error && (
             <View className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
@@ -321,6 +445,15 @@ export function ConversationShareModal({
           )}
         </ScrollView>
       </View>
+
+      <ShareAccessPickerModal
+        visible={!!accessShare}
+        shareName={accessShare ? getShareName(accessShare.shared_with) : ''}
+        levels={getAvailableShareLevels(!accessShare?.shared_with)}
+        currentLevelId={getShareAccessLevel(accessShare?.permissions)?.id}
+        onSelect={handleChangeAccess}
+        onClose={() => setAccessShare(null)}
+      />
     </Modal>
   );
 }
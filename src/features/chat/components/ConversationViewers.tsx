@@ -0,0 +1,35 @@
+import { View, Text } from 'react-native';
+import type { ConversationViewer } from '@/lib/supabase';
+import { Avatar } from './Avatar';
+
+interface ConversationViewersProps {
+  /** Other users with the conversation open */
+  viewers: ConversationViewer[];
+}
+
+const MAX_AVATARS = 3;
+
+export function ConversationViewers({ viewers }: ConversationViewersProps) {
+  if (viewers.length === 0) return null;
+
+  const [first, ...others] = viewers;
+  const label =
+    others.length === 0
+      ? `${first.name} is viewing`
+      : `${first.name} and ${others.length} other${others.length !== 1 ? 's' : ''} are viewing`;
+
+  return (
+    <View className="flex-row items-center justify-center px-4 pb-2">
+      <View className="flex-row">
+        {viewers.slice(0, MAX_AVATARS).map((viewer, index) => (
+          <View key={viewer.user_id} className={index > 0 ? '-ml-2' : undefined}>
+            <Avatar role="user" author={{ name: viewer.name, avatarUrl: viewer.avatar_url }} />
+          </View>
+        ))}
+      </View>
+      <Text className="ml-2 text-xs text-muted-foreground" numberOfLines={1}>
+        {label}
+      </Text>
+    </View>
+  );
+}
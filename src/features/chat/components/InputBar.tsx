@@ -1,7 +1,16 @@
-import { TextInput, View, Pressable, ActivityIndicator } from 'react-native';
+import {
+  TextInput,
+  View,
+  Text,
+  Pressable,
+  ActivityIndicator,
+  Image,
+  ScrollView,
+} from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '@/features/shared';
+import type { PendingAttachment } from '../types';
 
 interface InputBarProps {
   input: string;
@@ -9,7 +18,23 @@ interface InputBarProps {
   onSend: () => void;
   isLoading: boolean;
   onVoicePress?: () => void;
+  /** Press-and-hold dictation - recording runs between press in and press out */
+  onVoicePressIn?: () => void;
+  onVoicePressOut?: () => void;
+  isRecording?: boolean;
+  isTranscribing?: boolean;
+  voiceError?: string | null;
   onPlusPress?: () => void;
+  /** Shown in place of the send button while a response is streaming */
+  onStop?: () => void;
+  /** Shows the editing banner - sending submits the input as a new version */
+  isEditing?: boolean;
+  onCancelEdit?: () => void;
+  /** Files picked for the next message, shown above the input */
+  attachments?: PendingAttachment[];
+  onRemoveAttachment?: (id: string) => void;
+  /** Overrides the default check, e.g. to allow sending attachments without text */
+  canSend?: boolean;
 }
 
 export function InputBar({
@@ -18,9 +43,20 @@ export function InputBar({
   onSend,
   isLoading,
   onVoicePress,
+  onVoicePressIn,
+  onVoicePressOut,
+  isRecording = false,
+  isTranscribing = false,
+  voiceError,
   onPlusPress,
+  onStop,
+  isEditing = false,
+  onCancelEdit,
+  attachments = [],
+  onRemoveAttachment,
+  canSend: canSendOverride,
 }: InputBarProps) {
-  const canSend = input.trim() && !isLoading;
+  const canSend = (canSendOverride ?? !!input.trim()) && !isLoading;
   const { isDark } = useTheme();
   const { bottom } = useSafeAreaInsets();
 
@@ -30,6 +66,85 @@ export function InputBar({
       style={{ paddingBottom: bottom }}
     >
       <View className="px-4 pt-4 pb-2">
+        {isEditing && (
+          <View className="flex-row items-center justify-between px-4 pb-2">
+            <View className="flex-row items-center gap-2">
+              <Ionicons name="pencil-outline" size={14} color={isDark ? '#9ca3af' : '#666'} />
+              <Text className="text-sm text-muted-foreground">Editing message</Text>
+            </View>
+            <Pressable onPress={onCancelEdit} hitSlop={8}>
+              <Text className="text-sm text-primary">Cancel</Text>
+            </Pressable>
+          </View>
+        )}
+
+        {(isRecording || isTranscribing || !!voiceError) && (
+          <View className="flex-row items-center gap-2 px-4 pb-2">
+            {isRecording ? (
+              <>
+                <View className="w-2 h-2 rounded-full bg-red-500" />
+                <Text className="text-sm text-muted-foreground">Recording… release to stop</Text>
+              </>
+            ) : isTranscribing ? (
+              <>
+                <ActivityIndicator size="small" color={isDark ? '#9ca3af' : '#666'} />
+                <Text className="text-sm text-muted-foreground">Transcribing…</Text>
+              </>
+            ) : (
+              <Text className="text-sm text-red-500">{voiceError}</Text>
+            )}
+          </View>
+        )}
+
+        {attachments.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={{ gap: 8, paddingHorizontal: 16, paddingBottom: 8 }}
+          >
+            {attachments.map((attachment) => (
+              <View
+                key={attachment.id}
+                className="flex-row items-center bg-muted rounded-xl overflow-hidden"
+              >
+                {attachment.contentType.startsWith('image/') ? (
+                  <Image source={{ uri: attachment.uri }} className="w-12 h-12" />
+                ) : (
+                  <View className="flex-row items-center pl-3 max-w-[160px]">
+                    <Ionicons
+                      name="document-text-outline"
+                      size={18}
+                      color={isDark ? '#9ca3af' : '#666'}
+                    />
+                    <Text className="text-sm text-foreground ml-1" numberOfLines={1}>
+                      {attachment.name}
+                    </Text>
+                  </View>
+                )}
+                <View className="w-8 items-center">
+                  {attachment.status === 'uploading' ? (
+                    <ActivityIndicator size="small" color={isDark ? '#9ca3af' : '#666'} />
+                  ) : (
+                    <Pressable
+                      onPress={() => onRemoveAttachment?.(attachment.id)}
+                      hitSlop={8}
+                      accessibilityLabel={`Remove ${attachment.name}`}
+                    >
+                      <Ionicons
+                        name={attachment.status === 'error' ? 'alert-circle' : 'close-circle'}
+                        size={18}
+                        color={
+                          attachment.status === 'error' ? '#ef4444' : isDark ? '#9ca3af' : '#666'
+                        }
+                      />
+                    </Pressable>
+                  )}
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+        )}
+
         {/* Full width input field */}
         <TextInput
           className="text-lg leading-6 px-4 py-3 text-foreground max-h-[120px] min-h-[48px]"
@@ -45,28 +160,59 @@ export function InputBar({
 
         {/* Button row below input */}
         <View className="flex-row items-center justify-between pt-2">
-          <Pressable onPress={onPlusPress} className="w-12 h-12 items-center justify-center">
+          <Pressable
+            onPress={onPlusPress}
+            className="w-12 h-12 items-center justify-center"
+            accessibilityLabel="Add attachment"
+          >
             <Ionicons name="add" size={28} color={isDark ? '#9ca3af' : '#666'} />
           </Pressable>
 
           <View className="flex-row items-center gap-3">
-            <Pressable onPress={onVoicePress} className="w-12 h-12 items-center justify-center">
-              <Ionicons name="mic" size={24} color={isDark ? '#9ca3af' : '#666'} />
-            </Pressable>
-
             <Pressable
-              onPress={onSend}
-              disabled={!canSend}
-              className={`w-12 h-12 rounded-full justify-center items-center ${
-                canSend ? 'bg-blue-500' : 'bg-gray-300'
+              onPress={onVoicePress}
+              onPressIn={onVoicePressIn}
+              onPressOut={onVoicePressOut}
+              disabled={isTranscribing}
+              className={`w-12 h-12 rounded-full items-center justify-center ${
+                isRecording ? 'bg-red-500' : ''
               }`}
+              accessibilityLabel="Hold to dictate"
             >
-              {isLoading ? (
-                <ActivityIndicator color="white" size="small" />
+              {isTranscribing ? (
+                <ActivityIndicator size="small" color={isDark ? '#9ca3af' : '#666'} />
               ) : (
-                <Ionicons name="arrow-up" size={24} color="white" />
+                <Ionicons
+                  name="mic"
+                  size={24}
+                  color={isRecording ? 'white' : isDark ? '#9ca3af' : '#666'}
+                />
               )}
             </Pressable>
+
+            {isLoading && onStop ? (
+              <Pressable
+                onPress={onStop}
+                className="w-12 h-12 rounded-full justify-center items-center bg-blue-500"
+                accessibilityLabel="Stop generating"
+              >
+                <Ionicons name="stop" size={20} color="white" />
+              </Pressable>
+            ) : (
+              <Pressable
+                onPress={onSend}
+                disabled={!canSend}
+                className={`w-12 h-12 rounded-full justify-center items-center ${
+                  canSend ? 'bg-blue-500' : 'bg-gray-300'
+                }`}
+              >
+                {isLoading ? (
+                  <ActivityIndicator color="white" size="small" />
+                ) : (
+                  <Ionicons name="arrow-up" size={24} color="white" />
+                )}
+              </Pressable>
+            )}
           </View>
         </View>
       </View>
@@ -0,0 +1,95 @@
+import type { ReactNode } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { cn } from '@/lib/utils';
+import { useTheme } from '@/features/shared';
+import type { BranchInfo } from '../types';
+
+interface MessageActionsProps {
+  isUser: boolean;
+  branchInfo?: BranchInfo | null;
+  disabled?: boolean;
+  onPreviousVersion?: () => void;
+  onNextVersion?: () => void;
+  onEdit?: () => void;
+  onRegenerate?: () => void;
+  /** Extra controls shown after the built-in actions */
+  children?: ReactNode;
+}
+
+export function MessageActions({
+  isUser,
+  branchInfo,
+  disabled = false,
+  onPreviousVersion,
+  onNextVersion,
+  onEdit,
+  onRegenerate,
+  children,
+}: MessageActionsProps) {
+  const { isDark } = useTheme();
+  const iconColor = isDark ? '#9ca3af' : '#666';
+
+  if (!branchInfo && !onEdit && !onRegenerate && !children) return null;
+
+  const hasPrevious = !!branchInfo && branchInfo.index > 0;
+  const hasNext = !!branchInfo && branchInfo.index < branchInfo.count - 1;
+
+  return (
+    <View
+      className={cn(
+        'flex-row items-center gap-1 mt-1',
+        // Line up with the bubble rather than the assistant avatar
+        isUser ? 'self-end' : 'ml-10'
+      )}
+    >
+      {branchInfo && (
+        <View className="flex-row items-center">
+          <Pressable
+            onPress={onPreviousVersion}
+            disabled={disabled || !hasPrevious}
+            className={cn('w-7 h-7 items-center justify-center', !hasPrevious && 'opacity-30')}
+            accessibilityLabel="Previous version"
+          >
+            <Ionicons name="chevron-back" size={14} color={iconColor} />
+          </Pressable>
+          <Text className="text-xs text-muted-foreground">
+            {branchInfo.index + 1}/{branchInfo.count}
+          </Text>
+          <Pressable
+            onPress={onNextVersion}
+            disabled={disabled || !hasNext}
+            className={cn('w-7 h-7 items-center justify-center', !hasNext && 'opacity-30')}
+            accessibilityLabel="Next version"
+          >
+            <Ionicons name="chevron-forward" size={14} color={iconColor} />
+          </Pressable>
+        </View>
+      )}
+
+      {onEdit && (
+        <Pressable
+          onPress={onEdit}
+          disabled={disabled}
+          className={cn('w-7 h-7 items-center justify-center', disabled && 'opacity-30')}
+          accessibilityLabel="Edit message"
+        >
+          <Ionicons name="pencil-outline" size={14} color={iconColor} />
+        </Pressable>
+      )}
+
+      {onRegenerate && (
+        <Pressable
+          onPress={onRegenerate}
+          disabled={disabled}
+          className={cn('w-7 h-7 items-center justify-center', disabled && 'opacity-30')}
+          accessibilityLabel="Regenerate response"
+        >
+          <Ionicons name="refresh" size={14} color={iconColor} />
+        </Pressable>
+      )}
+
+      {children}
+    </View>
+  );
+}
@@ -1,21 +1,59 @@
-import { Fragment } from 'react';
-import { Text, View, ActivityIndicator } from 'react-native';
+import { Fragment, useMemo } from 'react';
+import { View, Text, ActivityIndicator, Image, Pressable, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
 import Animated, { Layout, Easing, FadeIn } from 'react-native-reanimated';
 import Markdown from 'react-native-markdown-display';
 import { UIMessage } from 'ai';
 import { cn } from '@/lib/utils';
 import { messageTextStyle } from '@/lib/styles';
 import { Avatar } from './Avatar';
-import { WeatherCard, CelsiusConvertCard, useTheme } from '@/features/shared';
+import { useTheme } from '@/features/shared';
+import { ToolInvocationCard } from './ToolInvocationCard';
+import { CitationFootnotes, showCitation } from './CitationFootnotes';
+import type { MessageAuthor } from '../types';
+import { useAttachmentUrls } from '../hooks/useAttachmentUrls';
+import {
+  CITATION_LINK_PREFIX,
+  getCitedCitations,
+  getMessageCitations,
+  linkCitations,
+  openAttachment,
+} from '../utils';
 
 interface MessageBubbleProps {
   message: UIMessage;
+  /** Shown with user messages in collaborative conversations */
+  author?: MessageAuthor | null;
 }
 
-export function MessageBubble({ message }: MessageBubbleProps) {
+export function MessageBubble({ message, author }: MessageBubbleProps) {
   const isUser = message.role === 'user';
   const { isDark } = useTheme();
 
+  // Document excerpts the reply cites with [n] markers
+  const citations = useMemo(
+    () => (isUser ? [] : getCitedCitations(message.content, getMessageCitations(message))),
+    [isUser, message]
+  );
+
+  // The attachments bucket is private, so files are shown through signed URLs
+  const attachmentUrls = useAttachmentUrls(message.experimental_attachments ?? []);
+
+  const handleOpenAttachment = (url: string) => {
+    openAttachment(url).catch((err) => Alert.alert('Cannot Open File', err.message));
+  };
+
+  const handleLinkPress = (url: string) => {
+    if (!url.startsWith(CITATION_LINK_PREFIX)) return true;
+
+    const number = Number(url.slice(CITATION_LINK_PREFIX.length));
+    const citation = citations.find((item) => item.citation === number);
+    if (citation) {
+      showCitation(citation);
+    }
+    return false;
+  };
+
   const content = message.parts
     .map((part) => {
       switch (part.type) {
@@ -24,6 +62,7 @@ export function MessageBubble({ message }: MessageBubbleProps) {
           return (
             <Markdown
               key={part.type}
+              onLinkPress={handleLinkPress}
               style={{
                 body: {
                   color: isUser ? '#ffffff' : isDark ? '#fafaf9' : '#27272a',
@@ -36,36 +75,17 @@ export function MessageBubble({ message }: MessageBubbleProps) {
                 },
               }}
             >
-              {part.text}
+              {linkCitations(part.text, citations)}
             </Markdown>
           );
         }
-        case 'tool-invocation': {
-          const { toolInvocation } = part;
-          if (toolInvocation.state === 'result') {
-            if (toolInvocation.toolName === 'weather') {
-              return <WeatherCard key={toolInvocation.toolName} {...toolInvocation.result} />;
-            } else if (toolInvocation.toolName === 'convertFahrenheitToCelsius') {
-              return (
-                <CelsiusConvertCard key={toolInvocation.toolName} {...toolInvocation.result} />
-              );
-            }
-            return (
-              <Text key={toolInvocation.toolName}>
-                Tool: {toolInvocation.toolName} - Result:{' '}
-                {JSON.stringify(toolInvocation.result, null, 2)}
-              </Text>
-            );
-          }
+        case 'tool-invocation':
           return (
-            <View key={toolInvocation.toolName} className="flex-row items-center">
-              <ActivityIndicator size="small" color={isDark ? '#9ca3af' : '#6b7280'} />
-              <Text className="ml-2 text-muted-foreground">
-                Calling: {toolInvocation.toolName}...
-              </Text>
-            </View>
+            <ToolInvocationCard
+              key={part.toolInvocation.toolCallId}
+              toolInvocation={part.toolInvocation}
+            />
           );
-        }
         default:
           return null;
       }
@@ -87,7 +107,10 @@ export function MessageBubble({ message }: MessageBubbleProps) {
       </Animated.View>
     );
   }
-  if (!content.length) return null;
+  const attachments = message.experimental_attachments ?? [];
+  if (!content.length && !attachments.length) return null;
+
+  const attachmentColor = isUser ? '#ffffff' : isDark ? '#fafaf9' : '#27272a';
 
   return (
     <Animated.View
@@ -96,16 +119,64 @@ export function MessageBubble({ message }: MessageBubbleProps) {
       className={cn('flex-row items-end gap-2', isUser && 'self-end')}
     >
       {!isUser && <Avatar role="assistant" />}
-      <View
-        className={cn(
-          'p-3 rounded-2xl max-w-[85%]',
-          isUser ? 'bg-primary rounded-br-none' : 'bg-card rounded-bl-none'
+      <View className={cn('max-w-[85%]', isUser && 'items-end')}>
+        {isUser && author && (
+          <Text className="text-xs text-muted-foreground mb-1 mr-1">{author.name}</Text>
         )}
-      >
-        {content.map((jsx, key) => (
-          <Fragment key={key}>{jsx}</Fragment>
-        ))}
+        <View
+          className={cn(
+            'p-3 rounded-2xl',
+            isUser ? 'bg-primary rounded-br-none' : 'bg-card rounded-bl-none'
+          )}
+        >
+          {attachments.length > 0 && (
+            <View className={cn('flex-row flex-wrap gap-2', content.length > 0 && 'mb-2')}>
+              {attachments.map((attachment, index) =>
+                attachment.contentType?.startsWith('image/') ? (
+                  <Pressable
+                    key={`${attachment.url}-${index}`}
+                    onPress={() => handleOpenAttachment(attachment.url)}
+                    accessibilityLabel={attachment.name ?? 'Image attachment'}
+                  >
+                    {attachmentUrls[attachment.url] ? (
+                      <Image
+                        source={{ uri: attachmentUrls[attachment.url] }}
+                        className="w-40 h-40 rounded-xl"
+                      />
+                    ) : (
+                      <View
+                        className={cn('w-40 h-40 rounded-xl', isUser ? 'bg-white/20' : 'bg-muted')}
+                      />
+                    )}
+                  </Pressable>
+                ) : (
+                  <Pressable
+                    key={`${attachment.url}-${index}`}
+                    onPress={() => handleOpenAttachment(attachment.url)}
+                    className={cn(
+                      'flex-row items-center rounded-xl px-3 py-2 max-w-[240px]',
+                      isUser ? 'bg-white/20' : 'bg-muted'
+                    )}
+                  >
+                    <Ionicons name="document-text-outline" size={18} color={attachmentColor} />
+                    <Text
+                      className={cn('text-sm ml-2', isUser ? 'text-white' : 'text-foreground')}
+                      numberOfLines={1}
+                    >
+                      {attachment.name ?? 'Attachment'}
+                    </Text>
+                  </Pressable>
+                )
+              )}
+            </View>
+          )}
+          {content.map((jsx, key) => (
+            <Fragment key={key}>{jsx}</Fragment>
+          ))}
+          <CitationFootnotes citations={citations} />
+        </View>
       </View>
+      {isUser && author && <Avatar role="user" author={author} />}
     </Animated.View>
   );
 }
@@ -1,30 +1,197 @@
-import { useRef, useEffect } from 'react';
-import { FlatList, type ListRenderItem, View } from 'react-native';
+import { memo, useRef, useEffect, useCallback, useMemo } from 'react';
+import { ActivityIndicator, FlatList, Platform, type ListRenderItem, View } from 'react-native';
 import { UIMessage } from 'ai';
+import { cn } from '@/lib/utils';
+import { FEATURES } from '@/config/features';
+import { useTheme } from '@/features/shared';
 import { MessageBubble } from './MessageBubble';
+import { MessageActions } from './MessageActions';
+import { SpeechControls } from './SpeechControls';
+import type { BranchInfo, MessageAuthor } from '../types';
 
 interface MessageListProps {
   messages: UIMessage[];
   isLoading: boolean;
+  getBranchInfo?: (messageId: string) => BranchInfo | null;
+  /** Author shown with user messages in collaborative conversations */
+  getMessageAuthor?: (messageId: string) => MessageAuthor | null;
+  onSwitchBranch?: (messageId: string, direction: -1 | 1) => void;
+  onEditMessage?: (messageId: string) => void;
+  onRegenerate?: () => void;
+  /** Scrolled into view and highlighted instead of auto-scrolling to the newest message */
+  focusedMessageId?: string | null;
+  /** Older messages exist above the first one shown */
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  /** Called when the list is scrolled near the top */
+  onLoadMore?: () => void;
 }
 
-export function MessageList({ messages, isLoading }: MessageListProps) {
+interface MessageRowProps {
+  message: UIMessage;
+  isLoading: boolean;
+  /** This message is the reply currently being streamed */
+  isStreaming: boolean;
+  isFocused: boolean;
+  canRegenerate: boolean;
+  /** Position among the message's versions - primitives so memoized rows can compare them */
+  branchIndex: number;
+  branchCount: number;
+  author: MessageAuthor | null;
+  onSwitchBranch: (messageId: string, direction: -1 | 1) => void;
+  onEditMessage?: (messageId: string) => void;
+  onRegenerate: () => void;
+}
+
+// Memoized so streaming into the last message does not re-render the whole list
+const MessageRow = memo(function MessageRow({
+  message,
+  isLoading,
+  isStreaming,
+  isFocused,
+  canRegenerate,
+  branchIndex,
+  branchCount,
+  author,
+  onSwitchBranch,
+  onEditMessage,
+  onRegenerate,
+}: MessageRowProps) {
+  const branchInfo = useMemo<BranchInfo | null>(
+    () => (branchCount > 1 ? { index: branchIndex, count: branchCount } : null),
+    [branchIndex, branchCount]
+  );
+
+  return (
+    <View className={cn('mb-4', isFocused && 'rounded-xl bg-primary/10')}>
+      <MessageBubble message={message} author={author} />
+      {message.id !== 'loading' && (
+        <MessageActions
+          isUser={message.role === 'user'}
+          branchInfo={branchInfo}
+          disabled={isLoading}
+          onPreviousVersion={() => onSwitchBranch(message.id, -1)}
+          onNextVersion={() => onSwitchBranch(message.id, 1)}
+          onEdit={
+            message.role === 'user' && onEditMessage ? () => onEditMessage(message.id) : undefined
+          }
+          // Hidden while streaming - the stop button in InputBar handles the live reply
+          onRegenerate={canRegenerate ? onRegenerate : undefined}
+        >
+          {FEATURES.enableTextToSpeech &&
+            message.role === 'assistant' &&
+            !isStreaming &&
+            !!message.content.trim() && <SpeechControls messageId={message.id} />}
+        </MessageActions>
+      )}
+    </View>
+  );
+});
+
+export function MessageList({
+  messages,
+  isLoading,
+  getBranchInfo,
+  getMessageAuthor,
+  onSwitchBranch,
+  onEditMessage,
+  onRegenerate,
+  focusedMessageId,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+}: MessageListProps) {
+  const { isDark } = useTheme();
   const flatListRef = useRef<FlatList>(null);
+  const previousFirstIdRef = useRef<string | undefined>(undefined);
+  const previousLastIdRef = useRef<string | undefined>(undefined);
+
+  // Row callbacks read the latest handlers through a ref so they stay stable for MessageRow
+  const handlersRef = useRef({ onSwitchBranch, onEditMessage, onRegenerate });
+  handlersRef.current = { onSwitchBranch, onEditMessage, onRegenerate };
 
-  // Auto-scroll to bottom when new messages arrive
+  const handleSwitchBranch = useCallback((messageId: string, direction: -1 | 1) => {
+    handlersRef.current.onSwitchBranch?.(messageId, direction);
+  }, []);
+  const handleEditMessage = useCallback((messageId: string) => {
+    handlersRef.current.onEditMessage?.(messageId);
+  }, []);
+  const handleRegenerate = useCallback(() => {
+    handlersRef.current.onRegenerate?.();
+  }, []);
+
+  // Auto-scroll to bottom when new messages arrive, or to the focused message.
+  // Older pages prepended at the top keep the current position instead.
   useEffect(() => {
-    if (messages.length > 0) {
+    const firstId = messages[0]?.id;
+    const lastId = messages.at(-1)?.id;
+    const isPrepend =
+      lastId === previousLastIdRef.current && firstId !== previousFirstIdRef.current;
+    previousFirstIdRef.current = firstId;
+    previousLastIdRef.current = lastId;
+
+    if (messages.length > 0 && !isPrepend) {
+      const focusedIndex = focusedMessageId
+        ? messages.findIndex((message) => message.id === focusedMessageId)
+        : -1;
+
       setTimeout(() => {
-        flatListRef.current?.scrollToEnd({ animated: true });
+        if (focusedIndex !== -1) {
+          flatListRef.current?.scrollToIndex({
+            index: focusedIndex,
+            animated: true,
+            viewPosition: 0.3,
+          });
+        } else {
+          flatListRef.current?.scrollToEnd({ animated: true });
+        }
       }, 100);
     }
-  }, [messages]);
+  }, [messages, focusedMessageId]);
 
-  const renderMessage: ListRenderItem<UIMessage> = ({ item }) => (
-    <View className="mb-4">
-      <MessageBubble message={item} />
-    </View>
-  );
+  // Rows are variable height, so scrollToIndex can fail before the target is measured.
+  // Jump to the estimated offset to render it, then retry.
+  const handleScrollToIndexFailed = ({
+    index,
+    averageItemLength,
+  }: {
+    index: number;
+    averageItemLength: number;
+  }) => {
+    flatListRef.current?.scrollToOffset({ offset: averageItemLength * index, animated: false });
+    setTimeout(() => {
+      flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.3 });
+    }, 100);
+  };
+
+  const handleStartReached = () => {
+    if (hasMore && !loadingMore) {
+      onLoadMore?.();
+    }
+  };
+
+  const lastMessage = messages.at(-1);
+
+  const renderMessage: ListRenderItem<UIMessage> = ({ item }) => {
+    const branchInfo = getBranchInfo?.(item.id);
+    return (
+      <MessageRow
+        message={item}
+        isLoading={isLoading}
+        isStreaming={isLoading && item.id === lastMessage?.id}
+        isFocused={item.id === focusedMessageId}
+        canRegenerate={
+          !!onRegenerate && item.id === lastMessage?.id && item.role === 'assistant' && !isLoading
+        }
+        branchIndex={branchInfo?.index ?? 0}
+        branchCount={branchInfo?.count ?? 1}
+        author={item.role === 'user' ? (getMessageAuthor?.(item.id) ?? null) : null}
+        onSwitchBranch={handleSwitchBranch}
+        onEditMessage={onEditMessage ? handleEditMessage : undefined}
+        onRegenerate={handleRegenerate}
+      />
+    );
+  };
 
   // Add loading message if assistant is typing
   const messagesWithLoading =
@@ -46,6 +213,16 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
       data={messagesWithLoading}
       renderItem={renderMessage}
       keyExtractor={(item) => item.id}
+      onScrollToIndexFailed={handleScrollToIndexFailed}
+      onStartReached={handleStartReached}
+      onStartReachedThreshold={0.5}
+      ListHeaderComponent={
+        loadingMore ? (
+          <View className="py-4 items-center">
+            <ActivityIndicator size="small" color={isDark ? '#9ca3af' : '#6b7280'} />
+          </View>
+        ) : null
+      }
       showsVerticalScrollIndicator={false}
       contentContainerStyle={{
         paddingHorizontal: 16,
@@ -54,10 +231,13 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
         flexGrow: 1,
       }}
       keyboardDismissMode="interactive"
-      maintainVisibleContentPosition={{
-        minIndexForVisible: 0,
-        autoscrollToTopThreshold: 100,
-      }}
+      // Only a window of rows around the viewport is mounted, so long threads stay smooth
+      initialNumToRender={15}
+      maxToRenderPerBatch={10}
+      windowSize={11}
+      removeClippedSubviews={Platform.OS === 'android'}
+      // Keeps the visible message in place when older pages are prepended
+      maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
     />
   );
 }
@@ -0,0 +1,43 @@
+import { View, Text, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/features/shared';
+import type { MessageSearchResult as MessageSearchResultRow } from '@/lib/supabase';
+import { parseHighlights } from '../utils';
+
+interface MessageSearchResultProps {
+  result: MessageSearchResultRow;
+  onPress: () => void;
+}
+
+export function MessageSearchResult({ result, onPress }: MessageSearchResultProps) {
+  const { isDark } = useTheme();
+  const isTitleMatch = !result.message_id;
+
+  const icon = isTitleMatch
+    ? 'chatbubbles-outline'
+    : result.role === 'user'
+      ? 'person-outline'
+      : 'sparkles-outline';
+
+  return (
+    <Pressable onPress={onPress} className="px-6 py-3 active:bg-muted">
+      <View className="flex-row items-center mb-1">
+        <Ionicons name={icon} size={12} color={isDark ? '#9ca3af' : '#666'} />
+        <Text className="ml-1 flex-1 text-xs text-muted-foreground" numberOfLines={1}>
+          {isTitleMatch ? 'Conversation title' : result.conversation_title}
+        </Text>
+      </View>
+      <Text className="text-sm text-foreground" numberOfLines={isTitleMatch ? 1 : 3}>
+        {parseHighlights(result.snippet).map((segment, index) =>
+          segment.highlighted ? (
+            <Text key={index} className="font-semibold bg-primary/20 text-foreground">
+              {segment.text}
+            </Text>
+          ) : (
+            segment.text
+          )
+        )}
+      </Text>
+    </Pressable>
+  );
+}
@@ -0,0 +1,37 @@
+import { View, Text, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/features/shared';
+
+interface OfflineBannerProps {
+  isOnline: boolean;
+  /** Queued writes waiting for the server */
+  pendingCount: number;
+  syncing: boolean;
+}
+
+export function OfflineBanner({ isOnline, pendingCount, syncing }: OfflineBannerProps) {
+  const { isDark } = useTheme();
+  const iconColor = isDark ? '#9ca3af' : '#666';
+
+  if (isOnline && !syncing) return null;
+
+  return (
+    <View className="flex-row items-center justify-center px-4 py-2 bg-muted border-b border-border">
+      {isOnline ? (
+        <>
+          <ActivityIndicator size="small" color={iconColor} />
+          <Text className="ml-2 text-xs text-muted-foreground">Syncing…</Text>
+        </>
+      ) : (
+        <>
+          <Ionicons name="cloud-offline-outline" size={14} color={iconColor} />
+          <Text className="ml-2 text-xs text-muted-foreground">
+            {pendingCount > 0
+              ? `You're offline — ${pendingCount} change${pendingCount !== 1 ? 's' : ''} will sync when you reconnect`
+              : "You're offline — messages will send when you reconnect"}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * PersonaPickerModal Component
+ * Lets the user choose a persona preset when starting a new conversation
+ */
+
+import React from 'react';
+import { View, Text, Modal, Pressable, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/features/shared/hooks/useTheme';
+import { PERSONA_PRESETS, DEFAULT_PERSONA_ID } from '@/config/personas';
+
+interface PersonaPickerModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSelect: (personaId: string) => void;
+}
+
+export function PersonaPickerModal({ visible, onClose, onSelect }: PersonaPickerModalProps) {
+  const { isDark } = useTheme();
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-background">
+        {/* Header */}
+        <View className="flex-row items-center justify-between p-4 border-b border-border">
+          <Text className="text-lg font-semibold text-foreground">New Conversation</Text>
+          <Pressable onPress={onClose} className="w-8 h-8 items-center justify-center">
+            <Ionicons name="close" size={24} color={isDark ? '#fff' : '#000'} />
+          </Pressable>
+        </View>
+
+        <ScrollView className="flex-1 p-4">
+          <Text className="text-sm text-muted-foreground mb-4">
+            Choose a persona. It sets the assistant&apos;s instructions and default response
+            settings for this conversation.
+          </Text>
+
+          {PERSONA_PRESETS.map((persona) => (
+            <Pressable
+              key={persona.id}
+              onPress={() => onSelect(persona.id)}
+              className="flex-row items-center bg-card rounded-lg p-3 mb-2 active:bg-muted"
+            >
+              <View className="w-10 h-10 rounded-full bg-muted items-center justify-center mr-3">
+                <Ionicons name={persona.icon} size={20} color={isDark ? '#9ca3af' : '#4b5563'} />
+              </View>
+              <View className="flex-1">
+                <Text className="text-sm font-medium text-foreground">
+                  {persona.name}
+                  {persona.id === DEFAULT_PERSONA_ID && (
+                    <Text className="text-muted-foreground"> (default)</Text>
+                  )}
+                </Text>
+                <Text className="text-xs text-muted-foreground">{persona.description}</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={16} color={isDark ? '#9ca3af' : '#666'} />
+            </Pressable>
+          ))}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * ShareAccessPickerModal Component
+ * Lets the owner move an existing share to another access level
+ */
+
+import React from 'react';
+import { View, Text, Modal, Pressable, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/features/shared/hooks/useTheme';
+import type { ShareAccessLevel, SharePermission } from '@/config/sharing';
+
+interface ShareAccessPickerModalProps {
+  visible: boolean;
+  /** Who the share is for, shown under the title */
+  shareName: string;
+  levels: ShareAccessLevel[];
+  currentLevelId?: SharePermission;
+  onSelect: (level: ShareAccessLevel) => void;
+  onClose: () => void;
+}
+
+export function ShareAccessPickerModal({
+  visible,
+  shareName,
+  levels,
+  currentLevelId,
+  onSelect,
+  onClose,
+}: ShareAccessPickerModalProps) {
+  const { isDark } = useTheme();
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-background">
+        {/* Header */}
+        <View className="flex-row items-center justify-between p-4 border-b border-border">
+          <View className="flex-1">
+            <Text className="text-lg font-semibold text-foreground">Change Access</Text>
+            <Text className="text-sm text-muted-foreground" numberOfLines={1}>
+              {shareName}
+            </Text>
+          </View>
+          <Pressable onPress={onClose} className="w-8 h-8 items-center justify-center">
+            <Ionicons name="close" size={24} color={isDark ? '#fff' : '#000'} />
+          </Pressable>
+        </View>
+
+        <ScrollView className="flex-1 p-4">
+          {levels.map((level) => (
+            <Pressable
+              key={level.id}
+              onPress={() => onSelect(level)}
+              className="flex-row items-center bg-card rounded-lg p-3 mb-2 active:bg-muted"
+            >
+              <View className="flex-1">
+                <Text className="text-sm font-medium text-foreground">{level.label}</Text>
+                <Text className="text-xs text-muted-foreground">{level.description}</Text>
+              </View>
+              {level.id === currentLevelId && (
+                <Ionicons name="checkmark" size={20} color={isDark ? '#fff' : '#000'} />
+              )}
+            </Pressable>
+          ))}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
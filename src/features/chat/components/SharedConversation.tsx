@@ -0,0 +1,152 @@
+/**
+ * SharedConversation Component
+ * Read-only transcript for visitors opening a public share link
+ */
+
+import React from 'react';
+import { View, Text, FlatList, ActivityIndicator, StatusBar, Pressable, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useTheme } from '@/features/shared';
+import { useAuth } from '@/features/auth/hooks/useAuth';
+import { useSharedConversation } from '../hooks/useSharedConversation';
+import { useConversationSharing } from '../hooks/useConversationSharing';
+import { MessageBubble } from './MessageBubble';
+
+interface SharedConversationProps {
+  shareToken: string | undefined;
+}
+
+const ERROR_ICONS: Record<string, keyof typeof Ionicons.glyphMap> = {
+  expired: 'time-outline',
+  forbidden: 'lock-closed-outline',
+  not_found: 'link-outline',
+};
+
+export function SharedConversation({ shareToken }: SharedConversationProps) {
+  const { isDark } = useTheme();
+  const { sharedConversation, messages, loading, error, errorType } =
+    useSharedConversation(shareToken);
+
+  const { isAuthenticated } = useAuth();
+  const { forkConversation, loading: forking } = useConversationSharing();
+
+  const expiresAt = sharedConversation?.share.expires_at;
+  const canFork = !!sharedConversation?.share.permissions.includes('fork');
+
+  const handleFork = async () => {
+    if (!sharedConversation || !shareToken) return;
+
+    if (!isAuthenticated) {
+      Alert.alert('Sign In Required', 'Sign in to fork this conversation into your workspace.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign In', onPress: () => router.push('/(auth)/welcome') },
+      ]);
+      return;
+    }
+
+    const forkedConversationId = await forkConversation(
+      sharedConversation.conversation.id,
+      shareToken
+    );
+
+    if (forkedConversationId) {
+      router.replace({ pathname: '/(app)', params: { conversationId: forkedConversationId } });
+    } else {
+      Alert.alert('Error', 'Failed to fork conversation');
+    }
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color={isDark ? '#9ca3af' : '#6b7280'} />
+        </View>
+      );
+    }
+
+    if (error || !sharedConversation) {
+      return (
+        <View className="flex-1 items-center justify-center p-8">
+          <Ionicons
+            name={ERROR_ICONS[errorType ?? ''] ?? 'alert-circle-outline'}
+            size={48}
+            color={isDark ? '#9ca3af' : '#666'}
+          />
+          <Text className="text-lg font-semibold text-foreground mt-4 text-center">
+            Conversation unavailable
+          </Text>
+          <Text className="text-sm text-muted-foreground mt-2 text-center">
+            {error?.message ?? 'This conversation could not be loaded.'}
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <FlatList
+        data={messages}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <View className="mb-4">
+            <MessageBubble message={item} />
+          </View>
+        )}
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={{ padding: 16, flexGrow: 1 }}
+        ListEmptyComponent={
+          <Text className="text-sm text-muted-foreground text-center mt-8">
+            This conversation has no messages yet.
+          </Text>
+        }
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-background" edges={['top', 'left', 'right', 'bottom']}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? '#0f0f11' : '#fafaf9'}
+      />
+
+      {/* Header */}
+      <View className="flex-row items-center px-4 py-3 border-b border-border">
+        <View className="flex-1">
+          <Text className="text-lg font-semibold text-foreground" numberOfLines={1}>
+            {sharedConversation?.conversation.title ?? 'Shared Conversation'}
+          </Text>
+          <View className="flex-row items-center mt-1">
+            <Ionicons name="eye-outline" size={14} color={isDark ? '#9ca3af' : '#666'} />
+            <Text className="text-xs text-muted-foreground ml-1">
+              Read-only
+              {expiresAt && ` · Link expires ${new Date(expiresAt).toLocaleDateString()}`}
+            </Text>
+          </View>
+        </View>
+        {canFork && (
+          <Pressable
+            onPress={handleFork}
+            disabled={forking}
+            className={`flex-row items-center bg-primary rounded-lg px-3 py-2 ml-3 ${
+              forking ? 'opacity-50' : ''
+            }`}
+          >
+            {forking ? (
+              <ActivityIndicator color="#fff" size="small" />
+            ) : (
+              <>
+                <Ionicons name="git-branch-outline" size={16} color="#fff" />
+                <Text className="text-primary-foreground text-sm font-medium ml-1">Fork</Text>
+              </>
+            )}
+          </Pressable>
+        )}
+      </View>
+
+      <View className="flex-1">{renderContent()}</View>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * SpeechControls Component
+ * Read-aloud button for an assistant message, with seek and stop while it plays
+ */
+
+import { useState } from 'react';
+import { View, Text, Pressable, ActivityIndicator, type GestureResponderEvent } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/features/shared';
+import { useSpeechPlayback } from '../hooks/useSpeechPlayback';
+
+interface SpeechControlsProps {
+  /** Saved assistant message - /api/speech reads its stored content */
+  messageId: string;
+}
+
+const formatTime = (seconds: number): string => {
+  const total = Math.max(Math.floor(seconds || 0), 0);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+export function SpeechControls({ messageId }: SpeechControlsProps) {
+  const { isDark } = useTheme();
+  const speech = useSpeechPlayback();
+  const [trackWidth, setTrackWidth] = useState(0);
+  const iconColor = isDark ? '#9ca3af' : '#666';
+
+  if (!speech) return null;
+
+  const isActive = speech.activeMessageId === messageId;
+  const isLoading = speech.loadingMessageId === messageId;
+  const isPlaying = isActive && speech.playing;
+  const progress = isActive && speech.duration > 0 ? speech.currentTime / speech.duration : 0;
+
+  const handleSeek = (event: GestureResponderEvent) => {
+    if (trackWidth <= 0 || speech.duration <= 0) return;
+    speech.seekTo((event.nativeEvent.locationX / trackWidth) * speech.duration);
+  };
+
+  return (
+    <View className="flex-row items-center">
+      <Pressable
+        onPress={() => speech.toggle(messageId)}
+        disabled={isLoading}
+        className="w-7 h-7 items-center justify-center"
+        accessibilityLabel={isPlaying ? 'Pause reading' : 'Read aloud'}
+      >
+        {isLoading ? (
+          <ActivityIndicator size="small" color={iconColor} />
+        ) : (
+          <Ionicons
+            name={isPlaying ? 'pause' : isActive ? 'play' : 'volume-medium-outline'}
+            size={14}
+            color={iconColor}
+          />
+        )}
+      </Pressable>
+
+      {isActive && (
+        <>
+          <Pressable
+            onPress={handleSeek}
+            onLayout={(event) => setTrackWidth(event.nativeEvent.layout.width)}
+            className="w-24 h-7 justify-center"
+            accessibilityLabel="Seek"
+          >
+            <View className="h-1 rounded-full bg-muted overflow-hidden">
+              <View className="h-full bg-primary" style={{ width: `${progress * 100}%` }} />
+            </View>
+          </Pressable>
+          <Text className="text-xs text-muted-foreground ml-2">
+            {formatTime(speech.currentTime)} / {formatTime(speech.duration)}
+          </Text>
+          <Pressable
+            onPress={speech.stop}
+            className="w-7 h-7 items-center justify-center"
+            accessibilityLabel="Stop reading"
+          >
+            <Ionicons name="stop" size={14} color={iconColor} />
+          </Pressable>
+        </>
+      )}
+
+      {speech.errorMessageId === messageId && speech.error && (
+        <Text className="text-xs text-red-500 ml-2" numberOfLines={1}>
+          {speech.error}
+        </Text>
+      )}
+    </View>
+  );
+}
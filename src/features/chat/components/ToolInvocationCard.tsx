@@ -0,0 +1,29 @@
+import { Text, View, ActivityIndicator } from 'react-native';
+import type { ToolInvocation } from 'ai';
+import { getToolRenderer } from '@/lib/tools/renderers';
+import { ToolResultCard, useTheme } from '@/features/shared';
+
+interface ToolInvocationCardProps {
+  toolInvocation: ToolInvocation;
+}
+
+export function ToolInvocationCard({ toolInvocation }: ToolInvocationCardProps) {
+  const { isDark } = useTheme();
+
+  if (toolInvocation.state !== 'result') {
+    return (
+      <View className="flex-row items-center">
+        <ActivityIndicator size="small" color={isDark ? '#9ca3af' : '#6b7280'} />
+        <Text className="ml-2 text-muted-foreground">Calling: {toolInvocation.toolName}...</Text>
+      </View>
+    );
+  }
+
+  // Tools without a renderer, and results that do not match its schema, use the generic card
+  const card = getToolRenderer(toolInvocation.toolName)?.render(toolInvocation.result);
+  if (card) {
+    return card;
+  }
+
+  return <ToolResultCard toolName={toolInvocation.toolName} result={toolInvocation.result} />;
+}
@@ -2,3 +2,14 @@ export { useChatController } from './useChatController';
 export { useConversations } from './useConversations';
 export { useConversation } from './useConversation';
 export { useChatManager } from './useChatManager';
+export { useMessageBranches } from './useMessageBranches';
+export { useSharedConversation } from './useSharedConversation';
+export { useMessageSearch } from './useMessageSearch';
+export { useOfflineSync } from './useOfflineSync';
+export { useMessageAuthors } from './useMessageAuthors';
+export { useConversationPresence } from './useConversationPresence';
+export { useAttachments } from './useAttachments';
+export { useAttachmentUrls } from './useAttachmentUrls';
+export { useVoiceInput } from './useVoiceInput';
+export { useSpeechPlayer } from './useSpeechPlayer';
+export { useSpeechPlayback, SpeechPlaybackContext } from './useSpeechPlayback';
@@ -0,0 +1,35 @@
+/**
+ * useAttachmentUrls Hook
+ * Signed URLs for showing a message's attachments from the private attachments bucket
+ */
+
+import { useState, useEffect } from 'react';
+import type { ChatAttachment } from '@/types/api';
+import { getSignedAttachmentUrls } from '../utils/attachmentUrls';
+
+/**
+ * @returns Signed URLs by stored attachment URL, filled in once signed
+ */
+export const useAttachmentUrls = (attachments: ChatAttachment[]): Record<string, string> => {
+  const [signedUrls, setSignedUrls] = useState<Record<string, string>>({});
+
+  // Attachment arrays are rebuilt on every render, so depend on the URLs themselves
+  const urlsKey = attachments.map((attachment) => attachment.url).join('\n');
+
+  useEffect(() => {
+    if (!urlsKey) return;
+
+    let cancelled = false;
+    getSignedAttachmentUrls(urlsKey.split('\n').map((url) => ({ url })))
+      .then((urls) => {
+        if (!cancelled) setSignedUrls(urls);
+      })
+      .catch((err) => console.error('Error signing attachment URLs:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [urlsKey]);
+
+  return signedUrls;
+};
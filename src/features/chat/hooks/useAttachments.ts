@@ -0,0 +1,187 @@
+/**
+ * useAttachments Hook
+ * Picks images and documents for the next message and uploads them to storage
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { Alert } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import * as DocumentPicker from 'expo-document-picker';
+import * as ImagePicker from 'expo-image-picker';
+import { useAuth } from '@/features/auth/hooks/useAuth';
+import { config } from '@/config';
+import { storage } from '@/lib/supabase';
+import type { ChatAttachment } from '@/types/api';
+import type { PendingAttachment } from '../types';
+import { readFileAsArrayBuffer } from '../utils';
+
+interface PickedFile {
+  name: string;
+  contentType: string;
+  uri: string;
+  size?: number;
+}
+
+interface UseAttachmentsReturn {
+  attachments: PendingAttachment[];
+  /** Uploaded attachments, in the format sent with the message */
+  readyAttachments: ChatAttachment[];
+  uploading: boolean;
+  pickImage: () => Promise<void>;
+  pickDocument: () => Promise<void>;
+  removeAttachment: (id: string) => void;
+  clearAttachments: () => void;
+}
+
+// The first folder must be the user id - see 010_chat_attachments.sql
+const getAttachmentPath = (userId: string, attachment: Pick<PendingAttachment, 'id' | 'name'>) =>
+  `${userId}/${attachment.id}/${attachment.name}`;
+
+export const useAttachments = (): UseAttachmentsReturn => {
+  const { user } = useAuth();
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+
+  const updateAttachment = useCallback((id: string, update: Partial<PendingAttachment>) => {
+    setAttachments((prev) =>
+      prev.map((attachment) => (attachment.id === id ? { ...attachment, ...update } : attachment))
+    );
+  }, []);
+
+  const uploadFiles = useCallback(
+    async (files: PickedFile[]) => {
+      if (!user?.id) return;
+
+      const { attachmentsBucket, maxAttachmentSizeMb, maxAttachmentsPerMessage } = config.storage;
+      const available = maxAttachmentsPerMessage - attachments.length;
+      if (files.length > available) {
+        Alert.alert(
+          'Too Many Files',
+          `You can attach up to ${maxAttachmentsPerMessage} files to a message.`
+        );
+      }
+
+      const tooLarge = files.filter((file) => (file.size ?? 0) > maxAttachmentSizeMb * 1024 * 1024);
+      if (tooLarge.length > 0) {
+        Alert.alert(
+          'File Too Large',
+          `${tooLarge.map((file) => file.name).join(', ')} is larger than ${maxAttachmentSizeMb} MB.`
+        );
+      }
+
+      const accepted = files
+        .filter((file) => !tooLarge.includes(file))
+        .slice(0, Math.max(available, 0))
+        .map((file) => ({
+          ...file,
+          id: Crypto.randomUUID(),
+          status: 'uploading' as const,
+        }));
+      if (accepted.length === 0) return;
+
+      setAttachments((prev) => [...prev, ...accepted]);
+
+      await Promise.all(
+        accepted.map(async (attachment) => {
+          try {
+            const path = getAttachmentPath(user.id, attachment);
+            const body = await readFileAsArrayBuffer(attachment.uri);
+            const { error } = await storage.uploadFile(attachmentsBucket, path, body, {
+              contentType: attachment.contentType,
+            });
+
+            if (error) {
+              throw new Error(error.message);
+            }
+
+            updateAttachment(attachment.id, {
+              status: 'ready',
+              // Identifies the file - the bucket is private, so it is read through signed URLs
+              url: storage.getPublicUrl(attachmentsBucket, path),
+            });
+          } catch (err) {
+            console.error('Error uploading attachment:', err);
+            updateAttachment(attachment.id, { status: 'error' });
+          }
+        })
+      );
+    },
+    [user?.id, attachments.length, updateAttachment]
+  );
+
+  const pickImage = useCallback(async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsMultipleSelection: true,
+      quality: 0.8,
+    });
+    if (result.canceled) return;
+
+    await uploadFiles(
+      result.assets.map((asset) => ({
+        name: asset.fileName ?? `image-${Date.now()}.jpg`,
+        contentType: asset.mimeType ?? 'image/jpeg',
+        uri: asset.uri,
+        size: asset.fileSize,
+      }))
+    );
+  }, [uploadFiles]);
+
+  const pickDocument = useCallback(async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['image/*', 'application/pdf', 'text/*', 'application/json'],
+      multiple: true,
+    });
+    if (result.canceled) return;
+
+    await uploadFiles(
+      result.assets.map((asset) => ({
+        name: asset.name,
+        contentType: asset.mimeType ?? 'application/octet-stream',
+        uri: asset.uri,
+        size: asset.size,
+      }))
+    );
+  }, [uploadFiles]);
+
+  // Removed before sending, so the uploaded file is not referenced by any message
+  const removeAttachment = useCallback(
+    (id: string) => {
+      const attachment = attachments.find((item) => item.id === id);
+      setAttachments((prev) => prev.filter((item) => item.id !== id));
+
+      if (attachment?.status === 'ready' && user?.id) {
+        storage
+          .deleteFile(config.storage.attachmentsBucket, [getAttachmentPath(user.id, attachment)])
+          .catch((err) => console.error('Error deleting attachment:', err));
+      }
+    },
+    [attachments, user?.id]
+  );
+
+  // Called after sending - the files now belong to the message
+  const clearAttachments = useCallback(() => {
+    setAttachments([]);
+  }, []);
+
+  const readyAttachments = useMemo(
+    () =>
+      attachments
+        .filter((attachment) => attachment.status === 'ready' && attachment.url)
+        .map((attachment) => ({
+          name: attachment.name,
+          contentType: attachment.contentType,
+          url: attachment.url!,
+        })),
+    [attachments]
+  );
+
+  return {
+    attachments,
+    readyAttachments,
+    uploading: attachments.some((attachment) => attachment.status === 'uploading'),
+    pickImage,
+    pickDocument,
+    removeAttachment,
+    clearAttachments,
+  };
+};
@@ -1,8 +1,30 @@
 import { useChat } from '@ai-sdk/react';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { UIMessage } from 'ai';
 import * as Haptics from 'expo-haptics';
+import * as Crypto from 'expo-crypto';
 import { useAuth } from '@/features/auth/hooks/useAuth';
+import { config } from '@/config';
+import { FEATURES } from '@/config/features';
+import {
+  offlineStore,
+  getIsOnline,
+  setOnline,
+  isNetworkError,
+  subscribeToSync,
+  type SyncResult,
+} from '@/lib/offline';
+import { describeAttachments } from '@/lib/ai/attachments';
+import { getAuthHeaders } from '@/lib/api/session';
+import { CONTEXT_SUMMARIZED_HEADER, ContextSummarySchema, type ChatAttachment } from '@/types/api';
 import { useConversation } from './useConversation';
+import { useMessageBranches } from './useMessageBranches';
+import { useMessageAuthors } from './useMessageAuthors';
+import { useConversationPresence } from './useConversationPresence';
+import { useAttachments } from './useAttachments';
+import type { MessageAuthor } from '../types';
+
+const UNKNOWN_AUTHOR: MessageAuthor = { name: 'Collaborator', avatarUrl: null };
 
 interface UseChatControllerProps {
   conversationId: string | null;
@@ -12,9 +34,32 @@ interface UseChatControllerProps {
 export function useChatController(
   { conversationId, onConversationCreate }: UseChatControllerProps = { conversationId: null }
 ) {
-  const { user } = useAuth();
-  const { messages: dbMessages, loading: conversationLoading } = useConversation(conversationId);
+  const { user, profile, session } = useAuth();
+  const {
+    conversation,
+    messages: dbMessages,
+    messageTree,
+    loading: conversationLoading,
+    hasMoreMessages,
+    loadingMore,
+    loadMoreMessages,
+  } = useConversation(conversationId);
   const [isInitialized, setIsInitialized] = useState(false);
+  const [model, setModel] = useState<string>(config.ai.defaultModel);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  // Message to show once its conversation is loaded, e.g. from a search result
+  const [pendingFocus, setPendingFocus] = useState<{
+    conversationId: string;
+    messageId: string;
+  } | null>(null);
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  // Set after an older page loads so the visible branch is extended backwards
+  const [shouldExtendBranch, setShouldExtendBranch] = useState(false);
+  // Messages /api/chat replaced with the rolling summary on the last request
+  const [summarizedMessageCount, setSummarizedMessageCount] = useState(0);
+  // Set when a send fails for lack of network so the message is queued instead
+  const [hasUnsentMessage, setHasUnsentMessage] = useState(false);
+  const [lastSync, setLastSync] = useState<SyncResult | null>(null);
 
   const {
     messages,
@@ -24,38 +69,262 @@ export function useChatController(
     handleSubmit,
     isLoading,
     setMessages,
+    setInput,
+    append,
+    reload,
+    stop,
   } = useChat({
     maxSteps: 5,
+    // Message ids double as database ids so the server can link each message to its parent
+    generateId: Crypto.randomUUID,
+    sendExtraMessageFields: true,
+    // /api/chat saves messages and searches history as the signed-in user
+    headers: getAuthHeaders(session?.access_token),
     body: {
+      model,
+      // useChat consumes the data stream protocol, so never request JSON mode
+      stream: true,
       conversationId: conversationId || undefined,
       userId: user?.id || undefined,
       saveMessages: true,
     },
+    onResponse: (response) => {
+      setSummarizedMessageCount(Number(response.headers.get(CONTEXT_SUMMARIZED_HEADER)) || 0);
+    },
+    onError: (chatError) => {
+      if (FEATURES.enableOfflineMode && isNetworkError(chatError)) {
+        setOnline(false);
+        setHasUnsentMessage(true);
+      }
+    },
     onFinish: (message) => {
       // Conversation should be created by now if needed
       console.log('Chat finished:', message);
     },
   });
 
+  const attachments = useAttachments();
+
+  const { getBranchInfo, getBranchMessages, switchBranch } = useMessageBranches({
+    conversationId,
+    messageTree,
+    dbMessages,
+    messages,
+    isLoading,
+    setMessages,
+  });
+
   // Load persisted messages when conversation changes
   useEffect(() => {
     if (!conversationLoading && dbMessages && conversationId && !isInitialized) {
-      // Convert database messages to useChat format
-      const chatMessages = dbMessages.map((msg) => ({
-        id: msg.id,
-        role: msg.role as 'user' | 'assistant' | 'system',
-        content: msg.content,
-        createdAt: new Date(msg.created_at),
-      }));
-
-      setMessages(chatMessages);
+      // Show the newest branch - older versions are reachable through the branch switcher
+      setMessages(getBranchMessages());
       setIsInitialized(true);
     }
-  }, [dbMessages, conversationLoading, conversationId, isInitialized, setMessages]);
+  }, [
+    dbMessages,
+    conversationLoading,
+    conversationId,
+    isInitialized,
+    setMessages,
+    getBranchMessages,
+  ]);
+
+  // Show the branch containing the focused message - it may be an older version
+  // Older pages are loaded until the message is found
+  useEffect(() => {
+    if (!isInitialized || pendingFocus?.conversationId !== conversationId) return;
+
+    if (messageTree.nodes[pendingFocus.messageId]) {
+      setMessages(getBranchMessages(pendingFocus.messageId));
+      setFocusedMessageId(pendingFocus.messageId);
+      setPendingFocus(null);
+    } else if (hasMoreMessages) {
+      if (!loadingMore) loadMoreMessages();
+    } else {
+      setPendingFocus(null);
+    }
+  }, [
+    isInitialized,
+    pendingFocus,
+    conversationId,
+    messageTree,
+    hasMoreMessages,
+    loadingMore,
+    loadMoreMessages,
+    setMessages,
+    getBranchMessages,
+  ]);
+
+  const { authors, authorIds } = useMessageAuthors(dbMessages);
+
+  // Shared conversations show who wrote each user message and who else is viewing
+  const isCollaborative =
+    FEATURES.enableConversationSharing &&
+    !!conversation &&
+    (conversation.is_shared || conversation.user_id !== user?.id || authorIds.length > 1);
+  const { viewers } = useConversationPresence(conversationId, isCollaborative);
+
+  const messageAuthorIds = useMemo(
+    () =>
+      Object.fromEntries(
+        dbMessages.filter((msg) => msg.user_id).map((msg) => [msg.id, msg.user_id])
+      ),
+    [dbMessages]
+  );
+
+  // Stable objects per author, so memoized message rows do not re-render
+  const messageAuthors = useMemo(() => {
+    const byId: Record<string, MessageAuthor> = Object.fromEntries(
+      Object.values(authors).map((author) => [
+        author.id,
+        {
+          name: author.full_name || author.username || author.email || UNKNOWN_AUTHOR.name,
+          avatarUrl: author.avatar_url,
+        },
+      ])
+    );
+    if (user?.id) {
+      byId[user.id] = { name: 'You', avatarUrl: profile?.avatar_url ?? null };
+    }
+    return byId;
+  }, [authors, user?.id, profile?.avatar_url]);
+
+  const getMessageAuthor = useCallback(
+    (messageId: string): MessageAuthor | null => {
+      if (!isCollaborative) return null;
+
+      // Messages sent in this session are not loaded from the database yet
+      const authorId = messageAuthorIds[messageId] ?? user?.id;
+      return (authorId && messageAuthors[authorId]) || UNKNOWN_AUTHOR;
+    },
+    [isCollaborative, messageAuthorIds, messageAuthors, user?.id]
+  );
+
+  // Follow messages added on another device when they continue the visible branch
+  useEffect(() => {
+    if (!FEATURES.enableRealtime || !isInitialized || isLoading) return;
+
+    const visibleIds = new Set(messages.map((msg) => msg.id));
+    const lastId = messages.at(-1)?.id ?? null;
+    const nextMessage = dbMessages.find(
+      (msg) => msg.parent_message_id === lastId && !visibleIds.has(msg.id)
+    );
+    if (!nextMessage) return;
+
+    const branch = getBranchMessages(nextMessage.id);
+    if (branch.some((msg) => msg.id === nextMessage.id)) {
+      setMessages(branch);
+    }
+  }, [isInitialized, isLoading, messages, dbMessages, setMessages, getBranchMessages]);
+
+  useEffect(() => {
+    if (!shouldExtendBranch) return;
+    setShouldExtendBranch(false);
+    setMessages(getBranchMessages(messages.at(-1)?.id));
+  }, [shouldExtendBranch, messages, setMessages, getBranchMessages]);
+
+  // Queue a user message for the server. The UI shows it right away; the reply is
+  // requested once the queue has been replayed.
+  const queueMessage = useCallback(
+    async (message: UIMessage, parentMessageId: string | null) => {
+      if (!conversationId || !user?.id) return;
+
+      const createdAt = new Date().toISOString();
+      const messageAttachments = (message.experimental_attachments ?? []) as ChatAttachment[];
+      const payload = {
+        id: message.id,
+        conversation_id: conversationId,
+        content: message.content.trim() || describeAttachments(messageAttachments),
+        role: 'user' as const,
+        created_at: createdAt,
+        metadata: {
+          timestamp: createdAt,
+          client_id: message.id,
+          queued_offline: true,
+          ...(messageAttachments.length > 0 && { attachments: messageAttachments }),
+        },
+        parent_message_id: parentMessageId,
+        user_id: user.id,
+      };
+
+      // Edits queue a new version beside the cached ones - sync assigns the server's number
+      const cached = await offlineStore.getMessages(user.id, conversationId);
+      const siblingCount = cached.filter(
+        (cachedMessage) =>
+          cachedMessage.id !== message.id &&
+          (cachedMessage.parent_message_id ?? null) === parentMessageId
+      ).length;
+
+      await offlineStore.enqueue(user.id, { type: 'create_message', payload });
+      await offlineStore.upsertMessages(user.id, conversationId, [
+        {
+          ...payload,
+          model_used: null,
+          tokens_used: null,
+          response_time_ms: null,
+          tool_calls: [],
+          tool_results: [],
+          version: siblingCount + 1,
+        },
+      ]);
+    },
+    [conversationId, user?.id]
+  );
+
+  const sendOffline = (
+    content: string,
+    history: UIMessage[],
+    messageAttachments: ChatAttachment[] = []
+  ) => {
+    const message: UIMessage = {
+      id: Crypto.randomUUID(),
+      role: 'user',
+      content,
+      createdAt: new Date(),
+      parts: [{ type: 'text', text: content }],
+      ...(messageAttachments.length > 0 && { experimental_attachments: messageAttachments }),
+    };
+    setMessages([...history, message]);
+    setInput('');
+    queueMessage(message, history.at(-1)?.id ?? null);
+  };
+
+  useEffect(() => {
+    if (!hasUnsentMessage) return;
+    setHasUnsentMessage(false);
+
+    const lastMessage = messages.at(-1);
+    if (lastMessage?.role === 'user') {
+      queueMessage(lastMessage, messages.at(-2)?.id ?? null);
+    }
+  }, [hasUnsentMessage, messages, queueMessage]);
+
+  useEffect(() => {
+    if (!FEATURES.enableOfflineMode) return;
+    return subscribeToSync(setLastSync);
+  }, []);
+
+  // Ask for the reply to a queued message once it has reached the server
+  useEffect(() => {
+    if (!lastSync || isLoading) return;
+    setLastSync(null);
+
+    const lastMessage = messages.at(-1);
+    const wasSynced = lastSync.synced.some(
+      (operation) => operation.type === 'create_message' && operation.id === lastMessage?.id
+    );
+    if (lastMessage?.role === 'user' && wasSynced) {
+      reload({ body: { regenerate: true } });
+    }
+  }, [lastSync, isLoading, messages, reload]);
 
   // Reset initialization when conversation changes
   useEffect(() => {
     setIsInitialized(false);
+    setEditingMessageId(null);
+    setFocusedMessageId(null);
+    setSummarizedMessageCount(0);
   }, [conversationId]);
 
   const handleInputChange = (text: string) => {
@@ -66,8 +335,12 @@ export function useChatController(
     } as any);
   };
 
+  // Files can be sent without text, but not while they are still uploading
+  const canSend =
+    (!!input.trim() || attachments.readyAttachments.length > 0) && !attachments.uploading;
+
   const onSend = async () => {
-    if (!input.trim()) return;
+    if (!canSend) return;
 
     // The parent hook (useChatManager) is now responsible for creating the conversation.
     // This hook will only proceed if a conversationId is present.
@@ -79,22 +352,124 @@ export function useChatController(
     }
 
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    handleSubmit();
+    setFocusedMessageId(null);
+
+    if (editingMessageId) {
+      submitEdit(editingMessageId);
+      return;
+    }
+
+    const { readyAttachments, clearAttachments } = attachments;
+    clearAttachments();
+
+    if (FEATURES.enableOfflineMode && !getIsOnline()) {
+      sendOffline(input.trim(), messages, readyAttachments);
+      return;
+    }
+
+    handleSubmit(undefined, {
+      experimental_attachments: readyAttachments,
+      allowEmptySubmit: readyAttachments.length > 0,
+    });
   };
 
+  const startEdit = (messageId: string) => {
+    const message = messages.find((msg) => msg.id === messageId);
+    if (!message || message.role !== 'user' || isLoading) return;
+
+    setEditingMessageId(messageId);
+    setInput(message.content);
+  };
+
+  const cancelEdit = () => {
+    setEditingMessageId(null);
+    setInput('');
+  };
+
+  // Send the edited text as a new version of the message. Everything after the
+  // edited message is dropped from view but stays in history as the previous branch.
+  const submitEdit = (messageId: string) => {
+    const index = messages.findIndex((msg) => msg.id === messageId);
+    const content = input.trim();
+    setEditingMessageId(null);
+    setInput('');
+
+    if (index === -1) return;
+
+    if (FEATURES.enableOfflineMode && !getIsOnline()) {
+      sendOffline(content, messages.slice(0, index));
+      return;
+    }
+
+    setMessages(messages.slice(0, index));
+    append({ role: 'user', content });
+  };
+
+  // Replace the last assistant reply - the previous reply stays available as a sibling version
+  const regenerate = () => {
+    if (isLoading || messages.at(-1)?.role !== 'assistant') return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    reload({ body: { regenerate: true } });
+  };
+
+  // Scroll-up pagination - prepends the older part of the visible branch
+  const loadOlderMessages = useCallback(async () => {
+    if (isLoading || !hasMoreMessages) return;
+    if (await loadMoreMessages()) {
+      setShouldExtendBranch(true);
+    }
+  }, [isLoading, hasMoreMessages, loadMoreMessages]);
+
+  const focusMessage = useCallback((targetConversationId: string, messageId: string) => {
+    setPendingFocus({ conversationId: targetConversationId, messageId });
+  }, []);
+
+  // Shown as an indicator when earlier history reaches the model only as a summary
+  const contextSummary = useMemo(() => {
+    const parsed = ContextSummarySchema.safeParse(conversation?.metadata?.context_summary);
+    const storedSummary = parsed.success ? parsed.data : null;
+    const messageCount = summarizedMessageCount || storedSummary?.messageCount || 0;
+    if (messageCount === 0) return null;
+    return { messageCount, text: storedSummary?.text ?? null };
+  }, [conversation, summarizedMessageCount]);
+
   const handleSuggestionPress = (suggestion: string) => {
     handleInputChange(suggestion);
   };
 
   return {
     messages,
-    error,
+    // Failed sends are queued while offline mode is on, so they are not shown as errors
+    error: FEATURES.enableOfflineMode && isNetworkError(error) ? undefined : error,
     input,
     isLoading: isLoading || conversationLoading,
     handleInputChange,
     onSend,
+    canSend,
     handleSuggestionPress,
     conversationId,
     isInitialized,
+    model,
+    setModel,
+    editingMessageId,
+    startEdit,
+    cancelEdit,
+    getBranchInfo,
+    switchBranch,
+    reload: regenerate,
+    stop,
+    focusMessage,
+    focusedMessageId,
+    hasMoreMessages,
+    loadingMore,
+    loadOlderMessages,
+    contextSummary,
+    getMessageAuthor,
+    viewers,
+    attachments: attachments.attachments,
+    pickImage: attachments.pickImage,
+    pickDocument: attachments.pickDocument,
+    removeAttachment: attachments.removeAttachment,
   };
 }
@@ -7,6 +7,7 @@ import { useState, useCallback, useEffect } from 'react';
 import { useAuth } from '@/features/auth/hooks/useAuth';
 import { useConversations } from './useConversations';
 import { useChatController } from './useChatController';
+import { useOfflineSync } from './useOfflineSync';
 
 export const useChatManager = () => {
   const { user } = useAuth();
@@ -19,27 +20,43 @@ export const useChatManager = () => {
     onConversationCreate: setCurrentConversationId,
   });
 
+  const { focusMessage } = chatController;
+  const offlineSync = useOfflineSync();
+
   const handleConversationSelect = useCallback((conversationId: string) => {
     setCurrentConversationId(conversationId);
     setNeedsConversation(false);
   }, []);
 
-  const handleNewConversation = useCallback(async () => {
-    if (!user?.id) return null;
+  // Open a conversation scrolled to one of its messages
+  const handleMessageSelect = useCallback(
+    (conversationId: string, messageId: string) => {
+      focusMessage(conversationId, messageId);
+      setCurrentConversationId(conversationId);
+      setNeedsConversation(false);
+    },
+    [focusMessage]
+  );
+
+  const handleNewConversation = useCallback(
+    async (personaId?: string) => {
+      if (!user?.id) return null;
 
-    try {
-      const newConversation = await createConversation();
-      if (newConversation) {
-        setCurrentConversationId(newConversation.id);
-        setNeedsConversation(false);
-        return newConversation.id;
+      try {
+        const newConversation = await createConversation(undefined, personaId);
+        if (newConversation) {
+          setCurrentConversationId(newConversation.id);
+          setNeedsConversation(false);
+          return newConversation.id;
+        }
+        return null;
+      } catch (error) {
+        console.error('Failed to create new conversation:', error);
+        return null;
       }
-      return null;
-    } catch (error) {
-      console.error('Failed to create new conversation:', error);
-      return null;
-    }
-  }, [user?.id, createConversation]);
+    },
+    [user?.id, createConversation]
+  );
 
   const handleSendMessage = useCallback(async () => {
     // If no conversation exists, create one
@@ -60,7 +77,7 @@ export const useChatManager = () => {
 
   // Auto-send when conversation is created and we need to send a message
   useEffect(() => {
-    if (needsConversation && currentConversationId && chatController.input.trim()) {
+    if (needsConversation && currentConversationId && chatController.canSend) {
       setNeedsConversation(false);
       chatController.onSend();
     }
@@ -71,6 +88,8 @@ export const useChatManager = () => {
     onSend: handleSendMessage,
     currentConversationId,
     handleConversationSelect,
+    handleMessageSelect,
     handleNewConversation,
+    offlineSync,
   };
 };
@@ -3,15 +3,33 @@
  * Manages individual conversation state and messages
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { db, type Conversation, type Message } from '@/lib/supabase';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { db, realtime, type Conversation, type Message } from '@/lib/supabase';
 import { useAuth } from '@/features/auth/hooks/useAuth';
+import { config } from '@/config';
+import { FEATURES } from '@/config/features';
+import {
+  offlineStore,
+  getIsOnline,
+  setOnline,
+  isNetworkError,
+  subscribeToSync,
+} from '@/lib/offline';
+import type { ConversationSettings } from '@/types/api';
+import { buildMessageTree, toTreeNodes, type MessageTree } from '../utils';
 
 interface UseConversationReturn {
   conversation: Conversation | null;
+  /** Loaded messages, oldest first - older pages are added by `loadMoreMessages` */
   messages: Message[];
+  /** Branch structure of `messages` - edits are siblings under the same parent */
+  messageTree: MessageTree;
   loading: boolean;
   error: Error | null;
+  hasMoreMessages: boolean;
+  loadingMore: boolean;
+  /** Load the previous `config.ui.messagesPerPage` messages */
+  loadMoreMessages: () => Promise<boolean>;
   refetch: () => Promise<void>;
   addMessage: (
     content: string,
@@ -21,19 +39,38 @@ interface UseConversationReturn {
   updateMessage: (messageId: string, updates: Partial<Message>) => Promise<boolean>;
   deleteMessage: (messageId: string) => Promise<boolean>;
   generateTitle: () => Promise<string | null>;
+  updateSettings: (settings: ConversationSettings) => Promise<boolean>;
 }
 
 export const useConversation = (conversationId: string | null): UseConversationReturn => {
   const [conversation, setConversation] = useState<Conversation | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const { user } = useAuth();
+  const pageSize = config.ui.messagesPerPage;
+
+  // Show the device mirror, including messages queued while offline
+  const loadCachedConversation = useCallback(async () => {
+    if (!conversationId || !user?.id) return;
+
+    const [cachedConversations, cachedMessages] = await Promise.all([
+      offlineStore.getConversations(user.id),
+      offlineStore.getMessages(user.id, conversationId),
+    ]);
+
+    setConversation(cachedConversations.find((conv) => conv.id === conversationId) ?? null);
+    setMessages(cachedMessages);
+    setHasMoreMessages(false);
+  }, [conversationId, user?.id]);
 
   const fetchConversation = useCallback(async () => {
     if (!conversationId) {
       setConversation(null);
       setMessages([]);
+      setHasMoreMessages(false);
       setLoading(false);
       return;
     }
@@ -42,10 +79,22 @@ export const useConversation = (conversationId: string | null): UseConversationR
       setLoading(true);
       setError(null);
 
-      // Fetch conversation details and messages in parallel
+      if (FEATURES.enableOfflineMode && user?.id) {
+        // A conversation created offline does not exist on the server until it syncs
+        const queue = await offlineStore.getQueue(user.id);
+        const isPending = queue.some(
+          (operation) => operation.type === 'create_conversation' && operation.id === conversationId
+        );
+        if (isPending || !getIsOnline()) {
+          await loadCachedConversation();
+          return;
+        }
+      }
+
+      // Fetch conversation details and the newest page of messages in parallel
       const [conversationResult, messagesResult] = await Promise.all([
         db.getConversation(conversationId),
-        db.getMessages(conversationId),
+        db.getMessages(conversationId, { limit: pageSize }),
       ]);
 
       if (conversationResult.error) {
@@ -58,18 +107,98 @@ export const useConversation = (conversationId: string | null): UseConversationR
 
       setConversation(conversationResult.data);
       setMessages(messagesResult.data || []);
+      setHasMoreMessages((messagesResult.data?.length ?? 0) === pageSize);
+
+      if (FEATURES.enableOfflineMode && user?.id && messagesResult.data) {
+        await offlineStore.upsertMessages(user.id, conversationId, messagesResult.data);
+      }
     } catch (err) {
+      if (FEATURES.enableOfflineMode && isNetworkError(err)) {
+        setOnline(false);
+        await loadCachedConversation();
+        return;
+      }
+
       console.error('Error fetching conversation:', err);
       setError(err instanceof Error ? err : new Error('Failed to fetch conversation'));
     } finally {
       setLoading(false);
     }
-  }, [conversationId]);
+  }, [conversationId, pageSize, user?.id, loadCachedConversation]);
 
   useEffect(() => {
     fetchConversation();
   }, [fetchConversation]);
 
+  // Messages saved from other devices, or by the server for this one, arrive here
+  useEffect(() => {
+    if (!FEATURES.enableRealtime || !conversationId) return;
+
+    const channel = realtime.subscribeToMessages(conversationId, (payload) => {
+      if (payload.eventType === 'DELETE') {
+        setMessages((prev) => prev.filter((msg) => msg.id !== payload.old.id));
+        return;
+      }
+
+      const changed = payload.new;
+      setMessages((prev) =>
+        prev.some((msg) => msg.id === changed.id)
+          ? prev.map((msg) => (msg.id === changed.id ? changed : msg))
+          : [...prev, changed]
+      );
+    });
+    return () => realtime.unsubscribe(channel);
+  }, [conversationId]);
+
+  // Reload from the server once queued writes for this conversation are replayed
+  useEffect(() => {
+    if (!FEATURES.enableOfflineMode || !conversationId) return;
+    return subscribeToSync(({ synced }) => {
+      const touchesConversation = synced.some((operation) =>
+        operation.type === 'create_conversation'
+          ? operation.id === conversationId
+          : operation.payload.conversation_id === conversationId
+      );
+      if (touchesConversation) {
+        fetchConversation();
+      }
+    });
+  }, [conversationId, fetchConversation]);
+
+  const loadMoreMessages = useCallback(async (): Promise<boolean> => {
+    const oldestMessage = messages[0];
+    if (!conversationId || !oldestMessage || !hasMoreMessages || loadingMore) {
+      return false;
+    }
+
+    try {
+      setLoadingMore(true);
+
+      const { data, error: fetchError } = await db.getMessages(conversationId, {
+        limit: pageSize,
+        before: { createdAt: oldestMessage.created_at, id: oldestMessage.id },
+      });
+
+      if (fetchError) {
+        throw new Error(fetchError.message);
+      }
+
+      const olderMessages = data || [];
+      setMessages((prev) => {
+        const loadedIds = new Set(prev.map((msg) => msg.id));
+        return [...olderMessages.filter((msg) => !loadedIds.has(msg.id)), ...prev];
+      });
+      setHasMoreMessages(olderMessages.length === pageSize);
+      return olderMessages.length > 0;
+    } catch (err) {
+      console.error('Error loading older messages:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load older messages'));
+      return false;
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [conversationId, messages, hasMoreMessages, loadingMore, pageSize]);
+
   const addMessage = useCallback(
     async (
       content: string,
@@ -81,11 +210,14 @@ export const useConversation = (conversationId: string | null): UseConversationR
       }
 
       try {
+        // RLS only accepts user messages written as the signed-in user - assistant
+        // replies are saved by /api/chat
         const messageData = {
           conversation_id: conversationId,
           content,
           role,
           metadata,
+          user_id: user?.id ?? null,
         };
 
         const { data, error: createError } = await db.createMessage(messageData);
@@ -107,7 +239,7 @@ export const useConversation = (conversationId: string | null): UseConversationR
         return null;
       }
     },
-    [conversationId]
+    [conversationId, user?.id]
   );
 
   const updateMessage = useCallback(
@@ -177,6 +309,40 @@ export const useConversation = (conversationId: string | null): UseConversationR
     }
   }, [conversationId, conversation]);
 
+  const updateSettings = useCallback(
+    async (settings: ConversationSettings): Promise<boolean> => {
+      if (!conversationId || !conversation) {
+        return false;
+      }
+
+      try {
+        // Merge into metadata so other keys are preserved
+        const metadata = {
+          ...conversation.metadata,
+          settings: { ...conversation.metadata?.settings, ...settings },
+        };
+
+        const { data, error: updateError } = await db.updateConversation(conversationId, {
+          metadata,
+        });
+
+        if (updateError) {
+          throw new Error(updateError.message);
+        }
+
+        setConversation((prev) => (data ? data : prev ? { ...prev, metadata } : null));
+        return true;
+      } catch (err) {
+        console.error('Error updating conversation settings:', err);
+        setError(err instanceof Error ? err : new Error('Failed to update conversation settings'));
+        return false;
+      }
+    },
+    [conversationId, conversation]
+  );
+
+  const messageTree = useMemo(() => buildMessageTree(toTreeNodes(messages)), [messages]);
+
   const refetch = useCallback(async () => {
     await fetchConversation();
   }, [fetchConversation]);
@@ -184,12 +350,17 @@ export const useConversation = (conversationId: string | null): UseConversationR
   return {
     conversation,
     messages,
+    messageTree,
     loading,
     error,
+    hasMoreMessages,
+    loadingMore,
+    loadMoreMessages,
     refetch,
     addMessage,
     updateMessage,
     deleteMessage,
     generateTitle,
+    updateSettings,
   };
 };
@@ -5,6 +5,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { db } from '@/lib/supabase';
+import { normalizeModelId } from '@/config/models';
 import { useAuth } from '@/features/auth/hooks/useAuth';
 
 export interface ConversationStats {
@@ -94,8 +95,9 @@ export const useConversationAnalytics = (): UseConversationAnalyticsReturn => {
       const modelStats = new Map<string, { count: number; tokens: number }>();
       allMessages.forEach((msg) => {
         if (msg.model_used) {
-          const existing = modelStats.get(msg.model_used) || { count: 0, tokens: 0 };
-          modelStats.set(msg.model_used, {
+          const model = normalizeModelId(msg.model_used);
+          const existing = modelStats.get(model) || { count: 0, tokens: 0 };
+          modelStats.set(model, {
             count: existing.count + 1,
             tokens: existing.tokens + (msg.tokens_used || 0),
           });
@@ -163,7 +165,8 @@ export const useConversationAnalytics = (): UseConversationAnalyticsReturn => {
 
           const modelsUsed = messages
             .map((m) => m.model_used)
-            .filter((model): model is string => typeof model === 'string') as string[];
+            .filter((model): model is string => typeof model === 'string')
+            .map(normalizeModelId);
 
           return {
             id: conversation.id,
@@ -226,7 +229,8 @@ export const useConversationAnalytics = (): UseConversationAnalyticsReturn => {
 
         const modelsUsed = messages
           .map((m) => m.model_used)
-          .filter((model): model is string => typeof model === 'string') as string[];
+          .filter((model): model is string => typeof model === 'string')
+          .map(normalizeModelId);
 
         return {
           id: conversation.id,
@@ -0,0 +1,45 @@
+/**
+ * useConversationPresence Hook
+ * Announces the current user in a conversation and lists the others viewing it
+ */
+
+import { useState, useEffect } from 'react';
+import { realtime, type ConversationViewer } from '@/lib/supabase';
+import { useAuth } from '@/features/auth/hooks/useAuth';
+
+interface UseConversationPresenceReturn {
+  /** Other users with the conversation open, excluding the current user */
+  viewers: ConversationViewer[];
+}
+
+export const useConversationPresence = (
+  conversationId: string | null,
+  enabled: boolean
+): UseConversationPresenceReturn => {
+  const [viewers, setViewers] = useState<ConversationViewer[]>([]);
+  const { user, profile } = useAuth();
+
+  const name = profile?.full_name || profile?.username || user?.email || 'Someone';
+  const avatarUrl = profile?.avatar_url ?? null;
+
+  useEffect(() => {
+    setViewers([]);
+    if (!enabled || !conversationId || !user?.id) return;
+
+    const channel = realtime.joinConversationPresence(
+      conversationId,
+      {
+        user_id: user.id,
+        name,
+        avatar_url: avatarUrl,
+        online_at: new Date().toISOString(),
+      },
+      (present) => setViewers(present.filter((viewer) => viewer.user_id !== user.id))
+    );
+    return () => realtime.unsubscribe(channel);
+  }, [enabled, conversationId, user?.id, name, avatarUrl]);
+
+  return {
+    viewers,
+  };
+};
@@ -4,8 +4,15 @@
  */
 
 import { useState, useCallback } from 'react';
-import { db, type ConversationShare } from '@/lib/supabase';
+import {
+  db,
+  type ConversationShare,
+  type ConversationShareEvent,
+  type ShareParticipant,
+  type SharedConversationSummary,
+} from '@/lib/supabase';
 import { useAuth } from '@/features/auth/hooks/useAuth';
+import { SharePermissionsSchema } from '@/types/api';
 
 interface ShareConversationParams {
   conversationId: string;
@@ -18,11 +25,19 @@ interface UseConversationSharingReturn {
   loading: boolean;
   error: Error | null;
   shareConversation: (params: ShareConversationParams) => Promise<ConversationShare | null>;
-  getSharedConversations: () => Promise<ConversationShare[]>;
+  getSharedConversations: () => Promise<SharedConversationSummary[]>;
   getConversationShares: (conversationId: string) => Promise<ConversationShare[]>;
   removeShare: (shareId: string) => Promise<boolean>;
   updateSharePermissions: (shareId: string, permissions: string[]) => Promise<boolean>;
-  generateShareLink: (conversationId: string, expiresInDays?: number) => Promise<string | null>;
+  getShareHistory: (conversationId: string) => Promise<ConversationShareEvent[]>;
+  getShareParticipants: (userIds: string[]) => Promise<Record<string, ShareParticipant>>;
+  findUserByEmail: (email: string) => Promise<ShareParticipant | null>;
+  forkConversation: (conversationId: string, shareToken?: string) => Promise<string | null>;
+  generateShareLink: (
+    conversationId: string,
+    expiresInDays?: number,
+    permissions?: string[]
+  ) => Promise<string | null>;
   validateShareAccess: (shareToken: string) => Promise<boolean>;
 }
 
@@ -51,6 +66,12 @@ export const useConversationSharing = (): UseConversationSharingReturn => {
 
         const { data, error: shareError } = await db.shareConversation(shareData);
 
+        // insufficient_privilege - sharing requires two-factor, see 013_mfa_recovery_codes.sql
+        if (shareError && 'code' in shareError && shareError.code === '42501') {
+          throw new Error(
+            'Turn on two-factor authentication in Security settings to share conversations'
+          );
+        }
         if (shareError) {
           throw new Error(shareError.message);
         }
@@ -67,7 +88,7 @@ export const useConversationSharing = (): UseConversationSharingReturn => {
     [user?.id]
   );
 
-  const getSharedConversations = useCallback(async (): Promise<ConversationShare[]> => {
+  const getSharedConversations = useCallback(async (): Promise<SharedConversationSummary[]> => {
     if (!user?.id) {
       return [];
     }
@@ -143,13 +164,20 @@ export const useConversationSharing = (): UseConversationSharingReturn => {
         setLoading(true);
         setError(null);
 
-        // We need to implement an update method in the db helpers
-        // For now, we'll use the existing removeShare and recreate
-        // This is a simplified implementation
-        console.warn(
-          'updateSharePermissions not fully implemented - consider removing and recreating share'
-        );
-        return false;
+        const parsed = SharePermissionsSchema.safeParse(permissions);
+        if (!parsed.success) {
+          throw new Error(`Invalid share permissions: ${permissions.join(', ')}`);
+        }
+
+        const { error: updateError } = await db.updateConversationShare(shareId, {
+          permissions: parsed.data,
+        });
+
+        if (updateError) {
+          throw new Error(updateError.message);
+        }
+
+        return true;
       } catch (err) {
         console.error('Error updating share permissions:', err);
         setError(err instanceof Error ? err : new Error('Failed to update share permissions'));
@@ -161,8 +189,98 @@ export const useConversationSharing = (): UseConversationSharingReturn => {
     []
   );
 
+  const getShareHistory = useCallback(
+    async (conversationId: string): Promise<ConversationShareEvent[]> => {
+      try {
+        const { data, error: fetchError } = await db.getConversationShareEvents(conversationId);
+
+        if (fetchError) {
+          throw new Error(fetchError.message);
+        }
+
+        return data || [];
+      } catch (err) {
+        console.error('Error fetching share history:', err);
+        setError(err instanceof Error ? err : new Error('Failed to fetch share history'));
+        return [];
+      }
+    },
+    []
+  );
+
+  const getShareParticipants = useCallback(
+    async (userIds: string[]): Promise<Record<string, ShareParticipant>> => {
+      const uniqueIds = [...new Set(userIds)];
+      if (uniqueIds.length === 0) {
+        return {};
+      }
+
+      try {
+        const { data, error: fetchError } = await db.getProfilesByIds(uniqueIds);
+
+        if (fetchError) {
+          throw new Error(fetchError.message);
+        }
+
+        return Object.fromEntries((data || []).map((profile) => [profile.id, profile]));
+      } catch (err) {
+        console.error('Error fetching share participants:', err);
+        return {};
+      }
+    },
+    []
+  );
+
+  const findUserByEmail = useCallback(async (email: string): Promise<ShareParticipant | null> => {
+    try {
+      const { data, error: fetchError } = await db.getProfileByEmail(email.trim());
+
+      if (fetchError) {
+        throw new Error(fetchError.message);
+      }
+
+      return data;
+    } catch (err) {
+      console.error('Error looking up user:', err);
+      setError(err instanceof Error ? err : new Error('Failed to look up user'));
+      return null;
+    }
+  }, []);
+
+  const forkConversation = useCallback(
+    async (conversationId: string, shareToken?: string): Promise<string | null> => {
+      if (!user?.id) {
+        throw new Error('User not authenticated');
+      }
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const { data, error: forkError } = await db.forkConversation(conversationId, shareToken);
+
+        if (forkError) {
+          throw new Error(forkError.message);
+        }
+
+        return data;
+      } catch (err) {
+        console.error('Error forking conversation:', err);
+        setError(err instanceof Error ? err : new Error('Failed to fork conversation'));
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [user?.id]
+  );
+
   const generateShareLink = useCallback(
-    async (conversationId: string, expiresInDays = 7): Promise<string | null> => {
+    async (
+      conversationId: string,
+      expiresInDays = 7,
+      permissions: string[] = ['read']
+    ): Promise<string | null> => {
       try {
         // First get the conversation to get its share token
         const { data: conversation } = await db.getConversation(conversationId);
@@ -175,13 +293,18 @@ export const useConversationSharing = (): UseConversationSharingReturn => {
         const expiresAt = new Date();
         expiresAt.setDate(expiresAt.getDate() + expiresInDays);
 
-        await shareConversation({
+        const share = await shareConversation({
           conversationId,
           sharedWith: undefined, // null for public share
-          permissions: ['read'],
+          permissions,
           expiresAt: expiresAt.toISOString(),
         });
 
+        // shareConversation has already set the error
+        if (!share) {
+          return null;
+        }
+
         // Generate the share link using the conversation's share_token
         const baseUrl = process.env.EXPO_PUBLIC_APP_URL || 'https://your-app.com';
         return `${baseUrl}/shared/${conversation.share_token}`;
@@ -196,10 +319,14 @@ export const useConversationSharing = (): UseConversationSharingReturn => {
 
   const validateShareAccess = useCallback(async (shareToken: string): Promise<boolean> => {
     try {
-      // This would typically involve a database query to check if the share token is valid
-      // and not expired. For now, we'll return true as a placeholder
-      console.log('Validating share access for token:', shareToken);
-      return true;
+      // Checks the token, expiry and read permission server-side
+      const { data, error: validateError } = await db.getSharedConversation(shareToken);
+
+      if (validateError) {
+        throw new Error(validateError.message);
+      }
+
+      return data?.status === 'ok';
     } catch (err) {
       console.error('Error validating share access:', err);
       return false;
@@ -214,6 +341,10 @@ export const useConversationSharing = (): UseConversationSharingReturn => {
     getConversationShares,
     removeShare,
     updateSharePermissions,
+    getShareHistory,
+    getShareParticipants,
+    findUserByEmail,
+    forkConversation,
     generateShareLink,
     validateShareAccess,
   };
@@ -4,21 +4,80 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import { db, type ConversationSummary } from '@/lib/supabase';
+import * as Crypto from 'expo-crypto';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import {
+  db,
+  realtime,
+  type Conversation,
+  type ConversationSummary,
+  type Database,
+} from '@/lib/supabase';
 import { useAuth } from '@/features/auth/hooks/useAuth';
+import { FEATURES } from '@/config/features';
+import { DEFAULT_PERSONA_ID, getPersona } from '@/config/personas';
+import {
+  offlineStore,
+  getIsOnline,
+  setOnline,
+  isNetworkError,
+  subscribeToSync,
+} from '@/lib/offline';
 
 interface UseConversationsReturn {
   conversations: ConversationSummary[];
   loading: boolean;
   error: Error | null;
   refetch: () => Promise<void>;
-  createConversation: (title?: string) => Promise<ConversationSummary | null>;
+  createConversation: (title?: string, personaId?: string) => Promise<ConversationSummary | null>;
   deleteConversation: (id: string) => Promise<boolean>;
   archiveConversation: (id: string) => Promise<boolean>;
   restoreConversation: (id: string) => Promise<boolean>;
   updateConversationTitle: (id: string, title: string) => Promise<boolean>;
 }
 
+type ConversationInsert = Database['public']['Tables']['conversations']['Insert'];
+
+/**
+ * Apply a realtime change to the list, keeping it ordered by `updated_at` like `db.getConversations`
+ */
+const applyConversationChange = (
+  conversations: ConversationSummary[],
+  payload: RealtimePostgresChangesPayload<Conversation>
+): ConversationSummary[] => {
+  if (payload.eventType === 'DELETE') {
+    return conversations.filter((conv) => conv.id !== payload.old.id);
+  }
+
+  const changed = payload.new;
+  const others = conversations.filter((conv) => conv.id !== changed.id);
+  // Archived conversations leave the list, restored ones come back
+  if (changed.status !== 'active') return others;
+
+  const existing = conversations.find((conv) => conv.id === changed.id);
+  const summary: ConversationSummary = existing
+    ? { ...existing, ...changed }
+    : { ...changed, message_count: 0, last_message_at: null, last_message_preview: null };
+
+  return [summary, ...others].sort(
+    (a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
+  );
+};
+
+/**
+ * Conversations created offline that have not reached the server yet
+ */
+const getPendingConversations = async (userId: string): Promise<ConversationSummary[]> => {
+  const queue = await offlineStore.getQueue(userId);
+  const pendingIds = new Set(
+    queue.filter((operation) => operation.type === 'create_conversation').map((op) => op.id)
+  );
+  if (pendingIds.size === 0) return [];
+
+  const cached = await offlineStore.getConversations(userId);
+  return cached.filter((conversation) => pendingIds.has(conversation.id));
+};
+
 export const useConversations = (): UseConversationsReturn => {
   const [conversations, setConversations] = useState<ConversationSummary[]>([]);
   const [loading, setLoading] = useState(true);
@@ -42,8 +101,27 @@ export const useConversations = (): UseConversationsReturn => {
         throw new Error(fetchError.message);
       }
 
+      if (FEATURES.enableOfflineMode) {
+        // Keep unsynced local conversations listed and refresh the device mirror
+        const fetched = data || [];
+        const fetchedIds = new Set(fetched.map((conv) => conv.id));
+        const pending = (await getPendingConversations(user.id)).filter(
+          (conv) => !fetchedIds.has(conv.id)
+        );
+        const merged = [...pending, ...fetched];
+        setConversations(merged);
+        await offlineStore.saveConversations(user.id, merged);
+        return;
+      }
+
       setConversations(data || []);
     } catch (err) {
+      if (FEATURES.enableOfflineMode && isNetworkError(err)) {
+        setOnline(false);
+        setConversations(await offlineStore.getConversations(user.id));
+        return;
+      }
+
       console.error('Error fetching conversations:', err);
       setError(err instanceof Error ? err : new Error('Failed to fetch conversations'));
     } finally {
@@ -55,21 +133,92 @@ export const useConversations = (): UseConversationsReturn => {
     fetchConversations();
   }, [fetchConversations]);
 
+  // Show conversations created, renamed or continued on other devices
+  useEffect(() => {
+    if (!FEATURES.enableRealtime || !user?.id) return;
+
+    const channel = realtime.subscribeToConversations(user.id, (payload) => {
+      setConversations((prev) => applyConversationChange(prev, payload));
+    });
+    return () => realtime.unsubscribe(channel);
+  }, [user?.id]);
+
+  // Pick up server ids and counts once queued writes are replayed
+  useEffect(() => {
+    if (!FEATURES.enableOfflineMode) return;
+    return subscribeToSync(() => {
+      fetchConversations();
+    });
+  }, [fetchConversations]);
+
+  // Create the conversation on the device and queue it for the server
+  const createLocalConversation = useCallback(
+    async (conversationData: ConversationInsert): Promise<ConversationSummary> => {
+      const now = new Date().toISOString();
+      const payload = {
+        ...conversationData,
+        id: Crypto.randomUUID(),
+        created_at: now,
+        updated_at: now,
+      };
+
+      await offlineStore.enqueue(payload.user_id, { type: 'create_conversation', payload });
+
+      const localConversation: ConversationSummary = {
+        id: payload.id,
+        user_id: payload.user_id,
+        title: payload.title,
+        status: 'active',
+        is_shared: false,
+        share_token: '',
+        archived_at: null,
+        created_at: now,
+        updated_at: now,
+        metadata: payload.metadata ?? {},
+        message_count: 0,
+        last_message_at: null,
+        last_message_preview: null,
+      };
+
+      setConversations((prev) => {
+        const updated = [localConversation, ...prev];
+        offlineStore.saveConversations(payload.user_id, updated);
+        return updated;
+      });
+      return localConversation;
+    },
+    []
+  );
+
   const createConversation = useCallback(
-    async (title = 'New Conversation'): Promise<ConversationSummary | null> => {
+    async (
+      title = 'New Conversation',
+      personaId = DEFAULT_PERSONA_ID
+    ): Promise<ConversationSummary | null> => {
       if (!user?.id) {
         throw new Error('User not authenticated');
       }
 
+      if (!getPersona(personaId)) {
+        throw new Error(`Unknown persona: ${personaId}`);
+      }
+
+      const conversationData: ConversationInsert = {
+        user_id: user.id,
+        title,
+        metadata: {
+          created_from: 'chat_interface',
+          version: '1.0',
+          persona_id: personaId,
+        },
+      };
+
+      if (FEATURES.enableOfflineMode && !getIsOnline()) {
+        return createLocalConversation(conversationData);
+      }
+
       try {
-        const { data, error: createError } = await db.createConversation({
-          user_id: user.id,
-          title,
-          metadata: {
-            created_from: 'chat_interface',
-            version: '1.0',
-          },
-        });
+        const { data, error: createError } = await db.createConversation(conversationData);
 
         if (createError) {
           throw new Error(createError.message);
@@ -83,12 +232,17 @@ export const useConversations = (): UseConversationsReturn => {
 
         return null;
       } catch (err) {
+        if (FEATURES.enableOfflineMode && isNetworkError(err)) {
+          setOnline(false);
+          return createLocalConversation(conversationData);
+        }
+
         console.error('Error creating conversation:', err);
         setError(err instanceof Error ? err : new Error('Failed to create conversation'));
         return null;
       }
     },
-    [user?.id, fetchConversations]
+    [user?.id, fetchConversations, createLocalConversation]
   );
 
   const deleteConversation = useCallback(async (id: string): Promise<boolean> => {
@@ -0,0 +1,59 @@
+/**
+ * useMessageAuthors Hook
+ * Loads the profiles of everyone who wrote a message in a collaborative conversation
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { db, type Message, type ShareParticipant } from '@/lib/supabase';
+
+interface UseMessageAuthorsReturn {
+  /** Profiles by user id */
+  authors: Record<string, ShareParticipant>;
+  /** Distinct authors of the loaded messages */
+  authorIds: string[];
+}
+
+export const useMessageAuthors = (messages: Message[]): UseMessageAuthorsReturn => {
+  const [authors, setAuthors] = useState<Record<string, ShareParticipant>>({});
+
+  const authorIds = useMemo(
+    () => [...new Set(messages.map((msg) => msg.user_id).filter((id): id is string => !!id))],
+    [messages]
+  );
+
+  useEffect(() => {
+    // Profiles are only fetched once per author
+    const missingIds = authorIds.filter((id) => !authors[id]);
+    if (missingIds.length === 0) return;
+
+    let cancelled = false;
+    const fetchAuthors = async () => {
+      try {
+        const { data, error: fetchError } = await db.getProfilesByIds(missingIds);
+
+        if (fetchError) {
+          throw new Error(fetchError.message);
+        }
+
+        if (!cancelled && data?.length) {
+          setAuthors((prev) => ({
+            ...prev,
+            ...Object.fromEntries(data.map((profile) => [profile.id, profile])),
+          }));
+        }
+      } catch (err) {
+        console.error('Error fetching message authors:', err);
+      }
+    };
+
+    fetchAuthors();
+    return () => {
+      cancelled = true;
+    };
+  }, [authorIds, authors]);
+
+  return {
+    authors,
+    authorIds,
+  };
+};
@@ -0,0 +1,131 @@
+/**
+ * useMessageBranches Hook
+ * Tracks alternative message versions and switches the visible branch of a conversation
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { UIMessage } from 'ai';
+import type { Message } from '@/lib/supabase';
+import type { BranchInfo } from '../types';
+import {
+  buildMessageTree,
+  getBranchPath,
+  getSiblingIds,
+  toUIMessage,
+  type MessageTree,
+} from '../utils';
+
+interface UseMessageBranchesProps {
+  conversationId: string | null;
+  /** Persisted tree from useConversation */
+  messageTree: MessageTree;
+  dbMessages: Message[];
+  /** Messages currently shown by useChat */
+  messages: UIMessage[];
+  isLoading: boolean;
+  setMessages: (messages: UIMessage[]) => void;
+}
+
+interface UseMessageBranchesReturn {
+  getBranchInfo: (messageId: string) => BranchInfo | null;
+  getBranchMessages: (messageId?: string) => UIMessage[];
+  switchBranch: (messageId: string, direction: -1 | 1) => void;
+}
+
+interface SessionMessage {
+  message: UIMessage;
+  parentId: string | null;
+}
+
+export const useMessageBranches = ({
+  conversationId,
+  messageTree,
+  dbMessages,
+  messages,
+  isLoading,
+  setMessages,
+}: UseMessageBranchesProps): UseMessageBranchesReturn => {
+  // Messages sent or received since the conversation was loaded - the persisted
+  // tree only includes them after the next fetch
+  const [sessionMessages, setSessionMessages] = useState<Record<string, SessionMessage>>({});
+
+  useEffect(() => {
+    setSessionMessages({});
+  }, [conversationId]);
+
+  useEffect(() => {
+    // Wait for streaming to finish so the final message id is recorded
+    if (isLoading) return;
+
+    setSessionMessages((prev) => {
+      const next = { ...prev };
+      messages.forEach((message, index) => {
+        next[message.id] = {
+          message,
+          parentId: index > 0 ? messages[index - 1].id : null,
+        };
+      });
+      return next;
+    });
+  }, [messages, isLoading]);
+
+  const dbMessagesById = useMemo(
+    () => Object.fromEntries(dbMessages.map((message) => [message.id, message])),
+    [dbMessages]
+  );
+
+  const tree = useMemo(
+    () =>
+      buildMessageTree([
+        ...Object.values(messageTree.nodes),
+        ...Object.entries(sessionMessages).map(([id, { message, parentId }]) => ({
+          id,
+          parentId,
+          // Assigned by the server - ordering falls back to createdAt
+          version: 0,
+          createdAt: message.createdAt?.getTime() ?? Date.now(),
+        })),
+      ]),
+    [messageTree, sessionMessages]
+  );
+
+  const getBranchInfo = useCallback(
+    (messageId: string): BranchInfo | null => {
+      const siblingIds = getSiblingIds(tree, messageId);
+      if (siblingIds.length < 2) return null;
+      return { index: siblingIds.indexOf(messageId), count: siblingIds.length };
+    },
+    [tree]
+  );
+
+  const getBranchMessages = useCallback(
+    (messageId?: string): UIMessage[] => {
+      return getBranchPath(tree, messageId)
+        .map((id) => {
+          if (sessionMessages[id]) return sessionMessages[id].message;
+          return dbMessagesById[id] ? toUIMessage(dbMessagesById[id]) : null;
+        })
+        .filter((message): message is UIMessage => message !== null);
+    },
+    [tree, sessionMessages, dbMessagesById]
+  );
+
+  const switchBranch = useCallback(
+    (messageId: string, direction: -1 | 1) => {
+      if (isLoading) return;
+
+      const siblingIds = getSiblingIds(tree, messageId);
+      const targetId = siblingIds[siblingIds.indexOf(messageId) + direction];
+      if (!targetId) return;
+
+      setMessages(getBranchMessages(targetId));
+    },
+    [tree, isLoading, getBranchMessages, setMessages]
+  );
+
+  return {
+    getBranchInfo,
+    getBranchMessages,
+    switchBranch,
+  };
+};
@@ -0,0 +1,91 @@
+/**
+ * useMessageSearch Hook
+ * Debounced full-text search across the user's conversations and messages
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { db, type MessageSearchResult } from '@/lib/supabase';
+import { useAuth } from '@/features/auth/hooks/useAuth';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+interface UseMessageSearchReturn {
+  query: string;
+  setQuery: (query: string) => void;
+  results: MessageSearchResult[];
+  loading: boolean;
+  error: Error | null;
+  /** True once the query is long enough to run a search */
+  isSearching: boolean;
+  clearSearch: () => void;
+}
+
+export const useMessageSearch = (limit = 20): UseMessageSearchReturn => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const { user } = useAuth();
+
+  const trimmedQuery = query.trim();
+  const isSearching = trimmedQuery.length >= MIN_QUERY_LENGTH;
+
+  useEffect(() => {
+    if (!user?.id || !isSearching) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        setError(null);
+
+        const { data, error: searchError } = await db.searchMessages(trimmedQuery, limit);
+
+        if (searchError) {
+          throw new Error(searchError.message);
+        }
+
+        if (!cancelled) {
+          setResults(data || []);
+        }
+      } catch (err) {
+        console.error('Error searching messages:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err : new Error('Failed to search messages'));
+          setResults([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [user?.id, trimmedQuery, isSearching, limit]);
+
+  const clearSearch = useCallback(() => {
+    setQuery('');
+    setResults([]);
+    setError(null);
+  }, []);
+
+  return {
+    query,
+    setQuery,
+    results,
+    loading,
+    error,
+    isSearching,
+    clearSearch,
+  };
+};
@@ -0,0 +1,104 @@
+/**
+ * useOfflineSync Hook
+ * Tracks connectivity and the offline write queue, and replays the queue when the backend is reachable
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { AppState } from 'react-native';
+import { FEATURES } from '@/config/features';
+import { useAuth } from '@/features/auth/hooks/useAuth';
+import {
+  offlineStore,
+  getIsOnline,
+  subscribeToConnectivity,
+  checkConnectivity,
+  replayQueue,
+} from '@/lib/offline';
+
+// How often the backend is probed while offline
+const RECONNECT_INTERVAL_MS = 15000;
+
+interface UseOfflineSyncReturn {
+  isOnline: boolean;
+  /** Queued writes waiting for the server */
+  pendingCount: number;
+  syncing: boolean;
+  sync: () => Promise<void>;
+}
+
+export const useOfflineSync = (): UseOfflineSyncReturn => {
+  const [isOnline, setIsOnline] = useState(getIsOnline);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  // Only the signed-in user's writes are replayed - the queue is kept per user
+  const sync = useCallback(async () => {
+    if (!FEATURES.enableOfflineMode || !userId || !getIsOnline()) return;
+
+    try {
+      setSyncing(true);
+      const { synced, dropped } = await replayQueue(userId);
+      if (synced.length > 0 || dropped.length > 0) {
+        console.log(`[OFFLINE] Synced ${synced.length}, dropped ${dropped.length}`);
+      }
+    } catch (err) {
+      console.error('Error syncing offline queue:', err);
+    } finally {
+      setSyncing(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!FEATURES.enableOfflineMode) return;
+    if (!userId) {
+      setPendingCount(0);
+      return;
+    }
+
+    offlineStore.getQueue(userId).then((queue) => setPendingCount(queue.length));
+    const unsubscribeQueue = offlineStore.subscribeToQueue(userId, (queue) =>
+      setPendingCount(queue.length)
+    );
+    const unsubscribeConnectivity = subscribeToConnectivity((online) => {
+      setIsOnline(online);
+      if (online) sync();
+    });
+
+    // Replay anything left over from a previous session
+    sync();
+
+    return () => {
+      unsubscribeQueue();
+      unsubscribeConnectivity();
+    };
+  }, [userId, sync]);
+
+  // Probe the backend until it is reachable again
+  useEffect(() => {
+    if (!FEATURES.enableOfflineMode || isOnline) return;
+
+    const interval = setInterval(checkConnectivity, RECONNECT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isOnline]);
+
+  // Returning to the foreground is a good moment to check
+  useEffect(() => {
+    if (!FEATURES.enableOfflineMode) return;
+
+    const subscription = AppState.addEventListener('change', async (state) => {
+      if (state === 'active' && (await checkConnectivity())) {
+        sync();
+      }
+    });
+    return () => subscription.remove();
+  }, [sync]);
+
+  return {
+    isOnline,
+    pendingCount,
+    syncing,
+    sync,
+  };
+};
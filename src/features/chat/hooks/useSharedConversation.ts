@@ -0,0 +1,87 @@
+/**
+ * useSharedConversation Hook
+ * Loads a read-only conversation from a public share link
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { UIMessage } from 'ai';
+import type { ErrorResponse, SharedConversationResponse } from '@/types/api';
+import { buildMessageTree, getBranchPath, toTreeNodes, toUIMessage } from '../utils';
+
+interface UseSharedConversationReturn {
+  sharedConversation: SharedConversationResponse | null;
+  /** Newest branch of the transcript */
+  messages: UIMessage[];
+  loading: boolean;
+  error: Error | null;
+  /** `not_found`, `expired`, `forbidden` or `server_error` when loading failed */
+  errorType: string | null;
+  refetch: () => Promise<void>;
+}
+
+export const useSharedConversation = (
+  shareToken: string | undefined
+): UseSharedConversationReturn => {
+  const [sharedConversation, setSharedConversation] = useState<SharedConversationResponse | null>(
+    null
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [errorType, setErrorType] = useState<string | null>(null);
+
+  const fetchSharedConversation = useCallback(async () => {
+    if (!shareToken) {
+      setSharedConversation(null);
+      setError(new Error('Missing share token'));
+      setErrorType('not_found');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setErrorType(null);
+
+      const response = await fetch(`/api/shared/${encodeURIComponent(shareToken)}`);
+
+      if (!response.ok) {
+        const { error: apiError } = (await response.json()) as ErrorResponse;
+        setErrorType(apiError.type);
+        throw new Error(apiError.message);
+      }
+
+      setSharedConversation((await response.json()) as SharedConversationResponse);
+    } catch (err) {
+      console.error('Error fetching shared conversation:', err);
+      setSharedConversation(null);
+      setErrorType((prev) => prev ?? 'server_error');
+      setError(err instanceof Error ? err : new Error('Failed to load shared conversation'));
+    } finally {
+      setLoading(false);
+    }
+  }, [shareToken]);
+
+  useEffect(() => {
+    fetchSharedConversation();
+  }, [fetchSharedConversation]);
+
+  const messages = useMemo(() => {
+    if (!sharedConversation) return [];
+
+    const byId = Object.fromEntries(
+      sharedConversation.messages.map((message) => [message.id, message])
+    );
+    const tree = buildMessageTree(toTreeNodes(sharedConversation.messages));
+    return getBranchPath(tree).map((id) => toUIMessage(byId[id]));
+  }, [sharedConversation]);
+
+  return {
+    sharedConversation,
+    messages,
+    loading,
+    error,
+    errorType,
+    refetch: fetchSharedConversation,
+  };
+};
@@ -0,0 +1,14 @@
+/**
+ * useSpeechPlayback Hook
+ * Access the chat's speech player from message controls
+ */
+
+import { createContext, useContext } from 'react';
+import type { SpeechPlayback } from '../types';
+
+export const SpeechPlaybackContext = createContext<SpeechPlayback | null>(null);
+
+/**
+ * Null outside a SpeechPlaybackContext provider, e.g. in read-only transcripts
+ */
+export const useSpeechPlayback = (): SpeechPlayback | null => useContext(SpeechPlaybackContext);
@@ -0,0 +1,134 @@
+/**
+ * useSpeechPlayer Hook
+ * Reads assistant messages aloud through /api/speech, one message at a time
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { UIMessage } from 'ai';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { setAudioModeAsync, useAudioPlayer, useAudioPlayerStatus } from 'expo-audio';
+import { useAuth } from '@/features/auth/hooks/useAuth';
+import type { SpeechPlayback } from '../types';
+import { loadSpeechAudio } from '../utils';
+
+const AUTO_READ_KEY = '@chat_auto_read';
+
+// How often playback progress is reported
+const STATUS_INTERVAL_MS = 250;
+
+interface UseSpeechPlayerProps {
+  messages: UIMessage[];
+  isLoading: boolean;
+}
+
+export const useSpeechPlayer = ({ messages, isLoading }: UseSpeechPlayerProps): SpeechPlayback => {
+  const player = useAudioPlayer(null, STATUS_INTERVAL_MS);
+  const status = useAudioPlayerStatus(player);
+  const [activeMessageId, setActiveMessageId] = useState<string | null>(null);
+  const [loadingMessageId, setLoadingMessageId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [errorMessageId, setErrorMessageId] = useState<string | null>(null);
+  const [autoRead, setAutoReadState] = useState(false);
+  const wasLoadingRef = useRef(isLoading);
+  const { session } = useAuth();
+  const accessToken = session?.access_token;
+
+  useEffect(() => {
+    AsyncStorage.getItem(AUTO_READ_KEY)
+      .then((value) => setAutoReadState(value === 'true'))
+      .catch((err) => console.error('Error loading auto-read setting:', err));
+  }, []);
+
+  const setAutoRead = useCallback((enabled: boolean) => {
+    setAutoReadState(enabled);
+    AsyncStorage.setItem(AUTO_READ_KEY, String(enabled)).catch((err) =>
+      console.error('Error saving auto-read setting:', err)
+    );
+  }, []);
+
+  const play = useCallback(
+    async (messageId: string) => {
+      try {
+        setLoadingMessageId(messageId);
+        setError(null);
+        setErrorMessageId(null);
+        player.pause();
+
+        const uri = await loadSpeechAudio(messageId, accessToken);
+        // Read aloud even when the ringer is switched off
+        await setAudioModeAsync({ playsInSilentMode: true });
+        player.replace({ uri });
+        player.play();
+        setActiveMessageId(messageId);
+      } catch (err) {
+        console.error('Error playing speech:', err);
+        setError(err instanceof Error ? err.message : 'Failed to play speech');
+        setErrorMessageId(messageId);
+        setActiveMessageId(null);
+      } finally {
+        setLoadingMessageId(null);
+      }
+    },
+    [player, accessToken]
+  );
+
+  const toggle = useCallback(
+    async (messageId: string) => {
+      if (messageId !== activeMessageId) {
+        await play(messageId);
+        return;
+      }
+
+      if (status.playing) {
+        player.pause();
+        return;
+      }
+
+      // Replay from the start once the end has been reached
+      if (status.didJustFinish || status.currentTime >= status.duration) {
+        await player.seekTo(0);
+      }
+      player.play();
+    },
+    [activeMessageId, play, player, status]
+  );
+
+  const seekTo = useCallback(
+    (seconds: number) => {
+      player.seekTo(Math.min(Math.max(seconds, 0), status.duration || 0));
+    },
+    [player, status.duration]
+  );
+
+  const stop = useCallback(() => {
+    player.pause();
+    setActiveMessageId(null);
+  }, [player]);
+
+  // Auto-read the reply once it has finished streaming
+  useEffect(() => {
+    const finished = wasLoadingRef.current && !isLoading;
+    wasLoadingRef.current = isLoading;
+    if (!finished || !autoRead) return;
+
+    const lastMessage = messages.at(-1);
+    if (lastMessage?.role === 'assistant' && lastMessage.content.trim()) {
+      play(lastMessage.id);
+    }
+  }, [isLoading, autoRead, messages, play]);
+
+  return {
+    activeMessageId,
+    loadingMessageId,
+    playing: status.playing,
+    currentTime: status.currentTime,
+    duration: status.duration,
+    error,
+    errorMessageId,
+    autoRead,
+    setAutoRead,
+    toggle,
+    seekTo,
+    stop,
+  };
+};
@@ -0,0 +1,156 @@
+/**
+ * useVoiceInput Hook
+ * Press-and-hold dictation - records while held, then transcribes through /api/transcribe
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import { Alert, Platform } from 'react-native';
+import {
+  RecordingPresets,
+  requestRecordingPermissionsAsync,
+  setAudioModeAsync,
+  useAudioRecorder,
+} from 'expo-audio';
+import * as Haptics from 'expo-haptics';
+import { TranscriptionResponseSchema } from '@/types/api';
+import { getAuthHeaders } from '@/lib/api/session';
+import { useAuth } from '@/features/auth/hooks/useAuth';
+import { readFileAsArrayBuffer } from '../utils';
+
+// Shorter presses are treated as taps rather than recordings
+const MIN_RECORDING_MS = 500;
+
+interface UseVoiceInputProps {
+  /** Called with the transcript of each recording */
+  onTranscript: (text: string) => void;
+  /** ISO-639-1 hint for the transcription provider */
+  language?: string;
+}
+
+interface UseVoiceInputReturn {
+  isRecording: boolean;
+  isTranscribing: boolean;
+  error: string | null;
+  startRecording: () => Promise<void>;
+  stopRecording: () => Promise<void>;
+}
+
+export const useVoiceInput = ({
+  onTranscript,
+  language,
+}: UseVoiceInputProps): UseVoiceInputReturn => {
+  const recorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
+  const { session } = useAuth();
+  const accessToken = session?.access_token;
+  const [isRecording, setIsRecording] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onTranscriptRef = useRef(onTranscript);
+  onTranscriptRef.current = onTranscript;
+  const startedAtRef = useRef<number | null>(null);
+  // Set when the button is released before recording has started
+  const releasedRef = useRef(false);
+
+  const transcribe = useCallback(
+    async (uri: string) => {
+      try {
+        setIsTranscribing(true);
+        setError(null);
+
+        // Web records webm, iOS and Android record AAC in an MPEG-4 container
+        const mimeType = Platform.OS === 'web' ? 'audio/webm' : 'audio/mp4';
+        const query = language ? `?language=${encodeURIComponent(language)}` : '';
+        const response = await fetch(`/api/transcribe${query}`, {
+          method: 'POST',
+          headers: { 'Content-Type': mimeType, ...getAuthHeaders(accessToken) },
+          body: await readFileAsArrayBuffer(uri),
+        });
+        const body = await response.json();
+
+        if (!response.ok) {
+          throw new Error(body?.error?.message ?? 'Failed to transcribe audio');
+        }
+
+        const { text } = TranscriptionResponseSchema.parse(body);
+        if (text.trim()) {
+          onTranscriptRef.current(text.trim());
+        }
+      } catch (err) {
+        console.error('Error transcribing recording:', err);
+        setError(err instanceof Error ? err.message : 'Failed to transcribe audio');
+      } finally {
+        setIsTranscribing(false);
+      }
+    },
+    [language, accessToken]
+  );
+
+  const stopRecording = useCallback(async () => {
+    if (startedAtRef.current === null) {
+      releasedRef.current = true;
+      return;
+    }
+
+    const duration = Date.now() - startedAtRef.current;
+    startedAtRef.current = null;
+    setIsRecording(false);
+
+    try {
+      await recorder.stop();
+      await setAudioModeAsync({ allowsRecording: false });
+    } catch (err) {
+      console.error('Error stopping recording:', err);
+      return;
+    }
+
+    if (duration < MIN_RECORDING_MS) {
+      setError('Hold the microphone button to record');
+      return;
+    }
+
+    if (recorder.uri) {
+      await transcribe(recorder.uri);
+    }
+  }, [recorder, transcribe]);
+
+  const startRecording = useCallback(async () => {
+    if (startedAtRef.current !== null || isTranscribing) return;
+    releasedRef.current = false;
+
+    try {
+      const { granted } = await requestRecordingPermissionsAsync();
+      if (!granted) {
+        Alert.alert(
+          'Microphone Access',
+          'Allow microphone access in Settings to dictate messages.'
+        );
+        return;
+      }
+
+      await setAudioModeAsync({ allowsRecording: true, playsInSilentMode: true });
+      await recorder.prepareToRecordAsync();
+      recorder.record();
+      startedAtRef.current = Date.now();
+      setIsRecording(true);
+      setError(null);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+      // Released while the permission prompt or recorder setup was still pending
+      if (releasedRef.current) {
+        await stopRecording();
+      }
+    } catch (err) {
+      console.error('Error starting recording:', err);
+      setError('Could not start recording');
+    }
+  }, [recorder, isTranscribing, stopRecording]);
+
+  return {
+    isRecording,
+    isTranscribing,
+    error,
+    startRecording,
+    stopRecording,
+  };
+};
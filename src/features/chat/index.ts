@@ -5,11 +5,15 @@ export { Chat } from './components/Chat';
 export { ChatHeader } from './components/ChatHeader';
 export { MessageList } from './components/MessageList';
 export { MessageBubble } from './components/MessageBubble';
+export { MessageActions } from './components/MessageActions';
+export { ToolInvocationCard } from './components/ToolInvocationCard';
 export { InputBar } from './components/InputBar';
 export { EmptyState } from './components/EmptyState';
 export { Avatar } from './components/Avatar';
 export { ConversationShareModal } from './components/ConversationShareModal';
 export { AnalyticsDashboard } from './components/AnalyticsDashboard';
+export { PersonaPickerModal } from './components/PersonaPickerModal';
+export { SharedConversation } from './components/SharedConversation';
 
 // Hooks
 export { useChatController } from './hooks/useChatController';
@@ -18,6 +22,8 @@ export { useConversations } from './hooks/useConversations';
 export { useConversation } from './hooks/useConversation';
 export { useConversationSharing } from './hooks/useConversationSharing';
 export { useConversationAnalytics } from './hooks/useConversationAnalytics';
+export { useMessageBranches } from './hooks/useMessageBranches';
+export { useSharedConversation } from './hooks/useSharedConversation';
 
 // Types
-export type { ChatMessage, ChatRole, ToolInvocation, SuggestionCard } from './types';
+export type { ChatMessage, ChatRole, BranchInfo, ToolInvocation, SuggestionCard } from './types';
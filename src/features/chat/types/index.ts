@@ -9,6 +9,52 @@ export interface ChatMessage extends UIMessage {
   timestamp?: Date;
 }
 
+/** Position of a message among its alternative versions, e.g. 2/3 */
+export interface BranchInfo {
+  index: number;
+  count: number;
+}
+
+/** Who wrote a user message in a collaborative conversation */
+export interface MessageAuthor {
+  name: string;
+  avatarUrl: string | null;
+}
+
+/** File picked for the next message - uploaded to storage as soon as it is picked */
+export interface PendingAttachment {
+  id: string;
+  name: string;
+  contentType: string;
+  /** Local file, used for previews while uploading */
+  uri: string;
+  status: 'uploading' | 'ready' | 'error';
+  /** Public storage URL once uploaded */
+  url?: string;
+}
+
+/** Read-aloud state shared by the speech controls on assistant messages */
+export interface SpeechPlayback {
+  /** Message loaded in the player, playing or paused */
+  activeMessageId: string | null;
+  /** Message whose audio is being synthesized */
+  loadingMessageId: string | null;
+  playing: boolean;
+  /** Seconds */
+  currentTime: number;
+  duration: number;
+  error: string | null;
+  /** Message whose audio failed to load */
+  errorMessageId: string | null;
+  /** Read each finished reply aloud */
+  autoRead: boolean;
+  setAutoRead: (enabled: boolean) => void;
+  /** Play a message, or pause and resume it if it is already loaded */
+  toggle: (messageId: string) => Promise<void>;
+  seekTo: (seconds: number) => void;
+  stop: () => void;
+}
+
 export interface ToolInvocation {
   toolName: string;
   state: 'pending' | 'result' | 'error';
@@ -0,0 +1,122 @@
+import type { UIMessage } from 'ai';
+import type { DocumentCitation } from '@/types/api';
+import {
+  getCitedCitations,
+  getMessageCitations,
+  linkCitations,
+  toCitationsAnnotation,
+} from '../citations';
+
+const makeCitation = (citation: number, overrides: Partial<DocumentCitation> = {}) => ({
+  citation,
+  chunkId: `chunk-${citation}`,
+  sourceName: 'handbook.pdf',
+  sourceUrl: 'https://test.supabase.co/storage/v1/object/public/chat-attachments/u/c/handbook.pdf',
+  chunkIndex: citation - 1,
+  content: `Excerpt ${citation}`,
+  ...overrides,
+});
+
+const makeMessage = (overrides: Partial<UIMessage> = {}): UIMessage => ({
+  id: 'message-1',
+  role: 'assistant',
+  content: '',
+  parts: [],
+  ...overrides,
+});
+
+const searchResult = (citations: DocumentCitation[]): UIMessage['parts'][number] => ({
+  type: 'tool-invocation',
+  toolInvocation: {
+    state: 'result',
+    toolCallId: `call-${citations.map((citation) => citation.citation).join('-')}`,
+    toolName: 'searchDocuments',
+    args: { query: 'refunds' },
+    result: {
+      query: 'refunds',
+      results: citations.map((citation) => ({ ...citation, similarity: 0.8 })),
+    },
+  },
+});
+
+describe('getMessageCitations', () => {
+  it('reads citations from saved message annotations', () => {
+    const message = makeMessage({
+      annotations: [toCitationsAnnotation([makeCitation(2), makeCitation(1)])],
+    });
+
+    expect(getMessageCitations(message)).toEqual([makeCitation(1), makeCitation(2)]);
+  });
+
+  it('reads citations from searchDocuments results without the similarity', () => {
+    const message = makeMessage({
+      parts: [searchResult([makeCitation(1)]), searchResult([makeCitation(1), makeCitation(2)])],
+    });
+
+    expect(getMessageCitations(message)).toEqual([makeCitation(1), makeCitation(2)]);
+  });
+
+  it('ignores other tools, pending calls and unrelated annotations', () => {
+    const message = makeMessage({
+      annotations: [{ conversationId: 'conversation-1' }],
+      parts: [
+        {
+          type: 'tool-invocation',
+          toolInvocation: {
+            state: 'result',
+            toolCallId: 'call-weather',
+            toolName: 'weather',
+            args: {},
+            result: { results: [makeCitation(1)] },
+          },
+        },
+        {
+          type: 'tool-invocation',
+          toolInvocation: {
+            state: 'call',
+            toolCallId: 'call-pending',
+            toolName: 'searchDocuments',
+            args: { query: 'refunds' },
+          },
+        },
+      ],
+    });
+
+    expect(getMessageCitations(message)).toEqual([]);
+  });
+});
+
+describe('getCitedCitations', () => {
+  const citations = [makeCitation(1), makeCitation(2), makeCitation(3)];
+
+  it('keeps only the citations referenced in the text', () => {
+    expect(getCitedCitations('Refunds take 30 days [3], or 14 [1][3].', citations)).toEqual([
+      makeCitation(1),
+      makeCitation(3),
+    ]);
+  });
+
+  it('skips markers that are already links', () => {
+    expect(getCitedCitations('See [2](https://example.com).', citations)).toEqual([]);
+  });
+});
+
+describe('linkCitations', () => {
+  const citations = [makeCitation(1), makeCitation(2)];
+
+  it('turns known markers into citation links', () => {
+    expect(linkCitations('Refunds take 30 days [1][2].', citations)).toBe(
+      'Refunds take 30 days [1](citation:1)[2](citation:2).'
+    );
+  });
+
+  it('leaves unknown markers and existing links alone', () => {
+    expect(linkCitations('Array [0] and [5], see [1](https://example.com).', citations)).toBe(
+      'Array [0] and [5], see [1](https://example.com).'
+    );
+  });
+
+  it('returns the text unchanged without citations', () => {
+    expect(linkCitations('Item [1]', [])).toBe('Item [1]');
+  });
+});
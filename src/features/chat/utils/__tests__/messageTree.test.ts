@@ -0,0 +1,137 @@
+import type { Message } from '@/lib/supabase';
+import {
+  buildMessageTree,
+  getBranchPath,
+  getLatestMessageId,
+  getSiblingIds,
+  toTreeNodes,
+  type MessageTreeNode,
+} from '../messageTree';
+
+type StoredMessage = Pick<Message, 'id' | 'created_at' | 'version' | 'parent_message_id'>;
+
+const makeMessage = (
+  id: string,
+  minute: number,
+  parentId: string | null,
+  version = 1
+): StoredMessage => ({
+  id,
+  created_at: new Date(Date.UTC(2025, 0, 1, 12, minute)).toISOString(),
+  version,
+  parent_message_id: parentId,
+});
+
+const makeNode = (
+  id: string,
+  createdAt: number,
+  parentId: string | null,
+  version = 1
+): MessageTreeNode => ({ id, parentId, version, createdAt });
+
+/**
+ * u1 ─ a1 ─ u2 ─ a2
+ *           └ u2b ─ a2b   (u2 edited)
+ */
+const branchedNodes = [
+  makeNode('u1', 1, null),
+  makeNode('a1', 2, 'u1'),
+  makeNode('u2', 3, 'a1'),
+  makeNode('a2', 4, 'u2'),
+  makeNode('u2b', 5, 'a1', 2),
+  makeNode('a2b', 6, 'u2b'),
+];
+
+describe('toTreeNodes', () => {
+  it('keeps stored parents and sorts by creation time', () => {
+    const nodes = toTreeNodes([
+      makeMessage('a1', 2, 'u1'),
+      makeMessage('u1', 1, null),
+      makeMessage('u2', 3, 'a1'),
+    ]);
+
+    expect(nodes.map((node) => [node.id, node.parentId])).toEqual([
+      ['u1', null],
+      ['a1', 'u1'],
+      ['u2', 'a1'],
+    ]);
+    expect(nodes[0].createdAt).toBe(Date.UTC(2025, 0, 1, 12, 1));
+  });
+
+  it('chains messages saved without a parent to the previous message', () => {
+    const nodes = toTreeNodes([
+      makeMessage('u1', 1, null),
+      makeMessage('a1', 2, null),
+      makeMessage('u2', 3, null),
+    ]);
+
+    expect(nodes.map((node) => node.parentId)).toEqual([null, 'u1', 'a1']);
+  });
+
+  it('does not chain edited versions without a parent', () => {
+    const nodes = toTreeNodes([makeMessage('u1', 1, null), makeMessage('u1b', 2, null, 2)]);
+
+    expect(nodes.map((node) => node.parentId)).toEqual([null, null]);
+  });
+});
+
+describe('buildMessageTree', () => {
+  it('lists children oldest first, with roots under one key', () => {
+    const tree = buildMessageTree([
+      makeNode('u1b', 5, null, 2),
+      makeNode('u1', 1, null),
+      makeNode('a1', 2, 'u1'),
+    ]);
+
+    expect(getSiblingIds(tree, 'u1')).toEqual(['u1', 'u1b']);
+    expect(getSiblingIds(tree, 'a1')).toEqual(['a1']);
+  });
+
+  it('keeps the first node when an id repeats', () => {
+    const tree = buildMessageTree([makeNode('u1', 1, null), makeNode('u1', 9, null)]);
+
+    expect(tree.nodes.u1.createdAt).toBe(1);
+    expect(getSiblingIds(tree, 'u1')).toEqual(['u1']);
+  });
+
+  it('treats messages whose parent is not loaded as roots', () => {
+    const tree = buildMessageTree([makeNode('a5', 10, 'u5'), makeNode('u6', 11, 'a5')]);
+
+    expect(getSiblingIds(tree, 'a5')).toEqual(['a5']);
+    expect(getBranchPath(tree)).toEqual(['a5', 'u6']);
+  });
+
+  it('returns no siblings for unknown messages', () => {
+    expect(getSiblingIds(buildMessageTree(branchedNodes), 'missing')).toEqual([]);
+  });
+});
+
+describe('getLatestMessageId', () => {
+  it('returns the most recently created message', () => {
+    expect(getLatestMessageId(buildMessageTree(branchedNodes))).toBe('a2b');
+  });
+
+  it('returns undefined for an empty tree', () => {
+    expect(getLatestMessageId(buildMessageTree([]))).toBeUndefined();
+  });
+});
+
+describe('getBranchPath', () => {
+  const tree = buildMessageTree(branchedNodes);
+
+  it('follows the most recent message by default', () => {
+    expect(getBranchPath(tree)).toEqual(['u1', 'a1', 'u2b', 'a2b']);
+  });
+
+  it('walks through the selected version', () => {
+    expect(getBranchPath(tree, 'u2')).toEqual(['u1', 'a1', 'u2', 'a2']);
+  });
+
+  it('continues down the newest child below the selected message', () => {
+    expect(getBranchPath(tree, 'a1')).toEqual(['u1', 'a1', 'u2b', 'a2b']);
+  });
+
+  it('returns nothing for an empty tree', () => {
+    expect(getBranchPath(buildMessageTree([]))).toEqual([]);
+  });
+});
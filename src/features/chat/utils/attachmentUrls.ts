@@ -0,0 +1,52 @@
+/**
+ * Attachment URLs
+ * Signs stored attachment URLs so the private attachments bucket can be displayed and opened
+ *
+ * Signed URLs are reused until shortly before they expire, so scrolling back through a
+ * conversation does not sign the same files again.
+ */
+import { Linking } from 'react-native';
+import { storage } from '@/lib/supabase';
+import { signAttachmentUrls } from '@/lib/ai/attachments';
+import type { ChatAttachment } from '@/types/api';
+
+const EXPIRY_SECONDS = 60 * 60;
+// Re-sign a little early so an image never starts loading from an expired URL
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const cachedUrls = new Map<string, { signedUrl: string; expiresAt: number }>();
+
+/**
+ * Signed URLs by stored attachment URL
+ * Files the user cannot read are missing from the result.
+ */
+export const getSignedAttachmentUrls = async (
+  attachments: ChatAttachment[]
+): Promise<Record<string, string>> => {
+  const now = Date.now();
+  const isFresh = (url: string) => (cachedUrls.get(url)?.expiresAt ?? 0) > now;
+
+  const missing = attachments.filter((attachment) => !isFresh(attachment.url));
+  if (missing.length > 0) {
+    const signedUrls = await signAttachmentUrls(storage, missing, EXPIRY_SECONDS);
+    const expiresAt = now + EXPIRY_SECONDS * 1000 - REFRESH_MARGIN_MS;
+    signedUrls.forEach((signedUrl, url) => cachedUrls.set(url, { signedUrl, expiresAt }));
+  }
+
+  return Object.fromEntries(
+    attachments
+      .filter((attachment) => isFresh(attachment.url))
+      .map((attachment) => [attachment.url, cachedUrls.get(attachment.url)!.signedUrl])
+  );
+};
+
+/**
+ * Open an attachment or cited document in the browser
+ */
+export const openAttachment = async (url: string): Promise<void> => {
+  const signedUrls = await getSignedAttachmentUrls([{ url }]);
+  if (!signedUrls[url]) {
+    throw new Error('This file is no longer available');
+  }
+  await Linking.openURL(signedUrls[url]);
+};
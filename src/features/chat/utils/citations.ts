@@ -0,0 +1,70 @@
+/**
+ * Document Citations
+ * Collects the excerpts cited in an assistant message and links its [n] markers to them
+ *
+ * Live replies carry citations in their searchDocuments tool results. Saved replies
+ * carry them in `metadata.citations`, which toUIMessage turns into an annotation.
+ */
+import type { UIMessage } from 'ai';
+import { z } from 'zod';
+import { DocumentCitationSchema, type DocumentCitation } from '@/types/api';
+
+// Link scheme handled by MessageBubble instead of being opened
+export const CITATION_LINK_PREFIX = 'citation:';
+
+// [n] not already followed by a link target
+const CITATION_PATTERN = /\[(\d+)\](?!\()/g;
+
+const CitationsAnnotationSchema = z.object({ citations: z.array(DocumentCitationSchema) });
+
+/**
+ * Annotation attached to saved messages that have citations
+ */
+export const toCitationsAnnotation = (citations: DocumentCitation[]) => ({ citations });
+
+export const getMessageCitations = (message: UIMessage): DocumentCitation[] => {
+  const byNumber = new Map<number, DocumentCitation>();
+
+  message.annotations?.forEach((annotation) => {
+    const parsed = CitationsAnnotationSchema.safeParse(annotation);
+    parsed.data?.citations.forEach((citation) => byNumber.set(citation.citation, citation));
+  });
+
+  message.parts.forEach((part) => {
+    if (
+      part.type === 'tool-invocation' &&
+      part.toolInvocation.toolName === 'searchDocuments' &&
+      part.toolInvocation.state === 'result'
+    ) {
+      const parsed = CitationsAnnotationSchema.safeParse({
+        citations: part.toolInvocation.result?.results,
+      });
+      parsed.data?.citations.forEach((citation) => byNumber.set(citation.citation, citation));
+    }
+  });
+
+  return [...byNumber.values()].sort((a, b) => a.citation - b.citation);
+};
+
+/**
+ * Citations referenced by [n] markers in the text
+ */
+export const getCitedCitations = (
+  text: string,
+  citations: DocumentCitation[]
+): DocumentCitation[] => {
+  const cited = new Set([...text.matchAll(CITATION_PATTERN)].map((match) => Number(match[1])));
+  return citations.filter((citation) => cited.has(citation.citation));
+};
+
+/**
+ * Turn known [n] markers into Markdown links so they can be tapped
+ */
+export const linkCitations = (text: string, citations: DocumentCitation[]): string => {
+  if (citations.length === 0) return text;
+
+  const known = new Set(citations.map((citation) => citation.citation));
+  return text.replace(CITATION_PATTERN, (marker, number) =>
+    known.has(Number(number)) ? `[${number}](${CITATION_LINK_PREFIX}${number})` : marker
+  );
+};
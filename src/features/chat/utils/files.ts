@@ -0,0 +1,19 @@
+/**
+ * Local Files
+ * Reads files picked or recorded on the device for upload
+ */
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { decode } from 'base64-arraybuffer';
+
+// Native file URIs cannot be fetched as binary, so they are read as base64
+export const readFileAsArrayBuffer = async (uri: string): Promise<ArrayBuffer> => {
+  if (Platform.OS === 'web') {
+    const response = await fetch(uri);
+    return response.arrayBuffer();
+  }
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return decode(base64);
+};
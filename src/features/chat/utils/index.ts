@@ -0,0 +1,21 @@
+export {
+  buildMessageTree,
+  getBranchPath,
+  getLatestMessageId,
+  getSiblingIds,
+  toTreeNodes,
+  toUIMessage,
+  type MessageTree,
+  type MessageTreeNode,
+} from './messageTree';
+export { parseHighlights, type HighlightSegment } from './searchHighlight';
+export {
+  CITATION_LINK_PREFIX,
+  getCitedCitations,
+  getMessageCitations,
+  linkCitations,
+  toCitationsAnnotation,
+} from './citations';
+export { readFileAsArrayBuffer } from './files';
+export { loadSpeechAudio } from './speechCache';
+export { getSignedAttachmentUrls, openAttachment } from './attachmentUrls';
@@ -0,0 +1,154 @@
+/**
+ * Message Tree
+ * Builds the branch structure of a conversation from `parent_message_id` and `version`
+ *
+ * Every message points at the message it follows. Editing a user message creates a
+ * sibling under the same parent, so each edit starts a new branch instead of
+ * overwriting history.
+ */
+import type { UIMessage } from 'ai';
+import type { Message } from '@/lib/supabase';
+import { describeAttachments } from '@/lib/ai/attachments';
+import { ChatAttachmentSchema, DocumentCitationSchema } from '@/types/api';
+import { toCitationsAnnotation } from './citations';
+
+export interface MessageTreeNode {
+  id: string;
+  parentId: string | null;
+  version: number;
+  createdAt: number;
+}
+
+export interface MessageTree {
+  nodes: Record<string, MessageTreeNode>;
+  /** Child ids per parent id, oldest first. Root messages are listed under `ROOT_KEY` */
+  children: Record<string, string[]>;
+}
+
+const ROOT_KEY = '__root__';
+
+const compareNodes = (a: MessageTreeNode, b: MessageTreeNode) =>
+  a.createdAt - b.createdAt || a.version - b.version;
+
+/**
+ * Convert database messages into tree nodes
+ * Messages saved before branching existed have no parent - they are chained to the
+ * previous message so older conversations still read as a single linear branch
+ */
+export const toTreeNodes = (
+  messages: Pick<Message, 'id' | 'created_at' | 'version' | 'parent_message_id'>[]
+): MessageTreeNode[] => {
+  const sorted = [...messages].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+  return sorted.map((message, index) => {
+    const isRoot = index === 0 || message.version > 1;
+    return {
+      id: message.id,
+      parentId: message.parent_message_id ?? (isRoot ? null : sorted[index - 1].id),
+      version: message.version,
+      createdAt: new Date(message.created_at).getTime(),
+    };
+  });
+};
+
+/**
+ * Build a message tree - when a node id appears more than once the first one wins
+ */
+export const buildMessageTree = (nodes: MessageTreeNode[]): MessageTree => {
+  const tree: MessageTree = { nodes: {}, children: {} };
+
+  for (const node of nodes) {
+    if (tree.nodes[node.id]) continue;
+    tree.nodes[node.id] = node;
+  }
+
+  for (const node of Object.values(tree.nodes).sort(compareNodes)) {
+    const key = node.parentId && tree.nodes[node.parentId] ? node.parentId : ROOT_KEY;
+    (tree.children[key] ??= []).push(node.id);
+  }
+
+  return tree;
+};
+
+/**
+ * Ids of a message and its alternative versions, oldest first
+ */
+export const getSiblingIds = (tree: MessageTree, messageId: string): string[] => {
+  const node = tree.nodes[messageId];
+  if (!node) return [];
+  const key = node.parentId && tree.nodes[node.parentId] ? node.parentId : ROOT_KEY;
+  return tree.children[key] ?? [];
+};
+
+/**
+ * Id of the most recently created message
+ */
+export const getLatestMessageId = (tree: MessageTree): string | undefined => {
+  let latest: MessageTreeNode | undefined;
+  for (const node of Object.values(tree.nodes)) {
+    if (!latest || compareNodes(node, latest) > 0) latest = node;
+  }
+  return latest?.id;
+};
+
+/**
+ * Path of message ids through `messageId` - its ancestors, then the newest
+ * descendant at each level. Without a message id the branch ending at the most
+ * recent message is returned.
+ *
+ * Ancestors stop at the oldest loaded message, so a partially loaded history
+ * yields the tail of the branch.
+ */
+export const getBranchPath = (tree: MessageTree, messageId?: string): string[] => {
+  const path: string[] = [];
+
+  // Walk up to the root
+  const startId = messageId ?? getLatestMessageId(tree);
+  let current = startId ? tree.nodes[startId] : undefined;
+  while (current) {
+    path.unshift(current.id);
+    current = current.parentId ? tree.nodes[current.parentId] : undefined;
+  }
+
+  // Follow the newest child down to a leaf
+  let children = tree.children[path.at(-1) ?? ROOT_KEY];
+  while (children?.length) {
+    const newest = children[children.length - 1];
+    path.push(newest);
+    children = tree.children[newest];
+  }
+
+  return path;
+};
+
+/**
+ * Convert a database message into the useChat message format
+ * Files in `metadata.attachments` become `experimental_attachments`, and
+ * `metadata.citations` becomes an annotation read by getMessageCitations
+ */
+export const toUIMessage = (
+  message: Pick<Message, 'id' | 'role' | 'content' | 'created_at'> &
+    Partial<Pick<Message, 'metadata'>>
+): UIMessage => {
+  const attachments = ChatAttachmentSchema.array().safeParse(message.metadata?.attachments);
+  const citations = DocumentCitationSchema.array().safeParse(message.metadata?.citations);
+  // Attachment-only messages store the file names as content - the files show them instead
+  const content =
+    attachments.success && message.content === describeAttachments(attachments.data)
+      ? ''
+      : message.content;
+
+  return {
+    id: message.id,
+    role: message.role as 'user' | 'assistant' | 'system',
+    content,
+    createdAt: new Date(message.created_at),
+    parts: [{ type: 'text', text: content }],
+    ...(attachments.success &&
+      attachments.data.length > 0 && { experimental_attachments: attachments.data }),
+    ...(citations.success &&
+      citations.data.length > 0 && { annotations: [toCitationsAnnotation(citations.data)] }),
+  };
+};
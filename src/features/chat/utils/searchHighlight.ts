@@ -0,0 +1,32 @@
+/**
+ * Search Highlights
+ * Splits `search_messages` snippets into plain and matched segments for rendering
+ */
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// Must match StartSel/StopSel in 005_full_text_search.sql
+const HIGHLIGHT_PATTERN = /<mark>([\s\S]*?)<\/mark>/g;
+
+export const parseHighlights = (snippet: string): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of snippet.matchAll(HIGHLIGHT_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ text: snippet.slice(lastIndex, index), highlighted: false });
+    }
+    segments.push({ text: match[1], highlighted: true });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < snippet.length) {
+    segments.push({ text: snippet.slice(lastIndex), highlighted: false });
+  }
+
+  return segments;
+};
@@ -0,0 +1,89 @@
+/**
+ * Speech Cache
+ * Fetches audio for a saved assistant message from /api/speech and keeps it per message id
+ *
+ * Native builds write the audio to the cache directory so it survives restarts.
+ * Web keeps it in memory as a data URI.
+ */
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { encode } from 'base64-arraybuffer';
+import { getAuthHeaders } from '@/lib/api/session';
+
+const SPEECH_DIRECTORY = `${FileSystem.cacheDirectory}speech/`;
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/aac': 'aac',
+};
+
+// A reply is saved when its stream finishes, so auto-read can ask for it a moment early
+const NOT_FOUND_RETRIES = 3;
+const RETRY_DELAY_MS = 1000;
+
+const cachedUris = new Map<string, string>();
+
+const findCachedFile = async (messageId: string): Promise<string | null> => {
+  for (const extension of new Set(Object.values(EXTENSIONS))) {
+    const uri = `${SPEECH_DIRECTORY}${messageId}.${extension}`;
+    if ((await FileSystem.getInfoAsync(uri)).exists) {
+      return uri;
+    }
+  }
+  return null;
+};
+
+const requestSpeech = async (messageId: string, accessToken: string | undefined) => {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch('/api/speech', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders(accessToken) },
+      body: JSON.stringify({ messageId }),
+    });
+    if (response.status !== 404 || attempt >= NOT_FOUND_RETRIES) {
+      return response;
+    }
+    await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+  }
+};
+
+/**
+ * Playable URI for a saved message's audio, synthesized on first use
+ */
+export const loadSpeechAudio = async (
+  messageId: string,
+  accessToken: string | undefined
+): Promise<string> => {
+  const cached =
+    cachedUris.get(messageId) ?? (Platform.OS !== 'web' ? await findCachedFile(messageId) : null);
+  if (cached) {
+    cachedUris.set(messageId, cached);
+    return cached;
+  }
+
+  const response = await requestSpeech(messageId, accessToken);
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error?.message ?? 'Failed to synthesize speech');
+  }
+
+  const mimeType = response.headers.get('Content-Type')?.split(';')[0] ?? 'audio/mpeg';
+  const base64 = encode(await response.arrayBuffer());
+
+  let uri = `data:${mimeType};base64,${base64}`;
+  if (Platform.OS !== 'web') {
+    await FileSystem.makeDirectoryAsync(SPEECH_DIRECTORY, { intermediates: true });
+    uri = `${SPEECH_DIRECTORY}${messageId}.${EXTENSIONS[mimeType] ?? 'mp3'}`;
+    await FileSystem.writeAsStringAsync(uri, base64, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+  }
+
+  cachedUris.set(messageId, uri);
+  return uri;
+};
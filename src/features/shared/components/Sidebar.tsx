@@ -1,5 +1,14 @@
 import React, { useState } from 'react';
-import { Text, View, Pressable, ScrollView, Image, Alert } from 'react-native';
+import {
+  Text,
+  View,
+  Pressable,
+  ScrollView,
+  Image,
+  Alert,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import Animated, {
   useSharedValue,
@@ -8,11 +17,21 @@ import Animated, {
   runOnJS,
 } from 'react-native-reanimated';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
 import { useTheme } from '../hooks/useTheme';
 import { useAuth } from '@/features/auth/hooks/useAuth';
 import { useConversations } from '@/features/chat/hooks/useConversations';
+import { useConversationSharing } from '@/features/chat/hooks/useConversationSharing';
+import { useMessageSearch } from '@/features/chat/hooks/useMessageSearch';
+import type {
+  MessageSearchResult as MessageSearchResultRow,
+  SharedConversationSummary,
+} from '@/lib/supabase';
+import { getShareAccessLevel } from '@/config/sharing';
 import { ConversationShareModal } from '@/features/chat/components/ConversationShareModal';
 import { AnalyticsDashboard } from '@/features/chat/components/AnalyticsDashboard';
+import { PersonaPickerModal } from '@/features/chat/components/PersonaPickerModal';
+import { MessageSearchResult } from '@/features/chat/components/MessageSearchResult';
 import { animationConfigs } from '@/lib/animations';
 import { config } from '@/config';
 import { FEATURES } from '@/config/features';
@@ -25,6 +44,8 @@ interface SidebarProps {
   userEmail?: string;
   userAvatar?: string;
   onConversationSelect?: (conversationId: string) => void;
+  /** Open a conversation scrolled to a message, used by search results */
+  onMessageSelect?: (conversationId: string, messageId: string) => void;
   currentConversationId?: string;
 }
 
@@ -38,6 +59,7 @@ const navigationItems = [
 
 const profileMenuItems = [
   { id: 'profile', label: 'Profile', icon: 'person-outline' },
+  { id: 'security', label: 'Security', icon: 'shield-checkmark-outline' },
   { id: 'analytics', label: 'Analytics', icon: 'analytics-outline' },
   { id: 'billing', label: 'Billing', icon: 'card-outline' },
   { id: 'theme', label: 'Theme', icon: 'contrast-outline' },
@@ -67,12 +89,30 @@ export function Sidebar({
   userEmail = 'john.doe@example.com',
   userAvatar,
   onConversationSelect,
+  onMessageSelect,
   currentConversationId,
 }: SidebarProps) {
   const { isDark, toggleTheme } = useTheme();
-  const { user, signOut } = useAuth();
-  const { conversations, loading, createConversation, deleteConversation, archiveConversation } =
-    useConversations();
+  const { user, profile, signOut } = useAuth();
+  const {
+    conversations,
+    loading,
+    refetch: refetchConversations,
+    createConversation,
+    deleteConversation,
+    archiveConversation,
+  } = useConversations();
+  const { getSharedConversations, forkConversation } = useConversationSharing();
+  const [sharedConversations, setSharedConversations] = useState<SharedConversationSummary[]>([]);
+  const {
+    query: searchQuery,
+    setQuery: setSearchQuery,
+    results: searchResults,
+    loading: searching,
+    error: searchError,
+    isSearching,
+    clearSearch,
+  } = useMessageSearch();
   const insets = useSafeAreaInsets();
   const translateX = useSharedValue(isOpen ? 0 : -300);
   const [isProfileMenuOpen, setIsProfileMenuOpen] = useState(false);
@@ -82,13 +122,16 @@ export function Sidebar({
     title: string;
   } | null>(null);
   const [showAnalyticsDashboard, setShowAnalyticsDashboard] = useState(false);
+  const [showPersonaPicker, setShowPersonaPicker] = useState(false);
 
   // Use app name from config if not provided as prop
   const displayAppName = appName || config.branding.appName;
 
   // Use authenticated user data if available
-  const displayUserName = user?.email?.split('@')[0] || userName;
+  const displayUserName =
+    profile?.full_name || profile?.username || user?.email?.split('@')[0] || userName;
   const displayUserEmail = user?.email || userEmail;
+  const displayUserAvatar = profile?.avatar_url || userAvatar;
 
   // Animation styles
   const sidebarStyle = useAnimatedStyle(() => ({
@@ -99,6 +142,13 @@ export function Sidebar({
     opacity: withTiming(isOpen ? 0.5 : 0, animationConfigs.normal),
   }));
 
+  // Refresh conversations shared with the user whenever the sidebar opens
+  React.useEffect(() => {
+    if (isOpen && user?.id) {
+      getSharedConversations().then(setSharedConversations);
+    }
+  }, [isOpen, user?.id, getSharedConversations]);
+
   // Animate sidebar when isOpen changes
   React.useEffect(() => {
     translateX.value = withTiming(isOpen ? 0 : -300, animationConfigs.normal, (finished) => {
@@ -112,22 +162,27 @@ export function Sidebar({
     onClose();
   };
 
+  const handlePersonaSelect = async (personaId: string) => {
+    setShowPersonaPicker(false);
+    setIsCreatingConversation(true);
+    try {
+      const newConversation = await createConversation(undefined, personaId);
+      if (newConversation && onConversationSelect) {
+        onConversationSelect(newConversation.id);
+        onClose();
+      }
+    } catch (error) {
+      console.error('Failed to create conversation:', error);
+      Alert.alert('Error', 'Failed to create new conversation');
+    } finally {
+      setIsCreatingConversation(false);
+    }
+  };
+
   const handleNavPress = async (itemId: string) => {
     if (itemId === 'chat') {
-      // Create new conversation
-      setIsCreatingConversation(true);
-      try {
-        const newConversation = await createConversation();
-        if (newConversation && onConversationSelect) {
-          onConversationSelect(newConversation.id);
-          onClose();
-        }
-      } catch (error) {
-        console.error('Failed to create conversation:', error);
-        Alert.alert('Error', 'Failed to create new conversation');
-      } finally {
-        setIsCreatingConversation(false);
-      }
+      // Pick a persona, then create the conversation
+      setShowPersonaPicker(true);
     } else {
       console.log(`Navigate to: ${itemId}`);
       // TODO: Implement navigation for other items
@@ -190,6 +245,59 @@ export function Sidebar({
     ]);
   };
 
+  const handleSearchResultPress = (result: MessageSearchResultRow) => {
+    if (result.message_id && onMessageSelect) {
+      onMessageSelect(result.conversation_id, result.message_id);
+    } else {
+      onConversationSelect?.(result.conversation_id);
+    }
+    clearSearch();
+    onClose();
+  };
+
+  const handleSharedConversationPress = (shared: SharedConversationSummary) => {
+    const accessLevel = getShareAccessLevel(shared.permissions);
+    const sharedBy = shared.shared_by_email ?? 'another user';
+    const canWrite = shared.permissions.includes('write');
+
+    if (!canWrite && !shared.permissions.includes('fork')) {
+      Alert.alert(
+        shared.title,
+        `Shared by ${sharedBy} with ${accessLevel?.label ?? 'no'} access. Ask the owner for Fork access to continue this conversation.`
+      );
+      return;
+    }
+
+    const handleOpen = () => {
+      onConversationSelect?.(shared.id);
+      onClose();
+    };
+
+    Alert.alert(
+      shared.title,
+      canWrite
+        ? `Shared by ${sharedBy}. Open it to chat together, or fork it to continue in your own copy.`
+        : `Shared by ${sharedBy}. Fork it to continue in your own copy.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        ...(canWrite ? [{ text: 'Open', onPress: handleOpen }] : []),
+        {
+          text: 'Fork',
+          onPress: async () => {
+            const forkedConversationId = await forkConversation(shared.id);
+            if (!forkedConversationId) {
+              Alert.alert('Error', 'Failed to fork conversation');
+              return;
+            }
+            await refetchConversations();
+            onConversationSelect?.(forkedConversationId);
+            onClose();
+          },
+        },
+      ]
+    );
+  };
+
   const handleProfilePress = () => {
     setIsProfileMenuOpen(!isProfileMenuOpen);
   };
@@ -220,6 +328,12 @@ export function Sidebar({
       toggleTheme();
     } else if (itemId === 'analytics') {
       setShowAnalyticsDashboard(true);
+    } else if (itemId === 'profile' && FEATURES.enableProfileManagement) {
+      router.push('/(app)/profile');
+      onClose();
+    } else if (itemId === 'security' && FEATURES.enableAuth) {
+      router.push('/(app)/security');
+      onClose();
     } else if (itemId === 'logout' && FEATURES.enableAuth) {
       handleSignOut();
       return;
@@ -271,90 +385,197 @@ export function Sidebar({
             </View>
           </View>
 
-          {/* Navigation Section */}
-          <View className="py-4">
-            <Text className="text-sm font-semibold text-muted-foreground px-6 mb-3 uppercase tracking-wider">
-              Pages
-            </Text>
-            {navigationItems.map((item) => (
-              <Pressable
-                key={item.id}
-                onPress={() => handleNavPress(item.id)}
-                className="flex-row items-center px-6 py-3 active:bg-muted"
-                disabled={item.id === 'chat' && isCreatingConversation}
-              >
-                <Ionicons name={item.icon as any} size={20} color={isDark ? '#9ca3af' : '#666'} />
-                <Text className="ml-3 text-sm font-medium text-foreground">{item.label}</Text>
-                {item.id === 'chat' && isCreatingConversation && (
-                  <Text className="ml-auto text-xs text-muted-foreground">Creating...</Text>
-                )}
-              </Pressable>
-            ))}
+          {/* Search */}
+          <View className="px-6 pb-2">
+            <View className="flex-row items-center border border-border rounded-lg px-3">
+              <Ionicons name="search" size={16} color={isDark ? '#9ca3af' : '#666'} />
+              <TextInput
+                className="flex-1 py-2 ml-2 text-sm text-foreground"
+                placeholder="Search conversations"
+                placeholderTextColor={isDark ? '#666' : '#999'}
+                value={searchQuery}
+                onChangeText={setSearchQuery}
+                autoCapitalize="none"
+                autoCorrect={false}
+                returnKeyType="search"
+              />
+              {searchQuery.length > 0 && (
+                <Pressable onPress={clearSearch} hitSlop={8}>
+                  <Ionicons name="close-circle" size={16} color={isDark ? '#9ca3af' : '#666'} />
+                </Pressable>
+              )}
+            </View>
           </View>
 
-          {/* Chat History Section */}
-          <View className="py-4 flex-1">
-            <Text className="text-sm font-semibold text-muted-foreground px-6 mb-3 uppercase tracking-wider">
-              Chat History
-            </Text>
-
-            {loading ? (
-              <View className="px-6 py-4">
-                <Text className="text-sm text-muted-foreground">Loading conversations...</Text>
+          {isSearching ? (
+            <View className="py-4">
+              <Text className="text-sm font-semibold text-muted-foreground px-6 mb-3 uppercase tracking-wider">
+                Search Results
+              </Text>
+              {searching ? (
+                <View className="px-6 py-4">
+                  <ActivityIndicator size="small" color={isDark ? '#9ca3af' : '#666'} />
+                </View>
+              ) : searchError ? (
+                <View className="px-6 py-4">
+                  <Text className="text-sm text-muted-foreground">Search failed</Text>
+                  <Text className="text-xs text-muted-foreground mt-1">{searchError.message}</Text>
+                </View>
+              ) : searchResults.length === 0 ? (
+                <View className="px-6 py-4">
+                  <Text className="text-sm text-muted-foreground">No matches</Text>
+                  <Text className="text-xs text-muted-foreground mt-1">
+                    Try different or fewer words
+                  </Text>
+                </View>
+              ) : (
+                searchResults.map((result) => (
+                  <MessageSearchResult
+                    key={result.message_id ?? `title-${result.conversation_id}`}
+                    result={result}
+                    onPress={() => handleSearchResultPress(result)}
+                  />
+                ))
+              )}
+            </View>
+          ) : (
+            <>
+              {/* Navigation Section */}
+              <View className="py-4">
+                <Text className="text-sm font-semibold text-muted-foreground px-6 mb-3 uppercase tracking-wider">
+                  Pages
+                </Text>
+                {navigationItems.map((item) => (
+                  <Pressable
+                    key={item.id}
+                    onPress={() => handleNavPress(item.id)}
+                    className="flex-row items-center px-6 py-3 active:bg-muted"
+                    disabled={item.id === 'chat' && isCreatingConversation}
+                  >
+                    <Ionicons
+                      name={item.icon as any}
+                      size={20}
+                      color={isDark ? '#9ca3af' : '#666'}
+                    />
+                    <Text className="ml-3 text-sm font-medium text-foreground">{item.label}</Text>
+                    {item.id === 'chat' && isCreatingConversation && (
+                      <Text className="ml-auto text-xs text-muted-foreground">Creating...</Text>
+                    )}
+                  </Pressable>
+                ))}
               </View>
-            ) : conversations.length === 0 ? (
-              <View className="px-6 py-4">
-                <Text className="text-sm text-muted-foreground">No conversations yet</Text>
-                <Text className="text-xs text-muted-foreground mt-1">
-                  Start a new chat to begin
+
+              {/* Chat History Section */}
+              <View className="py-4 flex-1">
+                <Text className="text-sm font-semibold text-muted-foreground px-6 mb-3 uppercase tracking-wider">
+                  Chat History
                 </Text>
+
+                {loading ? (
+                  <View className="px-6 py-4">
+                    <Text className="text-sm text-muted-foreground">Loading conversations...</Text>
+                  </View>
+                ) : conversations.length === 0 ? (
+                  <View className="px-6 py-4">
+                    <Text className="text-sm text-muted-foreground">No conversations yet</Text>
+                    <Text className="text-xs text-muted-foreground mt-1">
+                      Start a new chat to begin
+                    </Text>
+                  </View>
+                ) : (
+                  conversations.map((conversation) => (
+                    <Pressable
+                      key={conversation.id}
+                      onPress={() => handleConversationPress(conversation.id)}
+                      onLongPress={() =>
+                        handleConversationLongPress(conversation.id, conversation.title)
+                      }
+                      className={`px-6 py-3 active:bg-muted ${
+                        currentConversationId === conversation.id ? 'bg-muted' : ''
+                      }`}
+                    >
+                      <View className="flex-row items-center justify-between">
+                        <View className="flex-1 mr-2">
+                          <Text
+                            className="text-sm font-medium text-foreground mb-1"
+                            numberOfLines={1}
+                          >
+                            {conversation.title}
+                          </Text>
+                          {conversation.last_message_preview && (
+                            <Text className="text-xs text-muted-foreground mb-1" numberOfLines={1}>
+                              {conversation.last_message_preview}
+                            </Text>
+                          )}
+                          <View className="flex-row items-center justify-between">
+                            <Text className="text-xs text-muted-foreground">
+                              {conversation.last_message_at
+                                ? formatTimestamp(conversation.last_message_at)
+                                : formatTimestamp(conversation.updated_at)}
+                            </Text>
+                            <Text className="text-xs text-muted-foreground">
+                              {conversation.message_count} msg
+                              {conversation.message_count !== 1 ? 's' : ''}
+                            </Text>
+                          </View>
+                        </View>
+                        {currentConversationId === conversation.id && (
+                          <Ionicons
+                            name="checkmark-circle"
+                            size={16}
+                            color={isDark ? '#3b82f6' : '#2563eb'}
+                          />
+                        )}
+                      </View>
+                    </Pressable>
+                  ))
+                )}
               </View>
-            ) : (
-              conversations.map((conversation) => (
-                <Pressable
-                  key={conversation.id}
-                  onPress={() => handleConversationPress(conversation.id)}
-                  onLongPress={() =>
-                    handleConversationLongPress(conversation.id, conversation.title)
-                  }
-                  className={`px-6 py-3 active:bg-muted ${
-                    currentConversationId === conversation.id ? 'bg-muted' : ''
-                  }`}
-                >
-                  <View className="flex-row items-center justify-between">
-                    <View className="flex-1 mr-2">
-                      <Text className="text-sm font-medium text-foreground mb-1" numberOfLines={1}>
-                        {conversation.title}
-                      </Text>
-                      {conversation.last_message_preview && (
-                        <Text className="text-xs text-muted-foreground mb-1" numberOfLines={1}>
-                          {conversation.last_message_preview}
-                        </Text>
-                      )}
+
+              {/* Shared With Me Section */}
+              {sharedConversations.length > 0 && (
+                <View className="py-4">
+                  <Text className="text-sm font-semibold text-muted-foreground px-6 mb-3 uppercase tracking-wider">
+                    Shared With Me
+                  </Text>
+                  {sharedConversations.map((shared) => (
+                    <Pressable
+                      key={`${shared.id}-${shared.shared_by}`}
+                      onPress={() => handleSharedConversationPress(shared)}
+                      className="px-6 py-3 active:bg-muted"
+                    >
                       <View className="flex-row items-center justify-between">
-                        <Text className="text-xs text-muted-foreground">
-                          {conversation.last_message_at
-                            ? formatTimestamp(conversation.last_message_at)
-                            : formatTimestamp(conversation.updated_at)}
-                        </Text>
-                        <Text className="text-xs text-muted-foreground">
-                          {conversation.message_count} msg
-                          {conversation.message_count !== 1 ? 's' : ''}
-                        </Text>
+                        <View className="flex-1 mr-2">
+                          <Text
+                            className="text-sm font-medium text-foreground mb-1"
+                            numberOfLines={1}
+                          >
+                            {shared.title}
+                          </Text>
+                          <Text className="text-xs text-muted-foreground" numberOfLines={1}>
+                            {shared.shared_by_email ?? 'Shared'} ·{' '}
+                            {getShareAccessLevel(shared.permissions)?.label ?? 'Read'}
+                          </Text>
+                        </View>
+                        {(shared.permissions.includes('write') ||
+                          shared.permissions.includes('fork')) && (
+                          <Ionicons
+                            name={
+                              shared.permissions.includes('write')
+                                ? 'people-outline'
+                                : 'git-branch-outline'
+                            }
+                            size={16}
+                            color={isDark ? '#9ca3af' : '#666'}
+                          />
+                        )}
                       </View>
-                    </View>
-                    {currentConversationId === conversation.id && (
-                      <Ionicons
-                        name="checkmark-circle"
-                        size={16}
-                        color={isDark ? '#3b82f6' : '#2563eb'}
-                      />
-                    )}
-                  </View>
-                </Pressable>
-              ))
-            )}
-          </View>
+                    </Pressable>
+                  ))}
+                </View>
+              )}
+            </>
+          )}
         </ScrollView>
 
         {/* User Profile Section - Sticky at bottom */}
@@ -385,8 +606,8 @@ export function Sidebar({
 
           <Pressable onPress={handleProfilePress} className="flex-row items-center px-6 py-4">
             <View className="w-10 h-10 rounded-full bg-primary items-center justify-center mr-3">
-              {userAvatar ? (
-                <Image source={{ uri: userAvatar }} className="w-10 h-10 rounded-full" />
+              {displayUserAvatar ? (
+                <Image source={{ uri: displayUserAvatar }} className="w-10 h-10 rounded-full" />
               ) : (
                 <Text className="text-primary-foreground font-semibold">
                   {displayUserName.charAt(0).toUpperCase()}
@@ -420,6 +641,13 @@ export function Sidebar({
         />
       )}
 
+      {/* Persona Picker */}
+      <PersonaPickerModal
+        visible={showPersonaPicker}
+        onClose={() => setShowPersonaPicker(false)}
+        onSelect={handlePersonaSelect}
+      />
+
       {/* Analytics Dashboard */}
       <AnalyticsDashboard
         visible={showAnalyticsDashboard}
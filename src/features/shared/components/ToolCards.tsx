@@ -1,22 +1,63 @@
 import { Text, View } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../hooks/useTheme';
+import type { CelsiusConvertResult, WeatherResult } from '@/types/api';
 
-export function WeatherCard(props: { location: string; temperature: number }) {
+const getWeatherIcon = (conditions: string): keyof typeof Ionicons.glyphMap => {
+  const normalized = conditions.toLowerCase();
+  if (normalized.includes('thunder')) return 'thunderstorm';
+  if (normalized.includes('snow')) return 'snow';
+  if (normalized.includes('rain') || normalized.includes('drizzle')) return 'rainy';
+  if (normalized.includes('clear')) return 'sunny';
+  if (normalized.includes('partly')) return 'partly-sunny';
+  return 'cloud';
+};
+
+const formatForecastDay = (date: string): string => {
+  // Dates are calendar days (YYYY-MM-DD); parse as UTC so the weekday doesn't shift
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    weekday: 'short',
+    timeZone: 'UTC',
+  });
+};
+
+export function WeatherCard(props: WeatherResult) {
   const { isDark } = useTheme();
+  const unitSymbol = props.units === 'celsius' ? '°C' : '°F';
+  const iconColor = isDark ? '#9ca3af' : '#4b5563';
 
   return (
-    <View className="bg-card/90 p-3 rounded-lg w-full flex-row items-center gap-3">
-      <Ionicons name="cloud" size={24} color={isDark ? '#9ca3af' : '#4b5563'} />
-      <View>
-        <Text className="font-bold text-base text-foreground">Weather for {props.location}</Text>
-        <Text className="text-muted-foreground text-base">{props.temperature}°F</Text>
+    <View className="bg-card/90 p-3 rounded-lg w-full gap-3">
+      <View className="flex-row items-center gap-3">
+        <Ionicons name={getWeatherIcon(props.conditions)} size={24} color={iconColor} />
+        <View className="flex-1">
+          <Text className="font-bold text-base text-foreground">Weather for {props.location}</Text>
+          <Text className="text-muted-foreground text-base">
+            {props.temperature}
+            {unitSymbol} · {props.conditions}
+          </Text>
+          <Text className="text-muted-foreground text-sm">Humidity {props.humidity}%</Text>
+        </View>
       </View>
+
+      {props.forecast.length > 0 && (
+        <View className="flex-row justify-between border-t border-border/50 pt-2">
+          {props.forecast.map((day) => (
+            <View key={day.date} className="items-center flex-1">
+              <Text className="text-xs text-muted-foreground">{formatForecastDay(day.date)}</Text>
+              <Ionicons name={getWeatherIcon(day.conditions)} size={18} color={iconColor} />
+              <Text className="text-xs text-foreground">
+                {day.high}° / {day.low}°
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
     </View>
   );
 }
 
-export function CelsiusConvertCard(props: { temperature: number; celsius: number }) {
+export function CelsiusConvertCard(props: CelsiusConvertResult) {
   const { isDark } = useTheme();
 
   return (
@@ -31,3 +72,19 @@ export function CelsiusConvertCard(props: { temperature: number; celsius: number
     </View>
   );
 }
+
+export function ToolResultCard(props: { toolName: string; result: unknown }) {
+  const { isDark } = useTheme();
+
+  return (
+    <View className="bg-card/90 p-3 rounded-lg w-full flex-row items-start gap-3">
+      <Ionicons name="construct" size={24} color={isDark ? '#9ca3af' : '#4b5563'} />
+      <View className="flex-1">
+        <Text className="font-bold text-base text-foreground">{props.toolName}</Text>
+        <Text className="text-muted-foreground text-sm">
+          {JSON.stringify(props.result, null, 2)}
+        </Text>
+      </View>
+    </View>
+  );
+}
@@ -2,6 +2,6 @@
 export { KeyboardPaddingView } from './KeyboardPaddingView';
 export { ThemeProvider } from './ThemeProvider';
 export { ThemeToggle } from './ThemeToggle';
-export { WeatherCard, CelsiusConvertCard } from './ToolCards';
+export { WeatherCard, CelsiusConvertCard, ToolResultCard } from './ToolCards';
 export { Sidebar } from './Sidebar';
 export { ErrorAlert } from './ErrorAlert';
@@ -0,0 +1,80 @@
+import { chunkText, isDocumentAttachment } from '../documents';
+
+const sentence = (index: number) => `Sentence number ${index} talks about topic ${index}.`;
+const paragraph = Array.from({ length: 60 }, (_, index) => sentence(index)).join(' ');
+
+describe('chunkText', () => {
+  it('returns short text as a single chunk', () => {
+    expect(chunkText('  A short note.  ')).toEqual(['A short note.']);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(chunkText(' \n\n \t ')).toEqual([]);
+  });
+
+  it('normalizes line endings, spaces and blank lines', () => {
+    expect(chunkText('First\r\nline\t\twith   gaps\n\n\n\nSecond paragraph')).toEqual([
+      'First\nline with gaps\n\nSecond paragraph',
+    ]);
+  });
+
+  it('keeps chunks within the chunk size', () => {
+    const chunks = chunkText(paragraph, { chunkSize: 200, overlap: 40 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(200));
+  });
+
+  it('breaks at sentence boundaries when it can', () => {
+    const chunks = chunkText(paragraph, { chunkSize: 200, overlap: 40 });
+
+    chunks.slice(0, -1).forEach((chunk) => expect(chunk.endsWith('.')).toBe(true));
+  });
+
+  it('overlaps consecutive chunks and starts them on a word', () => {
+    const chunks = chunkText(paragraph, { chunkSize: 200, overlap: 40 });
+
+    chunks.slice(1).forEach((chunk, index) => {
+      const previous = chunks[index];
+      const firstWord = chunk.split(' ')[0];
+      expect(previous).toContain(firstWord);
+      expect(paragraph).toContain(chunk);
+    });
+  });
+
+  it('covers the whole text', () => {
+    const chunks = chunkText(paragraph, { chunkSize: 200, overlap: 40 });
+
+    expect(chunks[0].startsWith(sentence(0))).toBe(true);
+    expect(chunks.at(-1)?.endsWith(sentence(59))).toBe(true);
+  });
+
+  it('splits text without separators at the chunk size', () => {
+    const chunks = chunkText('x'.repeat(250), { chunkSize: 100, overlap: 20 });
+
+    expect(chunks[0]).toHaveLength(100);
+    expect(chunks.join('').length).toBeGreaterThanOrEqual(250);
+  });
+});
+
+describe('isDocumentAttachment', () => {
+  const url = 'https://example.supabase.co/storage/v1/object/public/chat-attachments/u/f/file';
+
+  it('accepts PDF, Markdown and text content types', () => {
+    expect(isDocumentAttachment({ url, contentType: 'application/pdf' })).toBe(true);
+    expect(isDocumentAttachment({ url, contentType: 'text/markdown' })).toBe(true);
+    expect(isDocumentAttachment({ url, contentType: 'text/plain; charset=utf-8' })).toBe(true);
+  });
+
+  it('falls back to the file extension', () => {
+    expect(
+      isDocumentAttachment({ url, name: 'notes.MD', contentType: 'application/octet-stream' })
+    ).toBe(true);
+    expect(isDocumentAttachment({ url, name: 'paper.pdf' })).toBe(true);
+  });
+
+  it('skips images and unknown files', () => {
+    expect(isDocumentAttachment({ url, name: 'photo.jpg', contentType: 'image/jpeg' })).toBe(false);
+    expect(isDocumentAttachment({ url, name: 'archive.zip' })).toBe(false);
+  });
+});
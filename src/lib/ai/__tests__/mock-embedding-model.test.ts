@@ -0,0 +1,63 @@
+import { createMockEmbeddingModel, embedText } from '../mock-embedding-model';
+
+const DIMENSIONS = 256;
+
+const similarity = (a: number[], b: number[]) =>
+  a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+const norm = (vector: number[]) => Math.sqrt(similarity(vector, vector));
+
+describe('embedText', () => {
+  it('returns the same vector for the same text', () => {
+    const text = 'The quarterly report covers revenue and churn';
+
+    expect(embedText(text, DIMENSIONS)).toEqual(embedText(text, DIMENSIONS));
+  });
+
+  it('returns unit-length vectors of the requested size', () => {
+    const vector = embedText('Vectors are normalized before they are stored', DIMENSIONS);
+
+    expect(vector).toHaveLength(DIMENSIONS);
+    expect(norm(vector)).toBeCloseTo(1, 10);
+  });
+
+  it('ignores case and punctuation', () => {
+    expect(embedText('Hello, World!', DIMENSIONS)).toEqual(embedText('hello world', DIMENSIONS));
+  });
+
+  it('returns a zero vector when there is nothing to embed', () => {
+    expect(embedText('a . !', DIMENSIONS)).toEqual(new Array(DIMENSIONS).fill(0));
+  });
+
+  it('places texts that share vocabulary closer together', () => {
+    const query = embedText('refund policy for annual plans', DIMENSIONS);
+    const related = embedText('Annual plans have a 30 day refund policy', DIMENSIONS);
+    const unrelated = embedText('The office kitchen closes at six', DIMENSIONS);
+
+    expect(similarity(query, related)).toBeGreaterThan(similarity(query, unrelated));
+  });
+
+  it('takes word order into account', () => {
+    const a = embedText('dog bites man', DIMENSIONS);
+    const b = embedText('man bites dog', DIMENSIONS);
+
+    expect(a).not.toEqual(b);
+    expect(similarity(a, b)).toBeGreaterThan(0.5);
+  });
+});
+
+describe('createMockEmbeddingModel', () => {
+  it('embeds every value with the configured dimensions', async () => {
+    const model = createMockEmbeddingModel('hash', DIMENSIONS);
+
+    const { embeddings, usage } = await model.doEmbed({ values: ['first text', 'second one'] });
+
+    expect(model.provider).toBe('mock');
+    expect(model.modelId).toBe('hash');
+    expect(embeddings).toEqual([
+      embedText('first text', DIMENSIONS),
+      embedText('second one', DIMENSIONS),
+    ]);
+    expect(usage).toEqual({ tokens: 4 });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Message Attachments
+ * Turns files attached to user messages into multimodal content parts
+ *
+ * The attachments bucket is private. Messages store each file's public-style URL as a
+ * stable identifier, and short-lived signed URLs are created whenever a file is read.
+ * Vision models receive images and PDFs as parts referencing a signed URL.
+ * Other models, other file types and files that could not be signed get a note
+ * listing the attachments so the model knows they exist.
+ */
+import type { FilePart, ImagePart, TextPart, UserContent } from 'ai';
+import { config } from '@/config';
+import { getModelOption } from '@/config/models';
+import type { StorageHelpers } from '@/lib/supabase';
+import type { ChatAttachment, ChatMessage } from '@/types/api';
+
+// Documents vision models accept as file parts
+const DOCUMENT_TYPES = ['application/pdf'];
+
+// Public and signed object URLs - see 010_chat_attachments.sql
+const ATTACHMENT_URL_KINDS = ['public', 'sign'];
+
+/**
+ * Path of a file in the attachments bucket of this app's Supabase project, or null
+ * Attachment URLs come from the client, so this is the allowlist for anything the
+ * server fetches or hands to a model provider.
+ */
+export const getAttachmentPath = (url: string): string | null => {
+  if (!config.supabase.url) return null;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.origin !== new URL(config.supabase.url).origin) return null;
+
+  for (const kind of ATTACHMENT_URL_KINDS) {
+    const prefix = `/storage/v1/object/${kind}/${config.storage.attachmentsBucket}/`;
+    if (!parsed.pathname.startsWith(prefix)) continue;
+
+    const path = decodeURIComponent(parsed.pathname.slice(prefix.length));
+    const segments = path.split('/');
+    return segments.some((segment) => !segment || segment === '.' || segment === '..')
+      ? null
+      : path;
+  }
+
+  return null;
+};
+
+export const isAttachmentUrl = (url: string): boolean => getAttachmentPath(url) !== null;
+
+/**
+ * Signed URLs for attachments the caller can read, by stored attachment URL
+ * Attachments outside the bucket, or hidden from the caller by storage RLS, are left out.
+ */
+export const signAttachmentUrls = async (
+  storage: StorageHelpers,
+  attachments: ChatAttachment[],
+  expiresIn: number
+): Promise<Map<string, string>> => {
+  const paths = new Map<string, string>();
+  attachments.forEach((attachment) => {
+    const path = getAttachmentPath(attachment.url);
+    if (path) paths.set(path, attachment.url);
+  });
+  if (paths.size === 0) return new Map();
+
+  const { data, error } = await storage.createSignedUrls(
+    config.storage.attachmentsBucket,
+    [...paths.keys()],
+    expiresIn
+  );
+  if (error) throw new Error(error.message);
+
+  const signedUrls = new Map<string, string>();
+  data?.forEach((file) => {
+    const url = file.path && paths.get(file.path);
+    if (url && file.signedUrl && !file.error) signedUrls.set(url, file.signedUrl);
+  });
+  return signedUrls;
+};
+
+export const isImageAttachment = (attachment: ChatAttachment): boolean =>
+  attachment.contentType?.startsWith('image/') ?? false;
+
+/**
+ * Stored as the content of a message sent with attachments and no text,
+ * since messages cannot be empty
+ */
+export const describeAttachments = (attachments: ChatAttachment[]): string =>
+  attachments.map((attachment) => attachment.name ?? 'Attachment').join(', ');
+
+/**
+ * Whether a model accepts image and PDF parts
+ */
+export const supportsAttachments = (modelId: string): boolean =>
+  getModelOption(modelId)?.vision ?? false;
+
+/**
+ * Content for a user message - plain text unless it has attachments
+ * `signedUrls` comes from signAttachmentUrls; unsigned files are only listed in the note.
+ */
+export const toUserContent = (
+  message: ChatMessage,
+  canReadAttachments: boolean,
+  signedUrls: Map<string, string>
+): UserContent => {
+  const attachments = message.experimental_attachments ?? [];
+  if (attachments.length === 0) {
+    return message.content || '';
+  }
+
+  const parts: (ImagePart | FilePart)[] = [];
+  const unreadable: string[] = [];
+
+  attachments.forEach((attachment) => {
+    const signedUrl = signedUrls.get(attachment.url);
+    const url = signedUrl && isAttachmentUrl(signedUrl) ? new URL(signedUrl) : null;
+    if (url && canReadAttachments && isImageAttachment(attachment)) {
+      parts.push({ type: 'image', image: url, mimeType: attachment.contentType });
+    } else if (url && canReadAttachments && DOCUMENT_TYPES.includes(attachment.contentType ?? '')) {
+      parts.push({
+        type: 'file',
+        data: url,
+        mimeType: attachment.contentType ?? 'application/octet-stream',
+        filename: attachment.name,
+      });
+    } else {
+      unreadable.push(attachment.name ?? attachment.url.split('/').pop() ?? 'file');
+    }
+  });
+
+  const note = unreadable.length > 0 ? `\n\n[Attached files: ${unreadable.join(', ')}]` : '';
+  const text: TextPart = { type: 'text', text: `${message.content}${note}`.trim() };
+
+  return text.text ? [text, ...parts] : parts;
+};
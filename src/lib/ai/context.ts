@@ -0,0 +1,142 @@
+/**
+ * Context Window Builder
+ * Fits conversation history into the prompt budget, folding older turns into a rolling summary
+ *
+ * The summary is stored in `conversations.metadata.context_summary` and sent as a
+ * system preamble. Messages after its `throughMessageId` are sent verbatim until
+ * they outgrow the budget again.
+ */
+import { generateText, type LanguageModel } from 'ai';
+import { config } from '@/config';
+import { ContextSummarySchema, type ChatMessage, type ContextSummary } from '@/types/api';
+
+// When history overflows, only this share of the limits is kept verbatim so the
+// next few turns fit without summarizing again
+const RETAINED_SHARE = 0.5;
+
+const SUMMARY_MAX_TOKENS = 500;
+
+const SUMMARY_PROMPT =
+  'Summarize the conversation below so it can replace the original messages as context for future replies. ' +
+  'Keep facts, decisions, conclusions, open questions and user preferences. Be concise and write in the third person. ' +
+  'If a previous summary is included, merge it with the new messages into a single summary.';
+
+export interface ContextLimits {
+  maxMessages: number;
+  /** Estimated tokens available for history, after reserving room for the reply */
+  tokenBudget: number;
+}
+
+export interface ContextPlan {
+  /** Messages sent verbatim, oldest first */
+  messages: ChatMessage[];
+  /** Existing summary covering the messages before `messages` */
+  summary: ContextSummary | null;
+  /** Older messages that no longer fit and should be folded into the summary */
+  toSummarize: ChatMessage[];
+}
+
+/**
+ * Rough token estimate - about four characters per token for English text
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * Read the rolling summary from `conversations.metadata.context_summary`
+ * An invalid summary is ignored rather than failing the request
+ */
+export const getContextSummary = (
+  metadata: Record<string, any> | null | undefined
+): ContextSummary | null => {
+  const parsed = ContextSummarySchema.safeParse(metadata?.context_summary);
+  return parsed.success ? parsed.data : null;
+};
+
+/**
+ * Limits from config.ai - `maxMessages` and `contextTokens` minus the reply budget
+ */
+export const getContextLimits = (maxResponseTokens: number): ContextLimits => ({
+  maxMessages: config.ai.maxMessages,
+  tokenBudget: Math.max(config.ai.contextTokens - maxResponseTokens, 0),
+});
+
+/**
+ * Decide which messages are sent verbatim and which must be summarized
+ * The latest message is always sent verbatim.
+ */
+export const planContext = (
+  messages: ChatMessage[],
+  summary: ContextSummary | null,
+  limits: ContextLimits
+): ContextPlan => {
+  // A summary only applies to the branch containing its last summarized message
+  const throughIndex = summary
+    ? messages.findIndex((message) => message.id === summary.throughMessageId)
+    : -1;
+  const activeSummary = throughIndex === -1 ? null : summary;
+  const remaining = messages.slice(throughIndex + 1);
+  const summaryTokens = activeSummary ? estimateTokens(activeSummary.text) : 0;
+
+  const fits = (count: number, tokens: number, share: number) =>
+    count <= limits.maxMessages * share && tokens + summaryTokens <= limits.tokenBudget * share;
+
+  const totalTokens = remaining.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+  if (remaining.length === 0 || fits(remaining.length, totalTokens, 1)) {
+    return { messages: remaining, summary: activeSummary, toSummarize: [] };
+  }
+
+  // Walk back from the newest message while the retained share still fits
+  let keepFrom = remaining.length - 1;
+  let keptTokens = estimateTokens(remaining[keepFrom].content);
+  while (keepFrom > 0) {
+    const nextTokens = keptTokens + estimateTokens(remaining[keepFrom - 1].content);
+    if (!fits(remaining.length - keepFrom + 1, nextTokens, RETAINED_SHARE)) break;
+    keptTokens = nextTokens;
+    keepFrom--;
+  }
+
+  return {
+    messages: remaining.slice(keepFrom),
+    summary: activeSummary,
+    toSummarize: remaining.slice(0, keepFrom),
+  };
+};
+
+/**
+ * Fold messages into the rolling summary
+ */
+export const summarizeHistory = async (
+  model: LanguageModel,
+  previousSummary: ContextSummary | null,
+  messages: ChatMessage[]
+): Promise<ContextSummary> => {
+  const transcript = messages.map((message) => `${message.role}: ${message.content}`).join('\n\n');
+
+  const { text } = await generateText({
+    model,
+    temperature: 0,
+    maxTokens: SUMMARY_MAX_TOKENS,
+    messages: [
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: previousSummary
+          ? `Previous summary:\n${previousSummary.text}\n\nNew messages:\n${transcript}`
+          : transcript,
+      },
+    ],
+  });
+
+  return {
+    text: text.trim(),
+    throughMessageId: messages.at(-1)?.id ?? '',
+    messageCount: (previousSummary?.messageCount ?? 0) + messages.length,
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * System message that stands in for the summarized messages
+ */
+export const toSummaryPreamble = (summary: ContextSummary): string =>
+  `Summary of earlier messages in this conversation:\n${summary.text}`;
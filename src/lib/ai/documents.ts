@@ -0,0 +1,223 @@
+/**
+ * Document Retrieval
+ * Parses files attached to a conversation into chunks, embeds them into `document_chunks`
+ * and retrieves the excerpts most relevant to a query
+ *
+ * Indexing uses the same embedding model as message history, so `mock:hash` keeps
+ * the whole pipeline local and deterministic. Database calls run as the caller.
+ */
+import { embed, embedMany } from 'ai';
+import { extractText } from 'unpdf';
+import { config } from '@/config';
+import type { DatabaseHelpers, DocumentChunkMatch } from '@/lib/supabase';
+import { readLimitedBody } from '@/lib/api/body';
+import type { ChatAttachment } from '@/types/api';
+import { isAttachmentUrl } from './attachments';
+import { resolveEmbeddingModel } from './providers';
+
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 200;
+
+// Longer files are truncated so one upload cannot run up the embedding bill
+const MAX_DOCUMENT_LENGTH = 200_000;
+
+// Downloads stop here - the bucket's own upload limit
+const getMaxDocumentBytes = () => config.storage.maxAttachmentSizeMb * 1024 * 1024;
+
+const DOCUMENT_TYPES: Record<string, 'pdf' | 'text'> = {
+  'application/pdf': 'pdf',
+  'text/markdown': 'text',
+  'text/x-markdown': 'text',
+  'text/plain': 'text',
+};
+
+const DOCUMENT_EXTENSIONS: Record<string, 'pdf' | 'text'> = {
+  pdf: 'pdf',
+  md: 'text',
+  markdown: 'text',
+  txt: 'text',
+};
+
+export interface ChunkOptions {
+  chunkSize?: number;
+  overlap?: number;
+}
+
+export interface DocumentSearchOptions {
+  limit?: number;
+  minSimilarity?: number;
+}
+
+const getDocumentFormat = (attachment: ChatAttachment): 'pdf' | 'text' | null => {
+  const byType = DOCUMENT_TYPES[attachment.contentType?.split(';')[0] ?? ''];
+  if (byType) return byType;
+
+  // Pickers often report Markdown as application/octet-stream
+  const extension = (attachment.name ?? attachment.url).split('.').pop()?.toLowerCase() ?? '';
+  return DOCUMENT_EXTENSIONS[extension] ?? null;
+};
+
+/**
+ * Whether an attachment is a PDF, Markdown or text file that can be indexed
+ */
+export const isDocumentAttachment = (attachment: ChatAttachment): boolean =>
+  getDocumentFormat(attachment) !== null;
+
+/**
+ * Split text into overlapping chunks, breaking at paragraphs, sentences or words
+ * The same text always produces the same chunks.
+ */
+export const chunkText = (
+  text: string,
+  { chunkSize = CHUNK_SIZE, overlap = CHUNK_OVERLAP }: ChunkOptions = {}
+): string[] => {
+  const normalized = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  const chunks: string[] = [];
+
+  let start = 0;
+  while (start < normalized.length) {
+    let end = Math.min(start + chunkSize, normalized.length);
+    if (end < normalized.length) {
+      // Break at the last boundary in the second half of the window, if there is one
+      const window = normalized.slice(start, end);
+      const breakAt = ['\n\n', '. ', '\n', ' ']
+        .map((separator) => window.lastIndexOf(separator))
+        .find((index) => index > chunkSize / 2);
+      if (breakAt !== undefined) {
+        end = start + breakAt + 1;
+      }
+    }
+
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) {
+      chunks.push(chunk);
+    }
+    if (end >= normalized.length) break;
+
+    // Step back by the overlap, then forward to the next word so chunks start cleanly
+    const overlapStart = Math.max(end - overlap, start + 1);
+    const nextWord = normalized.indexOf(' ', overlapStart);
+    start = nextWord !== -1 && nextWord < end ? nextWord + 1 : overlapStart;
+  }
+
+  return chunks;
+};
+
+/**
+ * Download an attachment from its signed URL and extract its text
+ * Only files in the app's attachments bucket are fetched, without following redirects.
+ */
+export const extractDocumentText = async (
+  attachment: ChatAttachment,
+  signedUrl: string
+): Promise<string> => {
+  const format = getDocumentFormat(attachment);
+  if (!format) {
+    throw new Error(`Unsupported document type: ${attachment.contentType ?? attachment.name}`);
+  }
+  if (!isAttachmentUrl(signedUrl)) {
+    throw new Error(`${attachment.name ?? 'Document'} is not stored in the attachments bucket`);
+  }
+
+  const response = await fetch(signedUrl, { redirect: 'error' });
+  if (!response.ok) {
+    throw new Error(`Failed to download ${attachment.name ?? 'document'}: ${response.status}`);
+  }
+
+  const maxBytes = getMaxDocumentBytes();
+  const body = await readLimitedBody(response, maxBytes);
+  if (!body) {
+    throw new Error(`${attachment.name ?? 'Document'} is larger than ${maxBytes} bytes`);
+  }
+  const text =
+    format === 'pdf'
+      ? (await extractText(body, { mergePages: true })).text
+      : new TextDecoder().decode(body);
+
+  return text.slice(0, MAX_DOCUMENT_LENGTH);
+};
+
+/**
+ * Parse, chunk and embed the document attachments of a message
+ * Non-document attachments are skipped, and a file that fails does not stop the others.
+ * Chunks keep the stored attachment URL, not the signed URL it was downloaded from.
+ * @returns Number of chunks indexed
+ */
+export const indexDocuments = async (
+  db: DatabaseHelpers,
+  conversationId: string,
+  messageId: string | null,
+  attachments: ChatAttachment[],
+  signedUrls: Map<string, string>
+): Promise<number> => {
+  const { modelId, model } = resolveEmbeddingModel();
+  let indexed = 0;
+
+  for (const attachment of attachments.filter(isDocumentAttachment)) {
+    try {
+      const signedUrl = signedUrls.get(attachment.url);
+      if (!signedUrl) {
+        throw new Error('Could not sign the attachment URL');
+      }
+
+      const chunks = chunkText(await extractDocumentText(attachment, signedUrl));
+      if (chunks.length === 0) continue;
+
+      const { embeddings } = await embedMany({ model, values: chunks });
+      const { data, error } = await db.upsertDocumentChunks(
+        chunks.map((content, index) => ({
+          conversation_id: conversationId,
+          message_id: messageId,
+          source_url: attachment.url,
+          source_name: attachment.name ?? attachment.url.split('/').pop() ?? 'Document',
+          chunk_index: index,
+          content,
+          model: modelId,
+          embedding: JSON.stringify(embeddings[index]),
+        }))
+      );
+
+      if (error) {
+        throw new Error(error.message);
+      }
+      // RLS filters rows silently, so a missing row means the caller cannot write to the conversation
+      if ((data?.length ?? 0) < chunks.length) {
+        throw new Error(`Only ${data?.length ?? 0} of ${chunks.length} chunks were saved`);
+      }
+
+      indexed += chunks.length;
+    } catch (error) {
+      console.error(`Failed to index ${attachment.name ?? attachment.url}:`, error);
+    }
+  }
+
+  return indexed;
+};
+
+/**
+ * Find the chunks of a conversation's documents most similar to a query
+ */
+export const searchDocuments = async (
+  db: DatabaseHelpers,
+  conversationId: string,
+  query: string,
+  { limit = 5, minSimilarity }: DocumentSearchOptions = {}
+): Promise<DocumentChunkMatch[]> => {
+  const { modelId, model } = resolveEmbeddingModel();
+  const { embedding } = await embed({ model, value: query });
+
+  const { data, error } = await db.matchDocumentChunks(embedding, modelId, conversationId, {
+    matchCount: limit,
+    minSimilarity,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data ?? [];
+};
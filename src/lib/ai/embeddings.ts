@@ -0,0 +1,86 @@
+/**
+ * Message Embeddings
+ * Indexes saved messages into `message_embeddings` and retrieves similar past messages
+ *
+ * Both run as the caller - pass the `db` of a request session so RLS can resolve auth.uid().
+ */
+import { embed, embedMany } from 'ai';
+import type { DatabaseHelpers, MessageEmbeddingMatch } from '@/lib/supabase';
+import { resolveEmbeddingModel } from './providers';
+
+export interface IndexableMessage {
+  id: string;
+  conversationId: string;
+  content: string;
+}
+
+export interface HistorySearchOptions {
+  limit?: number;
+  minSimilarity?: number;
+  /** Usually the current conversation, which the model already has in context */
+  excludeConversationId?: string;
+}
+
+/**
+ * Embed and store messages - existing embeddings for the same ids are replaced
+ * @returns Number of messages indexed
+ */
+export const indexMessageEmbeddings = async (
+  db: DatabaseHelpers,
+  messages: IndexableMessage[]
+): Promise<number> => {
+  const indexable = messages.filter((message) => message.content.trim());
+  if (indexable.length === 0) return 0;
+
+  const { modelId, model } = resolveEmbeddingModel();
+  const { embeddings } = await embedMany({
+    model,
+    values: indexable.map((message) => message.content),
+  });
+
+  const { data, error } = await db.upsertMessageEmbeddings(
+    indexable.map((message, index) => ({
+      message_id: message.id,
+      conversation_id: message.conversationId,
+      model: modelId,
+      embedding: JSON.stringify(embeddings[index]),
+    }))
+  );
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  // RLS filters rows silently, so a missing row means the caller cannot write to its conversation
+  if ((data?.length ?? 0) < indexable.length) {
+    throw new Error(
+      `Only ${data?.length ?? 0} of ${indexable.length} message embeddings were saved`
+    );
+  }
+
+  return indexable.length;
+};
+
+/**
+ * Find past messages semantically similar to a query
+ */
+export const searchMessageHistory = async (
+  db: DatabaseHelpers,
+  query: string,
+  { limit = 5, minSimilarity, excludeConversationId }: HistorySearchOptions = {}
+): Promise<MessageEmbeddingMatch[]> => {
+  const { modelId, model } = resolveEmbeddingModel();
+  const { embedding } = await embed({ model, value: query });
+
+  const { data, error } = await db.matchMessageEmbeddings(embedding, modelId, {
+    matchCount: limit,
+    minSimilarity,
+    excludeConversationId,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data ?? [];
+};
@@ -0,0 +1,61 @@
+/**
+ * Generation Settings Resolution
+ * Merges request parameters, per-conversation settings and app defaults
+ */
+import type { FinishReason } from 'ai';
+import { config } from '@/config';
+import {
+  ConversationSettingsSchema,
+  type ChatRequest,
+  type ChatResponse,
+  type ConversationSettings,
+} from '@/types/api';
+
+export interface GenerationSettings {
+  temperature: number;
+  maxTokens: number;
+  stream: boolean;
+}
+
+/**
+ * Read generation settings from `conversations.metadata.settings`
+ * Invalid or missing settings are ignored rather than failing the request
+ */
+export const getConversationSettings = (
+  metadata: Record<string, any> | null | undefined
+): ConversationSettings => {
+  const parsed = ConversationSettingsSchema.safeParse(metadata?.settings ?? {});
+  return parsed.success ? parsed.data : {};
+};
+
+/**
+ * Resolve generation settings: request → conversation settings → config.ai
+ * Persona defaults should already be merged beneath the conversation settings
+ */
+export const resolveGenerationSettings = (
+  request: Pick<ChatRequest, 'temperature' | 'maxTokens' | 'stream'>,
+  conversationSettings: ConversationSettings = {}
+): GenerationSettings => ({
+  temperature:
+    request.temperature ?? conversationSettings.temperature ?? config.ai.defaultTemperature,
+  maxTokens: request.maxTokens ?? conversationSettings.maxTokens ?? config.ai.maxTokens,
+  stream: request.stream ?? config.ai.streamingEnabled,
+});
+
+/**
+ * Map AI SDK finish reasons onto the ChatResponseSchema values
+ */
+export const toChatFinishReason = (
+  finishReason: FinishReason
+): ChatResponse['choices'][number]['finish_reason'] => {
+  switch (finishReason) {
+    case 'stop':
+      return 'stop';
+    case 'length':
+      return 'length';
+    case 'tool-calls':
+      return 'tool_calls';
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,75 @@
+/**
+ * Deterministic Local Embedding Model
+ * Feature-hashing embedder that runs offline - no network or API key required
+ *
+ * Words and word pairs are hashed into a fixed number of buckets, so texts that
+ * share vocabulary land close together. It captures keyword overlap rather than
+ * meaning, which is enough for development, demos and tests.
+ */
+import type { EmbeddingModel } from 'ai';
+
+const BIGRAM_WEIGHT = 0.5;
+
+/**
+ * 32-bit FNV-1a hash
+ */
+const hashToken = (token: string): number => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < token.length; index++) {
+    hash ^= token.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const tokenize = (text: string): string[] => {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1);
+};
+
+/**
+ * Embed a single text into a unit-length vector
+ */
+export const embedText = (text: string, dimensions: number): number[] => {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = tokenize(text);
+
+  const addFeature = (feature: string, weight: number) => {
+    const hash = hashToken(feature);
+    // The top bit picks the sign so unrelated collisions tend to cancel out
+    vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  tokens.forEach((token, index) => {
+    addFeature(token, 1);
+    if (index > 0) {
+      addFeature(`${tokens[index - 1]} ${token}`, BIGRAM_WEIGHT);
+    }
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+};
+
+/**
+ * Create a mock embedding model producing `dimensions`-length vectors
+ */
+export const createMockEmbeddingModel = (
+  modelId: string,
+  dimensions: number
+): EmbeddingModel<string> => ({
+  specificationVersion: 'v1',
+  provider: 'mock',
+  modelId,
+  maxEmbeddingsPerCall: undefined,
+  supportsParallelCalls: true,
+
+  async doEmbed({ values }) {
+    return {
+      embeddings: values.map((value) => embedText(value, dimensions)),
+      usage: { tokens: values.reduce((sum, value) => sum + tokenize(value).length, 0) },
+    };
+  },
+});
@@ -0,0 +1,103 @@
+/**
+ * Deterministic Mock Language Model
+ * Offline model used for development, demos and tests - no network or API key required
+ */
+import { simulateReadableStream, type LanguageModel } from 'ai';
+
+type CallOptions = Parameters<LanguageModel['doStream']>[0];
+
+/**
+ * Extract the text of the most recent user message from a provider prompt
+ */
+const getLastUserText = (prompt: CallOptions['prompt']): string => {
+  for (let index = prompt.length - 1; index >= 0; index--) {
+    const message = prompt[index];
+    if (message.role === 'user') {
+      return message.content
+        .map((part) => (part.type === 'text' ? part.text : ''))
+        .join(' ')
+        .trim();
+    }
+  }
+  return '';
+};
+
+/**
+ * Rough whitespace token count - good enough for usage metadata
+ */
+const countTokens = (text: string): number => {
+  return text.split(/\s+/).filter(Boolean).length;
+};
+
+const countPromptTokens = (prompt: CallOptions['prompt']): number => {
+  return prompt.reduce((sum, message) => {
+    if (typeof message.content === 'string') {
+      return sum + countTokens(message.content);
+    }
+    return (
+      sum +
+      message.content.reduce(
+        (partSum, part) => partSum + (part.type === 'text' ? countTokens(part.text) : 0),
+        0
+      )
+    );
+  }, 0);
+};
+
+/**
+ * Build the deterministic reply for a prompt
+ */
+const buildReply = (prompt: CallOptions['prompt']): string => {
+  const userText = getLastUserText(prompt);
+  return userText ? `Mock response to: ${userText}` : 'Mock response.';
+};
+
+/**
+ * Create a mock language model that echoes the latest user message
+ */
+export const createMockLanguageModel = (modelId: string = 'echo'): LanguageModel => ({
+  specificationVersion: 'v1',
+  provider: 'mock',
+  modelId,
+  defaultObjectGenerationMode: undefined,
+
+  async doGenerate(options) {
+    const text = buildReply(options.prompt);
+    return {
+      text,
+      finishReason: 'stop',
+      usage: {
+        promptTokens: countPromptTokens(options.prompt),
+        completionTokens: countTokens(text),
+      },
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  },
+
+  async doStream(options) {
+    const text = buildReply(options.prompt);
+    const words = text.split(' ');
+
+    return {
+      stream: simulateReadableStream({
+        chunks: [
+          ...words.map((word, index) => ({
+            type: 'text-delta' as const,
+            textDelta: index === 0 ? word : ` ${word}`,
+          })),
+          {
+            type: 'finish' as const,
+            finishReason: 'stop' as const,
+            usage: {
+              promptTokens: countPromptTokens(options.prompt),
+              completionTokens: countTokens(text),
+            },
+          },
+        ],
+        initialDelayInMs: null,
+        chunkDelayInMs: null,
+      }),
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  },
+});
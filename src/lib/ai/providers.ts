@@ -0,0 +1,93 @@
+/**
+ * AI Model Provider Registry
+ * Resolves `provider:model` identifiers to language and embedding models for the chat API
+ */
+import { openai, createOpenAI } from '@ai-sdk/openai';
+import { anthropic } from '@ai-sdk/anthropic';
+import {
+  createProviderRegistry,
+  customProvider,
+  type EmbeddingModel,
+  type LanguageModel,
+} from 'ai';
+import { config } from '@/config';
+import type { ModelProvider } from '@/config/models';
+import { createMockLanguageModel } from './mock-model';
+import { createMockEmbeddingModel } from './mock-embedding-model';
+
+/**
+ * Length of every stored embedding - must match vector(512) in 006_message_embeddings.sql
+ */
+export const EMBEDDING_DIMENSIONS = 512;
+
+/**
+ * OpenAI with embeddings shortened to EMBEDDING_DIMENSIONS
+ */
+const openaiWithEmbeddings = customProvider({
+  textEmbeddingModels: {
+    'text-embedding-3-small': openai.textEmbeddingModel('text-embedding-3-small', {
+      dimensions: EMBEDDING_DIMENSIONS,
+    }),
+  },
+  fallbackProvider: openai,
+});
+
+/**
+ * OpenAI-compatible local endpoint (Ollama, LM Studio, vLLM...)
+ */
+const local = createOpenAI({
+  name: 'local',
+  baseURL: process.env.LOCAL_AI_BASE_URL || 'http://localhost:11434/v1',
+  apiKey: process.env.LOCAL_AI_API_KEY || 'local',
+  compatibility: 'compatible',
+});
+
+/**
+ * Deterministic provider for offline development and tests
+ */
+const mock = customProvider({
+  languageModels: {
+    echo: createMockLanguageModel('echo'),
+  },
+  textEmbeddingModels: {
+    hash: createMockEmbeddingModel('hash', EMBEDDING_DIMENSIONS),
+  },
+});
+
+export const modelRegistry = createProviderRegistry({
+  openai: openaiWithEmbeddings,
+  anthropic,
+  local,
+  mock,
+});
+
+export type RegistryModelId = `${ModelProvider}:${string}`;
+
+/**
+ * Resolve the language model for a chat request
+ * @throws {NoSuchModelError} If the provider or model is not registered
+ */
+export const resolveChatModel = (
+  requestedModelId?: string
+): { modelId: string; model: LanguageModel } => {
+  const modelId = requestedModelId || config.ai.defaultModel;
+  return {
+    modelId,
+    model: modelRegistry.languageModel(modelId as RegistryModelId),
+  };
+};
+
+/**
+ * Resolve the embedding model used to index and search message history
+ * @throws {NoSuchModelError} If the provider or model is not registered
+ */
+export const resolveEmbeddingModel = (): {
+  modelId: string;
+  model: EmbeddingModel<string>;
+} => {
+  const modelId = config.ai.embeddingModel;
+  return {
+    modelId,
+    model: modelRegistry.textEmbeddingModel(modelId as RegistryModelId),
+  };
+};
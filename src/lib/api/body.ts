@@ -0,0 +1,46 @@
+/**
+ * Size-Limited Bodies
+ * Reads request and response bodies without buffering more than a fixed number of bytes
+ */
+
+/**
+ * Body bytes, or null once the body is larger than `maxBytes`
+ * A larger Content-Length is rejected before anything is read. Bodies without one,
+ * or that lie about it, are cut off as soon as they pass the limit.
+ */
+export const readLimitedBody = async (
+  message: Request | Response,
+  maxBytes: number
+): Promise<Uint8Array | null> => {
+  const declaredLength = Number(message.headers.get('Content-Length'));
+  if (declaredLength > maxBytes) {
+    await message.body?.cancel();
+    return null;
+  }
+  if (!message.body) {
+    return new Uint8Array(0);
+  }
+
+  const reader = message.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+};
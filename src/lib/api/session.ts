@@ -0,0 +1,71 @@
+/**
+ * API Route Sessions
+ * Resolves the signed-in caller of an API route from its `Authorization: Bearer` header
+ *
+ * The returned helpers are bound to a client carrying the caller's access token,
+ * so every query runs under the same RLS policies as the app.
+ */
+import type { User } from '@supabase/supabase-js';
+import {
+  createDb,
+  createRequestClient,
+  createServiceClient,
+  createStorage,
+  type DatabaseHelpers,
+  type StorageHelpers,
+} from '@/lib/supabase';
+
+export interface RequestSession {
+  user: User;
+  accessToken: string;
+  db: DatabaseHelpers;
+  storage: StorageHelpers;
+}
+
+/**
+ * Bearer token sent by the app, or null
+ */
+export const getAccessToken = (req: Request): string | null => {
+  const match = req.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1]?.trim() || null;
+};
+
+/**
+ * Verify the caller's access token with Supabase Auth
+ * Returns null when there is no token, it is invalid or expired, or Supabase is not configured.
+ */
+export const getRequestSession = async (req: Request): Promise<RequestSession | null> => {
+  const accessToken = getAccessToken(req);
+  if (!accessToken) return null;
+
+  const client = createRequestClient(accessToken);
+  if (!client) return null;
+
+  const { data, error } = await client.auth.getUser(accessToken);
+  if (error || !data.user) {
+    return null;
+  }
+
+  return {
+    user: data.user,
+    accessToken,
+    db: createDb(client),
+    storage: createStorage(client),
+  };
+};
+
+/**
+ * Database helpers with the service role, or null when SUPABASE_SERVICE_ROLE_KEY is not set
+ * Bypasses RLS - only for writes the caller is not allowed to make directly, after the
+ * route has checked the caller's access itself.
+ */
+export const getServiceDb = (): DatabaseHelpers | null => {
+  const client = createServiceClient();
+  return client ? createDb(client) : null;
+};
+
+/**
+ * Authorization header for requests from the app to its API routes
+ */
+export const getAuthHeaders = (accessToken: string | null | undefined): Record<string, string> =>
+  accessToken ? { Authorization: `Bearer ${accessToken}` } : {};
@@ -0,0 +1,89 @@
+/**
+ * Connectivity
+ * Tracks whether the backend is reachable
+ *
+ * There is no native network listener, so the state comes from failed requests,
+ * browser online/offline events and a lightweight health check against Supabase.
+ */
+import { Platform } from 'react-native';
+import { config } from '@/config';
+
+// Type declarations for window
+declare const window:
+  | {
+      addEventListener?: (type: 'online' | 'offline', listener: () => void) => void;
+    }
+  | undefined;
+
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+// Messages fetch and supabase-js report when the request never reached the server
+const NETWORK_ERROR_PATTERNS = [
+  /network request failed/i,
+  /failed to fetch/i,
+  /network ?error/i,
+  /load failed/i,
+  /internet connection appears to be offline/i,
+];
+
+let isOnline = true;
+const listeners = new Set<(online: boolean) => void>();
+
+export const getIsOnline = (): boolean => isOnline;
+
+export const setOnline = (online: boolean): void => {
+  if (online === isOnline) return;
+  isOnline = online;
+  console.log(`[OFFLINE] Connectivity changed: ${online ? 'online' : 'offline'}`);
+  listeners.forEach((listener) => listener(online));
+};
+
+export const subscribeToConnectivity = (listener: (online: boolean) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * True when an error means the request could not reach the server
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  const message =
+    error instanceof Error
+      ? error.message
+      : typeof error === 'object' && error !== null && 'message' in error
+        ? String((error as { message: unknown }).message)
+        : String(error ?? '');
+  return NETWORK_ERROR_PATTERNS.some((pattern) => pattern.test(message));
+};
+
+/**
+ * Ping the Supabase health endpoint and update the connectivity state
+ */
+export const checkConnectivity = async (): Promise<boolean> => {
+  if (!config.supabase.isConfigured) return isOnline;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${config.supabase.url}/auth/v1/health`, {
+      headers: { apikey: config.supabase.anonKey },
+      signal: controller.signal,
+    });
+    setOnline(response.ok);
+  } catch {
+    setOnline(false);
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  return isOnline;
+};
+
+// Browsers report connectivity changes directly
+if (Platform.OS === 'web' && typeof window !== 'undefined' && window.addEventListener) {
+  window.addEventListener('online', () => checkConnectivity());
+  window.addEventListener('offline', () => setOnline(false));
+}
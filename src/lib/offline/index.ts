@@ -0,0 +1,15 @@
+/**
+ * Offline Mode
+ * Local mirror, write queue and sync used when `CORE_FEATURES.enableOfflineMode` is on
+ */
+export { offlineStore } from './store';
+export type { QueuedOperation, NewQueuedOperation } from './store';
+export {
+  getIsOnline,
+  setOnline,
+  subscribeToConnectivity,
+  isNetworkError,
+  checkConnectivity,
+} from './connectivity';
+export { replayQueue, subscribeToSync } from './sync';
+export type { SyncResult } from './sync';
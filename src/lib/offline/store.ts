@@ -0,0 +1,146 @@
+/**
+ * Offline Store
+ * AsyncStorage mirror of conversations and messages, plus the queue of writes made offline
+ *
+ * Everything is stored per user, so writes queued by one account are only replayed
+ * once that account is signed in again, and another account never sees its cache.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { ConversationSummary, Database, Message } from '@/lib/supabase';
+
+type ConversationInsert = Database['public']['Tables']['conversations']['Insert'];
+type MessageInsert = Database['public']['Tables']['messages']['Insert'];
+
+/**
+ * A write made while offline - ids are generated on the device, so replaying
+ * an operation twice is detected as a duplicate instead of creating a copy
+ */
+export type QueuedOperation =
+  | {
+      id: string;
+      type: 'create_conversation';
+      payload: ConversationInsert & { id: string };
+      queuedAt: string;
+      attempts: number;
+    }
+  | {
+      id: string;
+      type: 'create_message';
+      payload: MessageInsert & { id: string };
+      queuedAt: string;
+      attempts: number;
+    };
+
+export type NewQueuedOperation = QueuedOperation extends infer TOperation
+  ? TOperation extends QueuedOperation
+    ? Omit<TOperation, 'id' | 'queuedAt' | 'attempts'>
+    : never
+  : never;
+
+const KEY_PREFIX = 'offline:';
+const queueKey = (userId: string) => `${KEY_PREFIX}queue:${userId}`;
+const conversationsKey = (userId: string) => `${KEY_PREFIX}conversations:${userId}`;
+const messagesKey = (userId: string, conversationId: string) =>
+  `${KEY_PREFIX}messages:${userId}:${conversationId}`;
+
+const queueListeners = new Set<{
+  userId: string;
+  listener: (queue: QueuedOperation[]) => void;
+}>();
+
+// Queue and message writes are read-modify-write, so they run one at a time
+let writeLock: Promise<unknown> = Promise.resolve();
+
+const readJson = async <T>(key: string, fallback: T): Promise<T> => {
+  try {
+    const value = await AsyncStorage.getItem(key);
+    return value ? (JSON.parse(value) as T) : fallback;
+  } catch (error) {
+    console.warn(`[OFFLINE] Failed to read ${key}:`, error);
+    return fallback;
+  }
+};
+
+const writeJson = async (key: string, value: unknown): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`[OFFLINE] Failed to write ${key}:`, error);
+  }
+};
+
+const withWriteLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const next = writeLock.then(task);
+  writeLock = next.catch(() => undefined);
+  return next;
+};
+
+const updateQueue = (
+  userId: string,
+  update: (queue: QueuedOperation[]) => QueuedOperation[]
+): Promise<QueuedOperation[]> =>
+  withWriteLock(async () => {
+    const queue = update(await readJson<QueuedOperation[]>(queueKey(userId), []));
+    await writeJson(queueKey(userId), queue);
+    queueListeners.forEach((entry) => {
+      if (entry.userId === userId) entry.listener(queue);
+    });
+    return queue;
+  });
+
+const sortByCreatedAt = (messages: Message[]) =>
+  [...messages].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+export const offlineStore = {
+  /**
+   * Mirrored data
+   */
+  getConversations: (userId: string) =>
+    readJson<ConversationSummary[]>(conversationsKey(userId), []),
+
+  saveConversations: (userId: string, conversations: ConversationSummary[]) =>
+    writeJson(conversationsKey(userId), conversations),
+
+  getMessages: (userId: string, conversationId: string) =>
+    readJson<Message[]>(messagesKey(userId, conversationId), []),
+
+  saveMessages: (userId: string, conversationId: string, messages: Message[]) =>
+    withWriteLock(() => writeJson(messagesKey(userId, conversationId), sortByCreatedAt(messages))),
+
+  // Add or replace messages by id
+  upsertMessages: (userId: string, conversationId: string, messages: Message[]) =>
+    withWriteLock(async () => {
+      const cached = await readJson<Message[]>(messagesKey(userId, conversationId), []);
+      const updatedIds = new Set(messages.map((message) => message.id));
+      await writeJson(
+        messagesKey(userId, conversationId),
+        sortByCreatedAt([...cached.filter((message) => !updatedIds.has(message.id)), ...messages])
+      );
+    }),
+
+  /**
+   * Write queue
+   */
+  getQueue: (userId: string) => readJson<QueuedOperation[]>(queueKey(userId), []),
+
+  enqueue: (userId: string, operation: NewQueuedOperation) =>
+    updateQueue(userId, (queue) => [
+      ...queue,
+      {
+        ...operation,
+        id: operation.payload.id,
+        queuedAt: new Date().toISOString(),
+        attempts: 0,
+      } as QueuedOperation,
+    ]),
+
+  updateQueue,
+
+  subscribeToQueue: (userId: string, listener: (queue: QueuedOperation[]) => void) => {
+    const entry = { userId, listener };
+    queueListeners.add(entry);
+    return () => {
+      queueListeners.delete(entry);
+    };
+  },
+};
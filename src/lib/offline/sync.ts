@@ -0,0 +1,147 @@
+/**
+ * Offline Sync
+ * Replays queued writes through `db` once the backend is reachable again
+ *
+ * Conflict handling:
+ * - Duplicate id (23505): the write already reached the server before the
+ *   connection dropped, so it counts as synced
+ * - Missing conversation (23503): it was deleted on another device, so the
+ *   write is dropped
+ * - Messages get their `version` when replayed, so a message added under the
+ *   same parent on another device becomes a sibling branch instead of being overwritten
+ */
+import { db } from '@/lib/supabase';
+import { isNetworkError, setOnline } from './connectivity';
+import { offlineStore, type QueuedOperation } from './store';
+
+// Operations failing for other reasons are retried on later syncs, then dropped
+const MAX_ATTEMPTS = 5;
+
+const UNIQUE_VIOLATION = '23505';
+const FOREIGN_KEY_VIOLATION = '23503';
+
+export interface SyncResult {
+  /** Operations now on the server */
+  synced: QueuedOperation[];
+  /** Operations discarded because of a conflict or repeated failures */
+  dropped: QueuedOperation[];
+  /** Operations still waiting */
+  remaining: number;
+}
+
+type OperationOutcome = 'synced' | 'dropped' | 'retry' | 'offline';
+
+interface OperationError {
+  message: string;
+  code?: string;
+}
+
+const syncListeners = new Set<(result: SyncResult) => void>();
+const activeSyncs = new Map<string, Promise<SyncResult>>();
+
+const runOperation = async (operation: QueuedOperation): Promise<OperationError | null> => {
+  if (operation.type === 'create_conversation') {
+    const { error } = await db.createConversation(operation.payload);
+    return error;
+  }
+
+  const { payload } = operation;
+  const { data: version, error: versionError } = await db.getNextMessageVersion(
+    payload.conversation_id,
+    payload.parent_message_id ?? null
+  );
+  if (versionError) return versionError;
+
+  const { error } = await db.createMessage({ ...payload, version: version ?? 1 });
+  return error;
+};
+
+const replayOperation = async (operation: QueuedOperation): Promise<OperationOutcome> => {
+  try {
+    const error = await runOperation(operation);
+    if (!error || error.code === UNIQUE_VIOLATION) return 'synced';
+    if (isNetworkError(error)) return 'offline';
+    if (error.code === FOREIGN_KEY_VIOLATION) return 'dropped';
+
+    console.error(`[OFFLINE] Failed to replay ${operation.type}:`, error);
+    return operation.attempts + 1 >= MAX_ATTEMPTS ? 'dropped' : 'retry';
+  } catch (error) {
+    if (isNetworkError(error)) return 'offline';
+    console.error(`[OFFLINE] Failed to replay ${operation.type}:`, error);
+    return operation.attempts + 1 >= MAX_ATTEMPTS ? 'dropped' : 'retry';
+  }
+};
+
+const runSync = async (userId: string): Promise<SyncResult> => {
+  const queue = await offlineStore.getQueue(userId);
+  const synced: QueuedOperation[] = [];
+  const dropped: QueuedOperation[] = [];
+  const retried = new Set<string>();
+  const blockedConversations = new Set<string>();
+
+  // In order, so a conversation is created before its messages
+  for (const operation of queue) {
+    const conversationId =
+      operation.type === 'create_conversation'
+        ? operation.payload.id
+        : operation.payload.conversation_id;
+
+    // Later writes wait for an earlier failed write to the same conversation
+    if (blockedConversations.has(conversationId)) continue;
+
+    const outcome = await replayOperation(operation);
+    if (outcome === 'offline') {
+      setOnline(false);
+      break;
+    }
+
+    if (outcome === 'synced') {
+      synced.push(operation);
+    } else if (outcome === 'dropped') {
+      console.warn(`[OFFLINE] Dropped queued ${operation.type}:`, operation.id);
+      dropped.push(operation);
+    } else {
+      retried.add(operation.id);
+      blockedConversations.add(conversationId);
+    }
+  }
+
+  const finishedIds = new Set([...synced, ...dropped].map((operation) => operation.id));
+  const remainingQueue = await offlineStore.updateQueue(userId, (current) =>
+    current
+      .filter((operation) => !finishedIds.has(operation.id))
+      .map((operation) =>
+        retried.has(operation.id) ? { ...operation, attempts: operation.attempts + 1 } : operation
+      )
+  );
+
+  const result = { synced, dropped, remaining: remainingQueue.length };
+  if (synced.length > 0 || dropped.length > 0) {
+    syncListeners.forEach((listener) => listener(result));
+  }
+  return result;
+};
+
+/**
+ * Replay the signed-in user's queue - concurrent calls share the sync already in progress
+ */
+export const replayQueue = (userId: string): Promise<SyncResult> => {
+  let activeSync = activeSyncs.get(userId);
+  if (!activeSync) {
+    activeSync = runSync(userId).finally(() => {
+      activeSyncs.delete(userId);
+    });
+    activeSyncs.set(userId, activeSync);
+  }
+  return activeSync;
+};
+
+/**
+ * Listen for completed syncs that changed server data
+ */
+export const subscribeToSync = (listener: (result: SyncResult) => void) => {
+  syncListeners.add(listener);
+  return () => {
+    syncListeners.delete(listener);
+  };
+};
@@ -0,0 +1,65 @@
+import { createMockTextToSpeechProvider } from '../mock-tts-provider';
+
+const SAMPLE_RATE = 8000;
+
+const readHeader = (audio: Uint8Array) => {
+  const view = new DataView(audio.buffer, audio.byteOffset, audio.byteLength);
+  const readString = (offset: number) => String.fromCharCode(...audio.slice(offset, offset + 4));
+  return {
+    riff: readString(0),
+    wave: readString(8),
+    channels: view.getUint16(22, true),
+    sampleRate: view.getUint32(24, true),
+    bitsPerSample: view.getUint16(34, true),
+    dataSize: view.getUint32(40, true),
+  };
+};
+
+const durationOf = (audio: Uint8Array) => readHeader(audio).dataSize / 2 / SAMPLE_RATE;
+
+describe('createMockTextToSpeechProvider', () => {
+  const provider = createMockTextToSpeechProvider();
+
+  it('returns a 16-bit mono WAV file', async () => {
+    const { audio, mimeType } = await provider.synthesize({ text: 'Hello there' });
+
+    expect(mimeType).toBe('audio/wav');
+    expect(readHeader(audio)).toEqual({
+      riff: 'RIFF',
+      wave: 'WAVE',
+      channels: 1,
+      sampleRate: SAMPLE_RATE,
+      bitsPerSample: 16,
+      dataSize: audio.byteLength - 44,
+    });
+  });
+
+  it('makes the audio longer for longer text, between 1 and 30 seconds', async () => {
+    const short = await provider.synthesize({ text: 'Hi' });
+    const medium = await provider.synthesize({ text: 'word '.repeat(10) });
+    const long = await provider.synthesize({ text: 'word '.repeat(500) });
+
+    expect(durationOf(short.audio)).toBe(1);
+    expect(durationOf(medium.audio)).toBe(3);
+    expect(durationOf(long.audio)).toBe(30);
+  });
+
+  it('returns the same audio for the same text', async () => {
+    const first = await provider.synthesize({ text: 'Same words every time' });
+    const second = await provider.synthesize({ text: 'Same words every time' });
+
+    expect(second.audio).toEqual(first.audio);
+  });
+
+  it('uses the synthesize override when given', async () => {
+    const audio = new Uint8Array([1, 2, 3]);
+    const custom = createMockTextToSpeechProvider({
+      synthesize: (text) => ({ audio, mimeType: `audio/test; words=${text.split(' ').length}` }),
+    });
+
+    expect(await custom.synthesize({ text: 'two words' })).toEqual({
+      audio,
+      mimeType: 'audio/test; words=2',
+    });
+  });
+});
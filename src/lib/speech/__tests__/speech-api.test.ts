@@ -0,0 +1,116 @@
+/**
+ * @jest-environment node
+ */
+import { POST } from '@/app/api/speech+api';
+import { getRequestSession, type RequestSession } from '@/lib/api/session';
+import type { Message } from '@/lib/supabase';
+import { createMockTextToSpeechProvider, setTextToSpeechProvider } from '@/lib/speech';
+
+jest.mock('@/lib/api/session', () => ({
+  getRequestSession: jest.fn(),
+}));
+
+const mockGetRequestSession = getRequestSession as jest.MockedFunction<typeof getRequestSession>;
+
+const MESSAGE_ID = '5b1d2c4e-8f3a-4b6d-9e2f-1a2b3c4d5e6f';
+
+const getMessage = jest.fn();
+
+const speechRequest = (body: unknown) =>
+  new Request('https://app.test/api/speech', {
+    method: 'POST',
+    headers: { Authorization: 'Bearer token', 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+const storedMessage = (overrides: Partial<Message>) => ({
+  data: { id: MESSAGE_ID, role: 'assistant', content: 'Stored reply', ...overrides },
+  error: null,
+});
+
+describe('POST /api/speech', () => {
+  const synthesize = jest.fn((text: string) => ({
+    audio: new TextEncoder().encode(text),
+    mimeType: 'audio/wav',
+  }));
+
+  beforeEach(() => {
+    getMessage.mockReset();
+    synthesize.mockClear();
+    mockGetRequestSession.mockResolvedValue({
+      user: { id: 'user-1' },
+      db: { getMessage },
+    } as unknown as RequestSession);
+    setTextToSpeechProvider(createMockTextToSpeechProvider({ synthesize }));
+  });
+
+  afterAll(() => {
+    setTextToSpeechProvider(null);
+  });
+
+  it('returns 401 when signed out', async () => {
+    mockGetRequestSession.mockResolvedValue(null);
+
+    const response = await POST(speechRequest({ messageId: MESSAGE_ID }));
+
+    expect(response.status).toBe(401);
+    expect(getMessage).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for an invalid message id', async () => {
+    const response = await POST(speechRequest({ messageId: 'not-a-uuid' }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 404 for messages the caller cannot see', async () => {
+    getMessage.mockResolvedValue({ data: null, error: null });
+
+    const response = await POST(speechRequest({ messageId: MESSAGE_ID }));
+
+    expect(response.status).toBe(404);
+    expect(synthesize).not.toHaveBeenCalled();
+  });
+
+  it.each(['user', 'system', 'tool'])('returns 404 for %s messages', async (role) => {
+    getMessage.mockResolvedValue(storedMessage({ role: role as Message['role'] }));
+
+    const response = await POST(speechRequest({ messageId: MESSAGE_ID }));
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.type).toBe('not_found');
+    expect(synthesize).not.toHaveBeenCalled();
+  });
+
+  it('reads the stored reply as plain text', async () => {
+    getMessage.mockResolvedValue(storedMessage({ content: '**Refunds** take [30 days](url) [1]' }));
+
+    const response = await POST(speechRequest({ messageId: MESSAGE_ID, voice: 'nova' }));
+
+    expect(getMessage).toHaveBeenCalledWith(MESSAGE_ID);
+    expect(synthesize).toHaveBeenCalledWith('Refunds take 30 days');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('audio/wav');
+    expect(response.headers.get('ETag')).toBe(`"${MESSAGE_ID}-nova"`);
+    expect(new TextDecoder().decode(await response.arrayBuffer())).toBe('Refunds take 30 days');
+  });
+
+  it('returns 400 when the reply has nothing to read', async () => {
+    getMessage.mockResolvedValue(storedMessage({ content: '[1] [2]' }));
+
+    const response = await POST(speechRequest({ messageId: MESSAGE_ID }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('passes the voice to the provider', async () => {
+    const provider = createMockTextToSpeechProvider();
+    const spy = jest.spyOn(provider, 'synthesize');
+    setTextToSpeechProvider(provider);
+    getMessage.mockResolvedValue(storedMessage({}));
+
+    await POST(speechRequest({ messageId: MESSAGE_ID, voice: 'alloy' }));
+
+    expect(spy).toHaveBeenCalledWith({ text: 'Stored reply', voice: 'alloy' });
+  });
+});
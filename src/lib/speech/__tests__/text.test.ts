@@ -0,0 +1,35 @@
+import { MAX_SPEECH_LENGTH, toSpeechText } from '../text';
+
+describe('toSpeechText', () => {
+  it('strips Markdown formatting', () => {
+    expect(
+      toSpeechText('# Summary\n\n> **Bold** and *italic* and ~~old~~ text\n- first\n* second')
+    ).toBe('Summary Bold and italic and old text first second');
+  });
+
+  it('keeps link and image text without the URLs', () => {
+    expect(toSpeechText('See [the docs](https://example.com) and ![a chart](chart.png).')).toBe(
+      'See the docs and a chart.'
+    );
+  });
+
+  it('skips code blocks and unwraps inline code', () => {
+    expect(toSpeechText('Run `npm test` first.\n\n```ts\nconst a = 1;\n```\nDone.')).toBe(
+      'Run npm test first. Code omitted. Done.'
+    );
+  });
+
+  it('drops citation markers', () => {
+    expect(toSpeechText('Refunds take 30 days [1] [2] on average.')).toBe(
+      'Refunds take 30 days on average.'
+    );
+  });
+
+  it('returns an empty string when nothing is left to read', () => {
+    expect(toSpeechText('  \n\n ')).toBe('');
+  });
+
+  it('truncates long replies to the speech limit', () => {
+    expect(toSpeechText('word '.repeat(2000))).toHaveLength(MAX_SPEECH_LENGTH);
+  });
+});
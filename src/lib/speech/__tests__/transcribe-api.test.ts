@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+import { POST } from '@/app/api/transcribe+api';
+import { getRequestSession, type RequestSession } from '@/lib/api/session';
+import { createMockSpeechToTextProvider, setSpeechToTextProvider } from '@/lib/speech';
+
+jest.mock('@/lib/api/session', () => ({
+  getRequestSession: jest.fn(),
+}));
+
+const mockGetRequestSession = getRequestSession as jest.MockedFunction<typeof getRequestSession>;
+
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+const transcribeRequest = (
+  body: RequestInit['body'],
+  headers: Record<string, string> = {},
+  query = ''
+) =>
+  new Request(`https://app.test/api/transcribe${query}`, {
+    method: 'POST',
+    headers: { Authorization: 'Bearer token', 'Content-Type': 'audio/mp4', ...headers },
+    body,
+  });
+
+const readError = async (response: Response) => (await response.json()).error;
+
+describe('POST /api/transcribe', () => {
+  beforeEach(() => {
+    mockGetRequestSession.mockResolvedValue({ user: { id: 'user-1' } } as RequestSession);
+    setSpeechToTextProvider(createMockSpeechToTextProvider());
+  });
+
+  afterAll(() => {
+    setSpeechToTextProvider(null);
+  });
+
+  it('returns 401 when signed out', async () => {
+    mockGetRequestSession.mockResolvedValue(null);
+
+    const response = await POST(transcribeRequest(new Uint8Array(16)));
+
+    expect(response.status).toBe(401);
+    expect(await readError(response)).toEqual({
+      message: 'Sign in to use voice input',
+      type: 'unauthorized',
+    });
+  });
+
+  it('returns 415 for content that is not audio', async () => {
+    const response = await POST(
+      transcribeRequest('hello', { 'Content-Type': 'text/plain; charset=utf-8' })
+    );
+
+    expect(response.status).toBe(415);
+    expect((await readError(response)).type).toBe('unsupported_media_type');
+  });
+
+  it('returns 413 when the declared size is over the limit', async () => {
+    const response = await POST(
+      transcribeRequest(new Uint8Array(16), { 'Content-Length': String(MAX_AUDIO_BYTES + 1) })
+    );
+
+    expect(response.status).toBe(413);
+    expect((await readError(response)).type).toBe('payload_too_large');
+  });
+
+  it('returns 413 when a streamed body passes the limit', async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent += chunk.byteLength;
+        controller.enqueue(chunk);
+        if (sent > MAX_AUDIO_BYTES) controller.close();
+      },
+    });
+
+    // The React Native fetch types know neither stream bodies nor `duplex`
+    const init: RequestInit & { duplex: 'half' } = {
+      method: 'POST',
+      headers: { Authorization: 'Bearer token', 'Content-Type': 'audio/mp4' },
+      body: body as unknown as RequestInit['body'],
+      duplex: 'half',
+    };
+    const response = await POST(new Request('https://app.test/api/transcribe', init));
+
+    expect(response.status).toBe(413);
+  });
+
+  it('returns 400 for an empty recording', async () => {
+    const response = await POST(transcribeRequest(new Uint8Array(0)));
+
+    expect(response.status).toBe(400);
+    expect((await readError(response)).type).toBe('validation_error');
+  });
+
+  it('returns the mock transcript with the language hint', async () => {
+    const response = await POST(transcribeRequest(new Uint8Array(2048), {}, '?language=fr'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      text: 'Mock transcription of 2048 bytes of audio.',
+      language: 'fr',
+    });
+  });
+
+  it('passes the audio and its type to the provider', async () => {
+    const transcript = jest.fn(() => 'Hello there');
+    setSpeechToTextProvider(createMockSpeechToTextProvider({ transcript }));
+
+    const response = await POST(
+      transcribeRequest(new Uint8Array([1, 2, 3]), { 'Content-Type': 'audio/webm;codecs=opus' })
+    );
+
+    expect(await response.json()).toEqual({ text: 'Hello there', language: 'en' });
+    expect(transcript).toHaveBeenCalledWith({
+      audio: new Uint8Array([1, 2, 3]),
+      mimeType: 'audio/webm',
+      language: undefined,
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Speech Providers
+ * Selects the speech-to-text adapter used by /api/transcribe and the
+ * text-to-speech adapter used by /api/speech
+ */
+import { config } from '@/config';
+import { createMockSpeechToTextProvider } from './mock-stt-provider';
+import { createOpenAISpeechToTextProvider } from './openai-stt-provider';
+import { createMockTextToSpeechProvider } from './mock-tts-provider';
+import { createOpenAITextToSpeechProvider } from './openai-tts-provider';
+import type { SpeechToTextProvider, TextToSpeechProvider } from './types';
+
+let speechToTextProvider: SpeechToTextProvider | null = null;
+let textToSpeechProvider: TextToSpeechProvider | null = null;
+
+/**
+ * Resolve the configured provider
+ * STT_PROVIDER=mock|openai; defaults to the mock adapter when mock API responses are enabled
+ */
+export const getSpeechToTextProvider = (): SpeechToTextProvider => {
+  if (!speechToTextProvider) {
+    const providerName =
+      process.env.STT_PROVIDER || (config.dev.mockApiResponses ? 'mock' : 'openai');
+    speechToTextProvider =
+      providerName === 'mock'
+        ? createMockSpeechToTextProvider()
+        : createOpenAISpeechToTextProvider({ model: process.env.STT_MODEL || undefined });
+  }
+  return speechToTextProvider;
+};
+
+/**
+ * Override the active provider (tests, custom adapters)
+ */
+export const setSpeechToTextProvider = (provider: SpeechToTextProvider | null): void => {
+  speechToTextProvider = provider;
+};
+
+/**
+ * Resolve the configured provider
+ * TTS_PROVIDER=mock|openai; defaults to the mock adapter when mock API responses are enabled
+ */
+export const getTextToSpeechProvider = (): TextToSpeechProvider => {
+  if (!textToSpeechProvider) {
+    const providerName =
+      process.env.TTS_PROVIDER || (config.dev.mockApiResponses ? 'mock' : 'openai');
+    textToSpeechProvider =
+      providerName === 'mock'
+        ? createMockTextToSpeechProvider()
+        : createOpenAITextToSpeechProvider({
+            model: process.env.TTS_MODEL || undefined,
+            voice: process.env.TTS_VOICE || undefined,
+          });
+  }
+  return textToSpeechProvider;
+};
+
+/**
+ * Override the active provider (tests, custom adapters)
+ */
+export const setTextToSpeechProvider = (provider: TextToSpeechProvider | null): void => {
+  textToSpeechProvider = provider;
+};
+
+export { createMockSpeechToTextProvider } from './mock-stt-provider';
+export { createOpenAISpeechToTextProvider } from './openai-stt-provider';
+export { createMockTextToSpeechProvider } from './mock-tts-provider';
+export { createOpenAITextToSpeechProvider } from './openai-tts-provider';
+export { toSpeechText } from './text';
+export type {
+  SpeechToTextProvider,
+  TranscriptionRequest,
+  TranscriptionOutput,
+  TextToSpeechProvider,
+  SpeechRequest,
+  SpeechOutput,
+} from './types';
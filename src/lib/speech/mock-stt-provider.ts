@@ -0,0 +1,25 @@
+/**
+ * Mock Speech-to-Text Provider
+ * Deterministic adapter for tests and offline development - never touches the network
+ */
+import type { SpeechToTextProvider, TranscriptionRequest } from './types';
+
+interface MockSpeechToTextProviderOptions {
+  /** Returned for every recording - defaults to a sentence naming the recording size */
+  transcript?: string | ((request: TranscriptionRequest) => string);
+}
+
+export const createMockSpeechToTextProvider = ({
+  transcript,
+}: MockSpeechToTextProviderOptions = {}): SpeechToTextProvider => ({
+  name: 'mock',
+
+  async transcribe(request) {
+    const text =
+      typeof transcript === 'function'
+        ? transcript(request)
+        : (transcript ?? `Mock transcription of ${request.audio.byteLength} bytes of audio.`);
+
+    return { text, language: request.language ?? 'en' };
+  },
+});
@@ -0,0 +1,73 @@
+/**
+ * Mock Text-to-Speech Provider
+ * Deterministic adapter for tests and offline development - never touches the network
+ *
+ * Produces a quiet WAV tone whose length follows the word count, so playback,
+ * pausing and seeking behave like real speech.
+ */
+import type { SpeechOutput, TextToSpeechProvider } from './types';
+
+const SAMPLE_RATE = 8000;
+const SECONDS_PER_WORD = 0.3;
+const MIN_SECONDS = 1;
+const MAX_SECONDS = 30;
+const TONE_HZ = 440;
+const AMPLITUDE = 0.1;
+
+interface MockTextToSpeechProviderOptions {
+  /** Overrides the tone, e.g. to return a recorded fixture */
+  synthesize?: (text: string) => SpeechOutput;
+}
+
+/**
+ * 16-bit mono PCM WAV
+ */
+const createToneWav = (seconds: number): Uint8Array => {
+  const sampleCount = Math.round(seconds * SAMPLE_RATE);
+  const dataSize = sampleCount * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let index = 0; index < value.length; index++) {
+      view.setUint8(offset + index, value.charCodeAt(index));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let sample = 0; sample < sampleCount; sample++) {
+    const value = Math.sin((2 * Math.PI * TONE_HZ * sample) / SAMPLE_RATE) * AMPLITUDE;
+    view.setInt16(44 + sample * 2, Math.round(value * 0x7fff), true);
+  }
+
+  return new Uint8Array(buffer);
+};
+
+export const createMockTextToSpeechProvider = ({
+  synthesize,
+}: MockTextToSpeechProviderOptions = {}): TextToSpeechProvider => ({
+  name: 'mock',
+
+  async synthesize({ text }) {
+    if (synthesize) {
+      return synthesize(text);
+    }
+
+    const wordCount = text.split(/\s+/).filter(Boolean).length;
+    const seconds = Math.min(Math.max(wordCount * SECONDS_PER_WORD, MIN_SECONDS), MAX_SECONDS);
+    return { audio: createToneWav(seconds), mimeType: 'audio/wav' };
+  },
+});
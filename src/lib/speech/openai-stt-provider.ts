@@ -0,0 +1,32 @@
+/**
+ * OpenAI Speech-to-Text Provider
+ * Production adapter backed by the OpenAI transcription API through the AI SDK
+ */
+import { openai } from '@ai-sdk/openai';
+import { experimental_transcribe as transcribe } from 'ai';
+import type { SpeechToTextProvider } from './types';
+
+interface OpenAISpeechToTextProviderOptions {
+  /** Transcription model, e.g. `whisper-1` or `gpt-4o-mini-transcribe` */
+  model?: string;
+}
+
+export const createOpenAISpeechToTextProvider = ({
+  model = 'whisper-1',
+}: OpenAISpeechToTextProviderOptions = {}): SpeechToTextProvider => ({
+  name: 'openai',
+
+  async transcribe({ audio, language }) {
+    const result = await transcribe({
+      model: openai.transcription(model),
+      audio,
+      ...(language && { providerOptions: { openai: { language } } }),
+    });
+
+    return {
+      text: result.text,
+      language: result.language,
+      durationInSeconds: result.durationInSeconds,
+    };
+  },
+});
@@ -0,0 +1,32 @@
+/**
+ * OpenAI Text-to-Speech Provider
+ * Production adapter backed by the OpenAI speech API through the AI SDK
+ */
+import { openai } from '@ai-sdk/openai';
+import { experimental_generateSpeech as generateSpeech } from 'ai';
+import type { TextToSpeechProvider } from './types';
+
+interface OpenAITextToSpeechProviderOptions {
+  /** Speech model, e.g. `tts-1` or `gpt-4o-mini-tts` */
+  model?: string;
+  /** Voice used when a request does not pick one, e.g. `alloy` */
+  voice?: string;
+}
+
+export const createOpenAITextToSpeechProvider = ({
+  model = 'tts-1',
+  voice: defaultVoice = 'alloy',
+}: OpenAITextToSpeechProviderOptions = {}): TextToSpeechProvider => ({
+  name: 'openai',
+
+  async synthesize({ text, voice }) {
+    const { audio } = await generateSpeech({
+      model: openai.speech(model),
+      text,
+      voice: voice ?? defaultVoice,
+      outputFormat: 'mp3',
+    });
+
+    return { audio: audio.uint8Array, mimeType: audio.mimeType || 'audio/mpeg' };
+  },
+});
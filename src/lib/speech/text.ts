@@ -0,0 +1,27 @@
+/**
+ * Speech Text
+ * Turns an assistant reply written in Markdown into text that reads naturally aloud
+ */
+
+// Request limit of the OpenAI speech API
+export const MAX_SPEECH_LENGTH = 4096;
+
+export const toSpeechText = (markdown: string): string => {
+  const text = markdown
+    // Code is skipped rather than spelled out symbol by symbol
+    .replace(/```[\s\S]*?```/g, ' Code omitted. ')
+    .replace(/`([^`]+)`/g, '$1')
+    // Images, then links keep only their text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    // Document citations such as [1]
+    .replace(/\[\d+\]/g, '')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/^\s*[-*+]\s+/gm, '')
+    .replace(/(\*\*|__|\*|~~)(.+?)\1/g, '$2')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return text.length > MAX_SPEECH_LENGTH ? text.slice(0, MAX_SPEECH_LENGTH) : text;
+};
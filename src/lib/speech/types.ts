@@ -0,0 +1,45 @@
+/**
+ * Speech Provider Types
+ */
+
+export interface TranscriptionRequest {
+  audio: Uint8Array;
+  /** e.g. `audio/mp4` or `audio/webm` */
+  mimeType: string;
+  /** ISO-639-1 hint, e.g. `en` - detected when omitted */
+  language?: string;
+}
+
+export interface TranscriptionOutput {
+  text: string;
+  language?: string;
+  durationInSeconds?: number;
+}
+
+/**
+ * Adapter interface implemented by every speech-to-text backend
+ */
+export interface SpeechToTextProvider {
+  readonly name: string;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionOutput>;
+}
+
+export interface SpeechRequest {
+  text: string;
+  /** Provider-specific voice name - the provider default when omitted */
+  voice?: string;
+}
+
+export interface SpeechOutput {
+  audio: Uint8Array;
+  /** e.g. `audio/mpeg` or `audio/wav` */
+  mimeType: string;
+}
+
+/**
+ * Adapter interface implemented by every text-to-speech backend
+ */
+export interface TextToSpeechProvider {
+  readonly name: string;
+  synthesize(request: SpeechRequest): Promise<SpeechOutput>;
+}
@@ -2,7 +2,16 @@
  * Supabase Configuration & Client Setup
  * Provides type-safe authentication and database access
  */
-import { createClient } from '@supabase/supabase-js';
+import {
+  createClient,
+  type Factor,
+  type SupabaseClient,
+  type Provider,
+  type RealtimeChannel,
+  type UserIdentity,
+  type VerifyOtpParams,
+  type RealtimePostgresChangesPayload,
+} from '@supabase/supabase-js';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AppState } from 'react-native';
 import 'react-native-url-polyfill/auto';
@@ -202,6 +211,8 @@ export interface Database {
           tool_results: Record<string, any>[];
           version: number;
           parent_message_id: string | null;
+          /** Author of a user message - null for assistant, system and tool messages */
+          user_id: string | null;
         };
         Insert: {
           id?: string;
@@ -217,6 +228,7 @@ export interface Database {
           tool_results?: Record<string, any>[];
           version?: number;
           parent_message_id?: string | null;
+          user_id?: string | null;
         };
         Update: {
           id?: string;
@@ -231,6 +243,7 @@ export interface Database {
           tool_results?: Record<string, any>[];
           version?: number;
           parent_message_id?: string | null;
+          user_id?: string | null;
         };
       };
       conversation_shares: {
@@ -261,6 +274,87 @@ export interface Database {
           expires_at?: string | null;
         };
       };
+      conversation_share_events: {
+        Row: {
+          id: string;
+          conversation_id: string;
+          share_id: string;
+          actor_id: string | null;
+          action: 'granted' | 'changed' | 'revoked';
+          shared_with: string | null;
+          previous_permissions: string[] | null;
+          permissions: string[] | null;
+          previous_expires_at: string | null;
+          expires_at: string | null;
+          created_at: string;
+        };
+        // Written by the record_conversation_share_event trigger only
+        Insert: never;
+        Update: never;
+      };
+      message_embeddings: {
+        Row: {
+          message_id: string;
+          conversation_id: string;
+          model: string;
+          // pgvector text form, e.g. "[0.1,0.2,...]"
+          embedding: string;
+          created_at: string;
+        };
+        Insert: {
+          message_id: string;
+          conversation_id: string;
+          model: string;
+          embedding: string;
+          created_at?: string;
+        };
+        Update: {
+          model?: string;
+          embedding?: string;
+        };
+      };
+      document_chunks: {
+        Row: {
+          id: string;
+          conversation_id: string;
+          message_id: string | null;
+          source_url: string;
+          source_name: string;
+          chunk_index: number;
+          content: string;
+          model: string;
+          // pgvector text form, e.g. "[0.1,0.2,...]"
+          embedding: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          conversation_id: string;
+          message_id?: string | null;
+          source_url: string;
+          source_name: string;
+          chunk_index: number;
+          content: string;
+          model: string;
+          embedding: string;
+          created_at?: string;
+        };
+        Update: {
+          content?: string;
+          embedding?: string;
+        };
+      };
+      mfa_recovery_codes: {
+        Row: {
+          id: string;
+          user_id: string;
+          code_hash: string;
+          created_at: string;
+        };
+        // Written only by generate_mfa_recovery_codes
+        Insert: never;
+        Update: never;
+      };
     };
     Views: {
       conversation_summaries: {
@@ -306,13 +400,66 @@ export interface Database {
         Returns: string;
       };
       cleanup_archived_conversations: {
-        Args: {};
+        Args: Record<string, never>;
         Returns: number;
       };
+      get_shared_conversation: {
+        Args: { share_token_param: string };
+        Returns: SharedConversationResult;
+      };
+      fork_conversation: {
+        Args: { conversation_id_param: string; share_token_param?: string | null };
+        Returns: string;
+      };
+      can_write_conversation: {
+        Args: { conversation_id_param: string };
+        Returns: boolean;
+      };
+      get_participant_profiles: {
+        Args: { user_ids: string[] };
+        Returns: ShareParticipant[];
+      };
+      find_profile_by_email: {
+        Args: { email_param: string };
+        Returns: ShareParticipant[];
+      };
+      search_messages: {
+        Args: { search_query: string; result_limit?: number };
+        Returns: MessageSearchResult[];
+      };
+      match_message_embeddings: {
+        Args: {
+          query_embedding: string;
+          embedding_model: string;
+          match_count?: number;
+          min_similarity?: number;
+          exclude_conversation_id?: string | null;
+        };
+        Returns: MessageEmbeddingMatch[];
+      };
+      match_document_chunks: {
+        Args: {
+          query_embedding: string;
+          embedding_model: string;
+          conversation_id_param: string;
+          match_count?: number;
+          min_similarity?: number;
+        };
+        Returns: DocumentChunkMatch[];
+      };
+      generate_mfa_recovery_codes: {
+        Args: { code_count?: number };
+        Returns: string[];
+      };
+      redeem_mfa_recovery_code: {
+        Args: { recovery_code: string };
+        Returns: boolean;
+      };
     };
     Enums: {
       message_role: 'user' | 'assistant' | 'system' | 'tool';
       conversation_status: 'active' | 'archived' | 'shared';
+      share_event_action: 'granted' | 'changed' | 'revoked';
     };
   };
 }
@@ -332,10 +479,49 @@ export const supabase =
           autoRefreshToken: true,
           persistSession: true,
           detectSessionInUrl: false,
+          // OAuth redirects return a one-time code that is exchanged in the app
+          flowType: 'pkce',
+        },
+      })
+    : null;
+
+type SupabaseDatabaseClient = SupabaseClient<Database>;
+
+/**
+ * Client for API routes acting on behalf of a signed-in caller
+ * Every request carries the caller's access token, so RLS and auth.uid() apply
+ * exactly as they do in the app. Nothing is persisted between requests.
+ */
+export const createRequestClient = (accessToken: string): SupabaseDatabaseClient | null =>
+  supabaseUrl && supabaseAnonKey
+    ? createClient<Database>(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: `Bearer ${accessToken}` } },
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+          detectSessionInUrl: false,
         },
       })
     : null;
 
+/**
+ * Client for API routes that need the service role, e.g. the auth admin API
+ * Bypasses RLS, so callers must check ownership themselves. Returns null in the app,
+ * where SUPABASE_SERVICE_ROLE_KEY is not bundled.
+ */
+export const createServiceClient = (): SupabaseDatabaseClient | null => {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  return supabaseUrl && serviceRoleKey
+    ? createClient<Database>(supabaseUrl, serviceRoleKey, {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+          detectSessionInUrl: false,
+        },
+      })
+    : null;
+};
+
 // Helper to check if Supabase is available
 export const isSupabaseConfigured = (): boolean => {
   return !!(supabaseUrl && supabaseAnonKey && supabase);
@@ -433,31 +619,210 @@ export const auth = {
     const { data, error } = await supabase.auth.updateUser(updates);
     return { data, error };
   },
+
+  /**
+   * Start an OAuth sign-in and return the provider URL without opening it
+   */
+  signInWithOAuth: async (provider: Provider, redirectTo: string) => {
+    if (!supabase) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo, skipBrowserRedirect: true },
+    });
+    return { data, error };
+  },
+
+  /**
+   * Email a sign-in link, creating the user on first use
+   */
+  sendMagicLink: async (email: string, redirectTo: string) => {
+    if (!supabase) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: redirectTo },
+    });
+    return { data, error };
+  },
+
+  /**
+   * Text a one-time sign-in code, creating the user on first use
+   */
+  sendPhoneOtp: async (phone: string) => {
+    if (!supabase) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await supabase.auth.signInWithOtp({ phone });
+    return { data, error };
+  },
+
+  /**
+   * Verify a one-time code from an email or SMS, or a token hash from a sign-in link
+   */
+  verifyOtp: async (params: VerifyOtpParams) => {
+    if (!supabase) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await supabase.auth.verifyOtp(params);
+    return { data, error };
+  },
+
+  /**
+   * Refresh the session now, e.g. after factors changed on the server
+   */
+  refreshSession: async () => {
+    if (!supabase) {
+      return { session: null, error: { message: 'Supabase not configured' } };
+    }
+    const {
+      data: { session },
+      error,
+    } = await supabase.auth.refreshSession();
+    return { session, error };
+  },
+
+  /**
+   * MFA factors of the current user, verified or not
+   */
+  listMfaFactors: async () => {
+    if (!supabase) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await supabase.auth.mfa.listFactors();
+    return { data, error };
+  },
+
+  /**
+   * Start TOTP enrollment - returns the QR code and secret for an authenticator app
+   */
+  enrollTotp: async (friendlyName?: string) => {
+    if (!supabase) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName });
+    return { data, error };
+  },
+
+  /**
+   * Verify a TOTP code, confirming a new factor or raising the session to aal2
+   */
+  verifyMfa: async (factorId: string, code: string) => {
+    if (!supabase) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+    return { data, error };
+  },
+
+  /**
+   * Remove a factor - verified factors can only be removed from an aal2 session
+   */
+  unenrollMfa: async (factorId: string) => {
+    if (!supabase) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await supabase.auth.mfa.unenroll({ factorId });
+    return { data, error };
+  },
+
+  /**
+   * Exchange the code from an OAuth or magic link redirect for a session
+   */
+  exchangeCodeForSession: async (code: string) => {
+    if (!supabase) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await supabase.auth.exchangeCodeForSession(code);
+    return { data, error };
+  },
+
+  /**
+   * Identities (email, google, apple...) linked to the current user
+   */
+  getUserIdentities: async () => {
+    if (!supabase) {
+      return { identities: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await supabase.auth.getUserIdentities();
+    return { identities: data?.identities ?? null, error };
+  },
+
+  /**
+   * Start linking an OAuth identity to the current user and return the provider URL
+   * Requires manual linking to be enabled in the Supabase auth settings
+   */
+  linkIdentity: async (provider: Provider, redirectTo: string) => {
+    if (!supabase) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await supabase.auth.linkIdentity({
+      provider,
+      options: { redirectTo, skipBrowserRedirect: true },
+    });
+    return { data, error };
+  },
+
+  /**
+   * Remove an identity from the current user - at least one must remain
+   */
+  unlinkIdentity: async (identity: UserIdentity) => {
+    if (!supabase) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await supabase.auth.unlinkIdentity(identity);
+    return { data, error };
+  },
 };
 
 /**
  * Database helper functions
+ * Bound to the app client by default - API routes bind them to the caller with createRequestClient
  */
-export const db = {
+export const createDb = (client: SupabaseDatabaseClient | null) => ({
   /**
    * Profile operations
    */
   getProfile: async (userId: string) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase.from('profiles').select('*').eq('id', userId).single();
+    const { data, error } = await client.from('profiles').select('*').eq('id', userId).single();
     return { data, error };
   },
 
+  /**
+   * Names and avatars of users the caller shares a conversation with - see get_participant_profiles
+   */
+  getProfilesByIds: async (userIds: string[]) => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await client.rpc('get_participant_profiles', { user_ids: userIds });
+    return { data: data as ShareParticipant[] | null, error };
+  },
+
+  /**
+   * Account to invite, matched by exact email - see find_profile_by_email
+   */
+  getProfileByEmail: async (email: string) => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await client.rpc('find_profile_by_email', { email_param: email });
+    return { data: (data as ShareParticipant[] | null)?.[0] ?? null, error };
+  },
+
   updateProfile: async (
     userId: string,
     updates: Database['public']['Tables']['profiles']['Update']
   ) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('profiles')
       .update(updates)
       .eq('id', userId)
@@ -467,10 +832,10 @@ export const db = {
   },
 
   createProfile: async (profile: Database['public']['Tables']['profiles']['Insert']) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase.from('profiles').insert(profile).select().single();
+    const { data, error } = await client.from('profiles').insert(profile).select().single();
     return { data, error };
   },
 
@@ -478,10 +843,10 @@ export const db = {
    * Conversation operations
    */
   getConversations: async (userId: string) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('conversation_summaries')
       .select('*')
       .eq('user_id', userId)
@@ -491,10 +856,10 @@ export const db = {
   },
 
   getConversation: async (conversationId: string) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('conversations')
       .select('*')
       .eq('id', conversationId)
@@ -505,10 +870,10 @@ export const db = {
   createConversation: async (
     conversation: Database['public']['Tables']['conversations']['Insert']
   ) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('conversations')
       .insert(conversation)
       .select()
@@ -520,10 +885,10 @@ export const db = {
     conversationId: string,
     updates: Database['public']['Tables']['conversations']['Update']
   ) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('conversations')
       .update(updates)
       .eq('id', conversationId)
@@ -533,10 +898,10 @@ export const db = {
   },
 
   deleteConversation: async (conversationId: string) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('conversations')
       .delete()
       .eq('id', conversationId)
@@ -546,10 +911,10 @@ export const db = {
   },
 
   archiveConversation: async (conversationId: string) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('conversations')
       .update({
         status: 'archived',
@@ -563,10 +928,10 @@ export const db = {
   },
 
   restoreConversation: async (conversationId: string) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('conversations')
       .update({
         status: 'active',
@@ -580,10 +945,10 @@ export const db = {
   },
 
   generateConversationTitle: async (conversationId: string) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase.rpc('generate_conversation_title', {
+    const { data, error } = await client.rpc('generate_conversation_title', {
       conversation_id_param: conversationId,
     });
     return { data, error };
@@ -592,34 +957,100 @@ export const db = {
   /**
    * Message operations
    */
-  getMessages: async (conversationId: string) => {
-    if (!supabase) {
+  // Without a limit every message is returned. With a limit, the newest page older
+  // than `before` is returned - results are always oldest first.
+  getMessages: async (
+    conversationId: string,
+    options: { limit?: number; before?: MessageCursor } = {}
+  ) => {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase
+    if (!options.limit) {
+      const { data, error } = await client
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true });
+      return { data, error };
+    }
+
+    let query = client
       .from('messages')
       .select('*')
       .eq('conversation_id', conversationId)
-      .order('created_at', { ascending: true });
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(options.limit);
+    if (options.before) {
+      // Messages can share a timestamp, so the id breaks ties
+      const { createdAt, id } = options.before;
+      query = query.or(
+        `created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`
+      );
+    }
+    const { data, error } = await query;
+    return { data: data ? data.reverse() : null, error };
+  },
+
+  getMessage: async (messageId: string) => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await client
+      .from('messages')
+      .select('*')
+      .eq('id', messageId)
+      .maybeSingle();
     return { data, error };
   },
 
   createMessage: async (message: Database['public']['Tables']['messages']['Insert']) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase.from('messages').insert(message).select().single();
+    const { data, error } = await client.from('messages').insert(message).select().single();
     return { data, error };
   },
 
+  // Whether the caller may post to a conversation - owner or a 'write' share
+  canWriteConversation: async (conversationId: string) => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await client.rpc('can_write_conversation', {
+      conversation_id_param: conversationId,
+    });
+    return { data: data as boolean | null, error };
+  },
+
+  // Next `version` for a message under the given parent - edits and regenerations are siblings
+  getNextMessageVersion: async (conversationId: string, parentMessageId: string | null) => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    let query = client
+      .from('messages')
+      .select('version')
+      .eq('conversation_id', conversationId)
+      .order('version', { ascending: false })
+      .limit(1);
+    query = parentMessageId
+      ? query.eq('parent_message_id', parentMessageId)
+      : query.is('parent_message_id', null);
+    const { data, error } = await query;
+    return { data: error ? null : (data?.[0]?.version ?? 0) + 1, error };
+  },
+
   updateMessage: async (
     messageId: string,
     updates: Database['public']['Tables']['messages']['Update']
   ) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('messages')
       .update(updates)
       .eq('id', messageId)
@@ -629,10 +1060,10 @@ export const db = {
   },
 
   deleteMessage: async (messageId: string) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('messages')
       .delete()
       .eq('id', messageId)
@@ -647,17 +1078,14 @@ export const db = {
   shareConversation: async (
     share: Database['public']['Tables']['conversation_shares']['Insert']
   ) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
 
     // First update the conversation to mark it as shared
-    await supabase
-      .from('conversations')
-      .update({ is_shared: true })
-      .eq('id', share.conversation_id);
+    await client.from('conversations').update({ is_shared: true }).eq('id', share.conversation_id);
 
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('conversation_shares')
       .insert(share)
       .select()
@@ -666,34 +1094,204 @@ export const db = {
   },
 
   getConversationShares: async (conversationId: string) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('conversation_shares')
       .select('*')
       .eq('conversation_id', conversationId);
     return { data, error };
   },
 
+  // Grants, changes and revocations are recorded in conversation_share_events by trigger
+  updateConversationShare: async (
+    shareId: string,
+    updates: Pick<
+      Database['public']['Tables']['conversation_shares']['Update'],
+      'permissions' | 'expires_at'
+    >
+  ) => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await client
+      .from('conversation_shares')
+      .update(updates)
+      .eq('id', shareId)
+      .select()
+      .single();
+    return { data, error };
+  },
+
+  getConversationShareEvents: async (conversationId: string) => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await client
+      .from('conversation_share_events')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: false });
+    return { data, error };
+  },
+
   getSharedConversations: async (userId: string) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('shared_conversations')
       .select('*')
       .eq('shared_with', userId)
-      .or('shared_with.is.null')
-      .gt('expires_at', new Date().toISOString());
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
     return { data, error };
   },
 
+  // Copy a shared conversation and its messages into a new conversation owned by the caller
+  // Public shares also need the conversation's share token
+  forkConversation: async (conversationId: string, shareToken?: string) => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await client.rpc('fork_conversation', {
+      conversation_id_param: conversationId,
+      share_token_param: shareToken ?? null,
+    });
+    return { data: data as string | null, error };
+  },
+
+  // Ranked full-text search over the caller's message content and conversation titles
+  searchMessages: async (query: string, limit = 20) => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await client.rpc('search_messages', {
+      search_query: query,
+      result_limit: limit,
+    });
+    return { data: data as MessageSearchResult[] | null, error };
+  },
+
+  /**
+   * Embedding operations
+   */
+  upsertMessageEmbeddings: async (
+    embeddings: Database['public']['Tables']['message_embeddings']['Insert'][]
+  ) => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await client
+      .from('message_embeddings')
+      .upsert(embeddings, { onConflict: 'message_id' })
+      .select('message_id');
+    return { data, error };
+  },
+
+  // Nearest messages to a query embedding - only vectors from the same model are compared
+  matchMessageEmbeddings: async (
+    embedding: number[],
+    model: string,
+    options: { matchCount?: number; minSimilarity?: number; excludeConversationId?: string } = {}
+  ) => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await client.rpc('match_message_embeddings', {
+      query_embedding: JSON.stringify(embedding),
+      embedding_model: model,
+      match_count: options.matchCount,
+      min_similarity: options.minSimilarity,
+      exclude_conversation_id: options.excludeConversationId ?? null,
+    });
+    return { data: data as MessageEmbeddingMatch[] | null, error };
+  },
+
+  /**
+   * MFA recovery codes
+   */
+  generateMfaRecoveryCodes: async () => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await client.rpc('generate_mfa_recovery_codes', {});
+    return { data: data as string[] | null, error };
+  },
+
+  /**
+   * Consume one of the caller's recovery codes - see /api/mfa/recover
+   */
+  redeemMfaRecoveryCode: async (code: string) => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await client.rpc('redeem_mfa_recovery_code', {
+      recovery_code: code,
+    });
+    return { data: data as boolean | null, error };
+  },
+
+  /**
+   * Remove the caller's recovery codes - requires an aal2 session
+   */
+  deleteMfaRecoveryCodes: async (userId: string) => {
+    if (!client) {
+      return { error: { message: 'Supabase not configured' } };
+    }
+    const { error } = await client.from('mfa_recovery_codes').delete().eq('user_id', userId);
+    return { error };
+  },
+
+  getMfaRecoveryCodeCount: async (userId: string) => {
+    if (!client) {
+      return { count: null, error: { message: 'Supabase not configured' } };
+    }
+    const { count, error } = await client
+      .from('mfa_recovery_codes')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId);
+    return { count, error };
+  },
+
+  upsertDocumentChunks: async (
+    chunks: Database['public']['Tables']['document_chunks']['Insert'][]
+  ) => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await client
+      .from('document_chunks')
+      .upsert(chunks, { onConflict: 'conversation_id,source_url,chunk_index,model' })
+      .select('id');
+    return { data, error };
+  },
+
+  // Nearest chunks of the files attached to one conversation
+  matchDocumentChunks: async (
+    embedding: number[],
+    model: string,
+    conversationId: string,
+    options: { matchCount?: number; minSimilarity?: number } = {}
+  ) => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await client.rpc('match_document_chunks', {
+      query_embedding: JSON.stringify(embedding),
+      embedding_model: model,
+      conversation_id_param: conversationId,
+      match_count: options.matchCount,
+      min_similarity: options.minSimilarity,
+    });
+    return { data: data as DocumentChunkMatch[] | null, error };
+  },
+
   removeConversationShare: async (shareId: string) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('conversation_shares')
       .delete()
       .eq('id', shareId)
@@ -702,21 +1300,39 @@ export const db = {
     return { data, error };
   },
 
+  // Resolve a public share link - callable without a session
+  getSharedConversation: async (shareToken: string) => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await client.rpc('get_shared_conversation', {
+      share_token_param: shareToken,
+    });
+    return { data, error };
+  },
+
   /**
    * Utility functions
    */
   cleanupArchivedConversations: async () => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase.rpc('cleanup_archived_conversations');
+    const { data, error } = await client.rpc('cleanup_archived_conversations');
     return { data, error };
   },
-};
+});
+
+export const db = createDb(supabase);
 
 /**
  * Real-time subscription helpers
  */
+// The client reuses channels by topic, so each subscription gets its own topic
+// to stay independent when several hooks watch the same rows
+let channelCount = 0;
+const uniqueTopic = (topic: string) => `${topic}:${++channelCount}`;
+
 export const realtime = {
   /**
    * Subscribe to profile changes
@@ -741,6 +1357,97 @@ export const realtime = {
       .subscribe();
   },
 
+  /**
+   * Subscribe to inserts, updates and deletes of a user's conversations
+   * Delete events carry only the primary key in `payload.old`
+   */
+  subscribeToConversations: (
+    userId: string,
+    callback: (payload: RealtimePostgresChangesPayload<Conversation>) => void
+  ): RealtimeChannel | null => {
+    if (!supabase) {
+      console.warn('[REALTIME] Supabase not configured');
+      return null;
+    }
+    return supabase
+      .channel(uniqueTopic(`conversations:${userId}`))
+      .on<Conversation>(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversations',
+          filter: `user_id=eq.${userId}`,
+        },
+        callback
+      )
+      .subscribe();
+  },
+
+  /**
+   * Subscribe to message changes in a conversation
+   * Delete events carry only the primary key in `payload.old`
+   */
+  subscribeToMessages: (
+    conversationId: string,
+    callback: (payload: RealtimePostgresChangesPayload<Message>) => void
+  ): RealtimeChannel | null => {
+    if (!supabase) {
+      console.warn('[REALTIME] Supabase not configured');
+      return null;
+    }
+    return supabase
+      .channel(uniqueTopic(`messages:${conversationId}`))
+      .on<Message>(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        callback
+      )
+      .subscribe();
+  },
+
+  /**
+   * Announce the current user in a conversation and receive everyone viewing it
+   * The topic is shared by all clients, so join each conversation only once per client
+   */
+  joinConversationPresence: (
+    conversationId: string,
+    viewer: ConversationViewer,
+    callback: (viewers: ConversationViewer[]) => void
+  ): RealtimeChannel | null => {
+    if (!supabase) {
+      console.warn('[REALTIME] Supabase not configured');
+      return null;
+    }
+    const channel = supabase.channel(`presence:conversation:${conversationId}`, {
+      config: { presence: { key: viewer.user_id } },
+    });
+    return channel
+      .on('presence', { event: 'sync' }, () => {
+        // One entry per user, even when they have the conversation open on several devices
+        const state = channel.presenceState<ConversationViewer>();
+        callback(Object.values(state).map(([first]) => first));
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track(viewer);
+        }
+      });
+  },
+
+  /**
+   * Unsubscribe and remove a single channel
+   */
+  unsubscribe: (channel: RealtimeChannel | null) => {
+    if (!supabase || !channel) return;
+    supabase.removeChannel(channel);
+  },
+
   /**
    * Unsubscribe from all channels
    */
@@ -756,15 +1463,15 @@ export const realtime = {
 /**
  * Storage helpers (for file uploads)
  */
-export const storage = {
+export const createStorage = (client: SupabaseDatabaseClient | null) => ({
   /**
    * Upload file to storage bucket
    */
   uploadFile: async (bucket: string, path: string, file: File | ArrayBuffer, options?: any) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase.storage.from(bucket).upload(path, file, options);
+    const { data, error } = await client.storage.from(bucket).upload(path, file, options);
     return { data, error };
   },
 
@@ -772,10 +1479,10 @@ export const storage = {
    * Download file from storage bucket
    */
   downloadFile: async (bucket: string, path: string) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase.storage.from(bucket).download(path);
+    const { data, error } = await client.storage.from(bucket).download(path);
     return { data, error };
   },
 
@@ -783,35 +1490,128 @@ export const storage = {
    * Get public URL for file
    */
   getPublicUrl: (bucket: string, path: string) => {
-    if (!supabase) {
+    if (!client) {
       return '';
     }
-    const { data } = supabase.storage.from(bucket).getPublicUrl(path);
+    const { data } = client.storage.from(bucket).getPublicUrl(path);
     return data.publicUrl;
   },
 
+  /**
+   * Get URLs for files in a private bucket that stop working after `expiresIn` seconds
+   * Files the caller cannot read come back with an `error` instead of a `signedUrl`.
+   */
+  createSignedUrls: async (bucket: string, paths: string[], expiresIn: number) => {
+    if (!client) {
+      return { data: null, error: { message: 'Supabase not configured' } };
+    }
+    const { data, error } = await client.storage.from(bucket).createSignedUrls(paths, expiresIn);
+    return { data, error };
+  },
+
   /**
    * Delete file from storage bucket
    */
   deleteFile: async (bucket: string, paths: string[]) => {
-    if (!supabase) {
+    if (!client) {
       return { data: null, error: { message: 'Supabase not configured' } };
     }
-    const { data, error } = await supabase.storage.from(bucket).remove(paths);
+    const { data, error } = await client.storage.from(bucket).remove(paths);
     return { data, error };
   },
-};
+});
+
+export const storage = createStorage(supabase);
 
 /**
  * Type exports for use throughout the app
  */
 export type SupabaseSession = Awaited<ReturnType<typeof auth.getSession>>['session'];
 export type SupabaseUser = Awaited<ReturnType<typeof auth.getUser>>['user'];
+export type DatabaseHelpers = ReturnType<typeof createDb>;
+export type StorageHelpers = ReturnType<typeof createStorage>;
 export type Profile = Database['public']['Tables']['profiles']['Row'];
+export type { Factor, UserIdentity };
 export type Conversation = Database['public']['Tables']['conversations']['Row'];
 export type ConversationSummary = Database['public']['Views']['conversation_summaries']['Row'];
+export type SharedConversationSummary = Database['public']['Views']['shared_conversations']['Row'];
 export type Message = Database['public']['Tables']['messages']['Row'];
 export type ConversationShare = Database['public']['Tables']['conversation_shares']['Row'];
+export type ConversationShareEvent =
+  Database['public']['Tables']['conversation_share_events']['Row'];
+// Participant lookups return names and avatars only, email lookups also the email
+export type ShareParticipant = Pick<Profile, 'id' | 'full_name' | 'avatar_url'> &
+  Partial<Pick<Profile, 'email' | 'username'>>;
+
+/**
+ * Presence payload announced by `realtime.joinConversationPresence`
+ */
+export interface ConversationViewer {
+  user_id: string;
+  name: string;
+  avatar_url: string | null;
+  online_at: string;
+}
+
+/**
+ * Result of `get_shared_conversation` - payload fields are only present when status is ok
+ */
+export interface SharedConversationResult {
+  status: 'ok' | 'not_found' | 'expired' | 'forbidden';
+  conversation?: Pick<Conversation, 'id' | 'title' | 'created_at' | 'updated_at'>;
+  share?: Pick<ConversationShare, 'id' | 'permissions' | 'expires_at'>;
+  messages?: Pick<
+    Message,
+    'id' | 'role' | 'content' | 'created_at' | 'version' | 'parent_message_id'
+  >[];
+}
+
+/**
+ * Position in a conversation's message history for cursor pagination
+ */
+export interface MessageCursor {
+  createdAt: string;
+  id: string;
+}
+
+/**
+ * Row returned by `search_messages` - `message_id` is null for conversation title matches
+ * and matched terms in `snippet` are wrapped in <mark></mark>
+ */
+export interface MessageSearchResult {
+  conversation_id: string;
+  conversation_title: string;
+  message_id: string | null;
+  role: Database['public']['Enums']['message_role'] | null;
+  snippet: string;
+  rank: number;
+  created_at: string;
+}
+
+/**
+ * Row returned by `match_message_embeddings`
+ */
+export interface MessageEmbeddingMatch {
+  message_id: string;
+  conversation_id: string;
+  conversation_title: string;
+  role: Database['public']['Enums']['message_role'];
+  content: string;
+  created_at: string;
+  similarity: number;
+}
+
+/**
+ * Row returned by `match_document_chunks`
+ */
+export interface DocumentChunkMatch {
+  id: string;
+  source_url: string;
+  source_name: string;
+  chunk_index: number;
+  content: string;
+  similarity: number;
+}
 export type MessageRole = Database['public']['Enums']['message_role'];
 export type ConversationStatus = Database['public']['Enums']['conversation_status'];
 
@@ -0,0 +1,82 @@
+import type { DatabaseHelpers, DocumentChunkMatch } from '@/lib/supabase';
+import type { DocumentCitation } from '@/types/api';
+import { searchDocuments } from '@/lib/ai/documents';
+import { searchDocumentsTool } from '../search-documents';
+
+jest.mock('@/lib/ai/documents', () => ({
+  searchDocuments: jest.fn(),
+}));
+
+const mockSearchDocuments = searchDocuments as jest.MockedFunction<typeof searchDocuments>;
+
+const db = {} as DatabaseHelpers;
+
+const makeMatch = (id: string, similarity = 0.9): DocumentChunkMatch => ({
+  id,
+  source_url: 'https://test.supabase.co/storage/v1/object/public/chat-attachments/u/c/notes.md',
+  source_name: 'notes.md',
+  chunk_index: Number(id.replace(/\D/g, '')),
+  content: `Content of ${id}`,
+  similarity,
+});
+
+describe('searchDocumentsTool', () => {
+  beforeEach(() => {
+    mockSearchDocuments.mockReset();
+  });
+
+  it('returns no results without a conversation', async () => {
+    const result = await searchDocumentsTool.execute({ query: 'notes' }, { db });
+
+    expect(result).toEqual({ query: 'notes', results: [] });
+    expect(mockSearchDocuments).not.toHaveBeenCalled();
+  });
+
+  it('numbers matches in order and maps them to citations', async () => {
+    mockSearchDocuments.mockResolvedValue([makeMatch('chunk-4', 0.9), makeMatch('chunk-7', 0.7)]);
+
+    const result = await searchDocumentsTool.execute(
+      { query: 'notes', limit: 2 },
+      { conversationId: 'conversation-1', db }
+    );
+
+    expect(mockSearchDocuments).toHaveBeenCalledWith(db, 'conversation-1', 'notes', { limit: 2 });
+    expect(result.results).toEqual([
+      {
+        citation: 1,
+        chunkId: 'chunk-4',
+        sourceName: 'notes.md',
+        sourceUrl: makeMatch('chunk-4').source_url,
+        chunkIndex: 4,
+        content: 'Content of chunk-4',
+        similarity: 0.9,
+      },
+      {
+        citation: 2,
+        chunkId: 'chunk-7',
+        sourceName: 'notes.md',
+        sourceUrl: makeMatch('chunk-7').source_url,
+        chunkIndex: 7,
+        content: 'Content of chunk-7',
+        similarity: 0.7,
+      },
+    ]);
+  });
+
+  it('keeps citation numbers across calls in the same response', async () => {
+    const citations = new Map<string, DocumentCitation>();
+    const context = { conversationId: 'conversation-1', db, citations };
+
+    mockSearchDocuments.mockResolvedValueOnce([makeMatch('chunk-1'), makeMatch('chunk-2')]);
+    await searchDocumentsTool.execute({ query: 'first' }, context);
+
+    mockSearchDocuments.mockResolvedValueOnce([makeMatch('chunk-3'), makeMatch('chunk-1')]);
+    const second = await searchDocumentsTool.execute({ query: 'second' }, context);
+
+    expect(second.results.map((result) => [result.chunkId, result.citation])).toEqual([
+      ['chunk-3', 3],
+      ['chunk-1', 1],
+    ]);
+    expect(citations.size).toBe(3);
+  });
+});
@@ -0,0 +1,64 @@
+import { WeatherResultSchema } from '@/types/api';
+import { createFixtureWeatherProvider, setWeatherProvider } from '@/lib/weather';
+import { weatherTool } from '../weather';
+
+const NOW = new Date('2025-03-10T12:00:00Z');
+
+describe('weatherTool with the fixture provider', () => {
+  beforeEach(() => {
+    setWeatherProvider(createFixtureWeatherProvider({ now: () => NOW }));
+  });
+
+  afterAll(() => {
+    setWeatherProvider(null);
+  });
+
+  it('returns a fahrenheit reading with a 3-day forecast by default', async () => {
+    const result = WeatherResultSchema.parse(
+      await weatherTool.execute({ location: 'San Francisco' }, {})
+    );
+
+    expect(result).toEqual({
+      location: 'San Francisco, CA',
+      temperature: 62,
+      units: 'fahrenheit',
+      conditions: 'Fog',
+      humidity: 78,
+      forecast: [
+        { date: '2025-03-10', high: 65, low: 54, conditions: 'Fog' },
+        { date: '2025-03-11', high: 67, low: 55, conditions: 'Partly cloudy' },
+        { date: '2025-03-12', high: 69, low: 56, conditions: 'Clear' },
+      ],
+    });
+  });
+
+  it('converts every temperature to celsius', async () => {
+    const result = WeatherResultSchema.parse(
+      await weatherTool.execute({ location: 'san francisco', units: 'celsius', days: 1 }, {})
+    );
+
+    expect(result.units).toBe('celsius');
+    expect(result.temperature).toBe(17);
+    expect(result.forecast).toEqual([{ date: '2025-03-10', high: 18, low: 12, conditions: 'Fog' }]);
+  });
+
+  it('returns the requested number of forecast days', async () => {
+    const none = await weatherTool.execute({ location: 'San Francisco', days: 0 }, {});
+    const week = await weatherTool.execute({ location: 'San Francisco', days: 7 }, {});
+
+    expect(none.forecast).toEqual([]);
+    expect(week.forecast).toHaveLength(7);
+    expect(week.forecast.at(-1)?.date).toBe('2025-03-16');
+  });
+
+  it('returns a stable valid reading for locations without a fixture', async () => {
+    const first = await weatherTool.execute({ location: ' Reykjavik ', days: 7 }, {});
+    const second = await weatherTool.execute({ location: 'reykjavik', days: 7 }, {});
+
+    expect(WeatherResultSchema.safeParse(first).success).toBe(true);
+    expect(first.location).toBe('Reykjavik');
+    expect(second).toEqual({ ...first, location: 'reykjavik' });
+    expect(first.forecast).toHaveLength(7);
+    first.forecast.forEach((day) => expect(day.low).toBeLessThan(day.high));
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tool Registry
+ * Single place to register tools exposed to the model by /api/chat
+ *
+ * Client renderers are keyed by the same names in ./renderers.ts; tools
+ * without one fall back to a generic result card.
+ */
+import { tool, type Tool } from 'ai';
+import type { z } from 'zod';
+import type { ToolContext, ToolDefinition } from './types';
+import { weatherTool } from './weather';
+import { convertFahrenheitToCelsiusTool } from './temperature';
+import { searchHistoryTool } from './search-history';
+import { searchDocumentsTool } from './search-documents';
+
+export const toolRegistry = {
+  // https://ai-sdk.dev/docs/getting-started/expo#enhance-your-chatbot-with-tools
+  weather: weatherTool,
+  convertFahrenheitToCelsius: convertFahrenheitToCelsiusTool,
+  searchHistory: searchHistoryTool,
+  searchDocuments: searchDocumentsTool,
+} satisfies Record<string, ToolDefinition>;
+
+export type ToolName = keyof typeof toolRegistry;
+
+export type ToolArgs<TName extends ToolName> = z.infer<(typeof toolRegistry)[TName]['parameters']>;
+
+export type ToolResultOf<TName extends ToolName> = z.infer<(typeof toolRegistry)[TName]['result']>;
+
+export const isRegisteredTool = (toolName: string): toolName is ToolName => {
+  return toolName in toolRegistry;
+};
+
+/**
+ * Build the AI SDK tool set for a request
+ * Results are validated against each tool's result schema before reaching the model
+ */
+export const createToolSet = (context: ToolContext = {}): Record<ToolName, Tool> => {
+  const entries = Object.entries(toolRegistry).map(([name, definition]) => {
+    const { description, parameters, result, execute } = definition as ToolDefinition;
+    return [
+      name,
+      tool({
+        description,
+        parameters,
+        async execute(args) {
+          return result.parse(await execute(args, context));
+        },
+      }),
+    ];
+  });
+
+  return Object.fromEntries(entries) as Record<ToolName, Tool>;
+};
+
+export { defineTool, defineToolRenderer } from './types';
+export type { ToolContext, ToolDefinition, ToolRenderer } from './types';
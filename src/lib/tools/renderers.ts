@@ -0,0 +1,23 @@
+/**
+ * Tool Renderers
+ * Client cards for tools in the registry, keyed by the same names
+ *
+ * Each renderer takes the result schema its tool is defined with, so a card's props
+ * must match what the tool returns. Only types come from the registry - the tools
+ * themselves stay on the server.
+ */
+import { CelsiusConvertResultSchema, WeatherResultSchema } from '@/types/api';
+import { WeatherCard, CelsiusConvertCard } from '@/features/shared/components/ToolCards';
+import type { ToolName, toolRegistry } from './index';
+import { defineToolRenderer, type ToolRenderer } from './types';
+
+export const toolRenderers = {
+  weather: defineToolRenderer(WeatherResultSchema, WeatherCard),
+  convertFahrenheitToCelsius: defineToolRenderer(CelsiusConvertResultSchema, CelsiusConvertCard),
+} satisfies { [TName in ToolName]?: ToolRenderer<(typeof toolRegistry)[TName]['result']> };
+
+export const getToolRenderer = (toolName: string): ToolRenderer | undefined => {
+  return toolName in toolRenderers
+    ? toolRenderers[toolName as keyof typeof toolRenderers]
+    : undefined;
+};
@@ -0,0 +1,44 @@
+/**
+ * Search Documents Tool
+ * Lets the model look up excerpts from the files attached to the current conversation
+ */
+import {
+  SearchDocumentsToolSchema,
+  SearchDocumentsResultSchema,
+  type DocumentCitation,
+} from '@/types/api';
+import { searchDocuments } from '@/lib/ai/documents';
+import { defineTool } from './types';
+
+export const searchDocumentsTool = defineTool({
+  description:
+    'Search the files (PDF, Markdown or text) attached to this conversation. Use it to answer questions about their contents. ' +
+    'Cite every excerpt you rely on with its citation number in square brackets, e.g. [1], right after the statement it supports.',
+  parameters: SearchDocumentsToolSchema,
+  result: SearchDocumentsResultSchema,
+  async execute({ query, limit = 5 }, { conversationId, db, citations = new Map() }) {
+    if (!conversationId || !db) {
+      return { query, results: [] };
+    }
+
+    const matches = await searchDocuments(db, conversationId, query, { limit });
+
+    return {
+      query,
+      results: matches.map((match) => {
+        // A chunk keeps its number if an earlier call in this response already returned it
+        const citation: DocumentCitation = citations.get(match.id) ?? {
+          citation: citations.size + 1,
+          chunkId: match.id,
+          sourceName: match.source_name,
+          sourceUrl: match.source_url,
+          chunkIndex: match.chunk_index,
+          content: match.content,
+        };
+        citations.set(match.id, citation);
+
+        return { ...citation, similarity: match.similarity };
+      }),
+    };
+  },
+});
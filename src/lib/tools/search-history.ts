@@ -0,0 +1,43 @@
+/**
+ * Search History Tool
+ * Lets the model retrieve relevant messages from the user's past conversations
+ */
+import { SearchHistoryToolSchema, SearchHistoryResultSchema } from '@/types/api';
+import { searchMessageHistory } from '@/lib/ai/embeddings';
+import { defineTool } from './types';
+
+// Long replies are cut so a handful of matches does not crowd out the conversation
+const MAX_CONTENT_LENGTH = 800;
+
+export const searchHistoryTool = defineTool({
+  description:
+    "Search the user's past conversations for messages related to a topic. Use it when the user refers to something discussed earlier, e.g. what they concluded or decided before.",
+  parameters: SearchHistoryToolSchema,
+  result: SearchHistoryResultSchema,
+  async execute({ query, limit = 5 }, { conversationId, userId, db }) {
+    if (!userId || !db) {
+      return { query, results: [] };
+    }
+
+    const matches = await searchMessageHistory(db, query, {
+      limit,
+      excludeConversationId: conversationId,
+    });
+
+    return {
+      query,
+      results: matches.map((match) => ({
+        messageId: match.message_id,
+        conversationId: match.conversation_id,
+        conversationTitle: match.conversation_title,
+        role: match.role,
+        content:
+          match.content.length > MAX_CONTENT_LENGTH
+            ? `${match.content.slice(0, MAX_CONTENT_LENGTH)}…`
+            : match.content,
+        createdAt: match.created_at,
+        similarity: match.similarity,
+      })),
+    };
+  },
+});
@@ -0,0 +1,18 @@
+/**
+ * Temperature Conversion Tool
+ */
+import { CelsiusConvertToolSchema, CelsiusConvertResultSchema } from '@/types/api';
+import { defineTool } from './types';
+
+export const convertFahrenheitToCelsiusTool = defineTool({
+  description: 'Convert a temperature in fahrenheit to celsius',
+  parameters: CelsiusConvertToolSchema,
+  result: CelsiusConvertResultSchema,
+  async execute({ temperature }) {
+    const celsius = Math.round((temperature - 32) * (5 / 9));
+    return {
+      temperature,
+      celsius,
+    };
+  },
+});
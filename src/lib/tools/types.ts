@@ -0,0 +1,62 @@
+/**
+ * Tool Registry Types
+ * Shape of a server-side tool definition used by the chat API
+ */
+import { createElement, type ComponentType, type ReactElement } from 'react';
+import type { z } from 'zod';
+import type { DatabaseHelpers } from '@/lib/supabase';
+import type { DocumentCitation } from '@/types/api';
+
+/**
+ * Request context passed to every tool executor
+ */
+export interface ToolContext {
+  conversationId?: string;
+  userId?: string;
+  /** Database helpers bound to the caller's session - absent for signed-out requests */
+  db?: DatabaseHelpers;
+  /** Document excerpts cited so far in this response, keyed by chunk id */
+  citations?: Map<string, DocumentCitation>;
+}
+
+export interface ToolDefinition<
+  TParams extends z.ZodTypeAny = z.ZodTypeAny,
+  TResult extends z.ZodTypeAny = z.ZodTypeAny,
+> {
+  /** Description shown to the model when deciding whether to call the tool */
+  description: string;
+  /** Argument schema from src/types/api.ts */
+  parameters: TParams;
+  /** Result schema from src/types/api.ts - every result is validated before it is returned */
+  result: TResult;
+  execute(args: z.infer<TParams>, context: ToolContext): Promise<z.infer<TResult>>;
+}
+
+/**
+ * Identity helper that keeps the parameter and result types inferred
+ */
+export const defineTool = <TParams extends z.ZodTypeAny, TResult extends z.ZodTypeAny>(
+  definition: ToolDefinition<TParams, TResult>
+): ToolDefinition<TParams, TResult> => definition;
+
+/**
+ * Client card for a tool's results, typed by the tool's result schema
+ */
+export interface ToolRenderer<TResult extends z.ZodTypeAny = z.ZodTypeAny> {
+  result: TResult;
+  component: ComponentType<z.infer<TResult>>;
+  /** Render a result from the stream - null when it does not match the schema */
+  render(result: unknown): ReactElement | null;
+}
+
+export const defineToolRenderer = <TResult extends z.ZodTypeAny>(
+  result: TResult,
+  component: ComponentType<z.infer<TResult>>
+): ToolRenderer<TResult> => ({
+  result,
+  component,
+  render(value) {
+    const parsed = result.safeParse(value);
+    return parsed.success ? createElement(component, parsed.data) : null;
+  },
+});
@@ -0,0 +1,16 @@
+/**
+ * Weather Tool
+ */
+import { WeatherToolSchema, WeatherResultSchema } from '@/types/api';
+import { getWeatherProvider } from '@/lib/weather';
+import { defineTool } from './types';
+
+export const weatherTool = defineTool({
+  description:
+    'Get the current weather and a daily forecast for a location. Defaults to fahrenheit and a 3-day forecast.',
+  parameters: WeatherToolSchema,
+  result: WeatherResultSchema,
+  async execute({ location, units = 'fahrenheit', days = 3 }) {
+    return getWeatherProvider().getWeather({ location, units, days });
+  },
+});
@@ -0,0 +1,100 @@
+/**
+ * Fixture Weather Provider
+ * File-backed adapter for tests and offline development - never touches the network
+ */
+import defaultFixtures from './fixtures/weather.json';
+import { fromFahrenheit, type WeatherProvider, type WeatherQuery } from './types';
+
+interface FixtureForecastDay {
+  high: number;
+  low: number;
+  conditions: string;
+}
+
+/**
+ * Fixture readings are stored in fahrenheit and keyed by lowercase location name
+ */
+export interface WeatherFixture {
+  location: string;
+  temperature: number;
+  conditions: string;
+  humidity: number;
+  forecast: FixtureForecastDay[];
+}
+
+export type WeatherFixtures = Record<string, WeatherFixture>;
+
+interface FixtureWeatherProviderOptions {
+  fixtures?: WeatherFixtures;
+  /** Clock used to date forecast days - override for stable test output */
+  now?: () => Date;
+}
+
+const SYNTHETIC_CONDITIONS = ['Clear', 'Partly cloudy', 'Overcast', 'Rain', 'Fog', 'Snow'];
+
+/**
+ * Stable string hash so unknown locations always get the same reading
+ */
+const hashLocation = (value: string): number => {
+  let hash = 0;
+  for (let index = 0; index < value.length; index++) {
+    hash = (hash * 31 + value.charCodeAt(index)) >>> 0;
+  }
+  return hash;
+};
+
+/**
+ * Build a deterministic reading for a location that has no fixture entry
+ */
+const synthesizeFixture = (location: string, key: string): WeatherFixture => {
+  const hash = hashLocation(key);
+  const base = 32 + (hash % 59);
+  return {
+    location,
+    temperature: base,
+    conditions: SYNTHETIC_CONDITIONS[hash % SYNTHETIC_CONDITIONS.length],
+    humidity: 30 + (hash % 61),
+    forecast: Array.from({ length: 7 }, (_, day) => {
+      const dayHash = hashLocation(`${key}:${day}`);
+      const high = base + (dayHash % 9) - 2;
+      return {
+        high,
+        low: high - 8 - (dayHash % 7),
+        conditions: SYNTHETIC_CONDITIONS[dayHash % SYNTHETIC_CONDITIONS.length],
+      };
+    }),
+  };
+};
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const createFixtureWeatherProvider = ({
+  fixtures = defaultFixtures as WeatherFixtures,
+  now = () => new Date(),
+}: FixtureWeatherProviderOptions = {}): WeatherProvider => ({
+  name: 'fixture',
+
+  async getWeather({ location, units, days }: WeatherQuery) {
+    const key = location.trim().toLowerCase();
+    const fixture = fixtures[key] ?? synthesizeFixture(location.trim(), key);
+    const today = now();
+
+    return {
+      location: fixture.location,
+      temperature: fromFahrenheit(fixture.temperature, units),
+      units,
+      conditions: fixture.conditions,
+      humidity: fixture.humidity,
+      forecast: fixture.forecast.slice(0, days).map((day, index) => {
+        const date = new Date(today);
+        date.setUTCDate(today.getUTCDate() + index);
+        return {
+          date: formatDate(date),
+          high: fromFahrenheit(day.high, units),
+          low: fromFahrenheit(day.low, units),
+          conditions: day.conditions,
+        };
+      }),
+    };
+  },
+});
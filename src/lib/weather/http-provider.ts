@@ -0,0 +1,129 @@
+/**
+ * HTTP Weather Provider
+ * Production adapter backed by the Open-Meteo geocoding and forecast APIs (no API key required)
+ * https://open-meteo.com/en/docs
+ */
+import type { WeatherProvider, WeatherQuery } from './types';
+
+interface HttpWeatherProviderOptions {
+  geocodingUrl?: string;
+  forecastUrl?: string;
+  fetchFn?: typeof fetch;
+}
+
+interface GeocodingResponse {
+  results?: {
+    name: string;
+    latitude: number;
+    longitude: number;
+    admin1?: string;
+    country?: string;
+  }[];
+}
+
+interface ForecastResponse {
+  current: {
+    temperature_2m: number;
+    relative_humidity_2m: number;
+    weather_code: number;
+  };
+  daily?: {
+    time: string[];
+    weather_code: number[];
+    temperature_2m_max: number[];
+    temperature_2m_min: number[];
+  };
+}
+
+/**
+ * WMO weather interpretation codes
+ */
+const WEATHER_CODES: Record<number, string> = {
+  0: 'Clear',
+  1: 'Mostly clear',
+  2: 'Partly cloudy',
+  3: 'Overcast',
+  45: 'Fog',
+  48: 'Fog',
+  51: 'Drizzle',
+  53: 'Drizzle',
+  55: 'Drizzle',
+  56: 'Freezing drizzle',
+  57: 'Freezing drizzle',
+  61: 'Rain',
+  63: 'Rain',
+  65: 'Heavy rain',
+  66: 'Freezing rain',
+  67: 'Freezing rain',
+  71: 'Snow',
+  73: 'Snow',
+  75: 'Heavy snow',
+  77: 'Snow grains',
+  80: 'Rain showers',
+  81: 'Rain showers',
+  82: 'Heavy rain showers',
+  85: 'Snow showers',
+  86: 'Snow showers',
+  95: 'Thunderstorm',
+  96: 'Thunderstorm with hail',
+  99: 'Thunderstorm with hail',
+};
+
+const describeWeatherCode = (code: number): string => WEATHER_CODES[code] ?? 'Unknown';
+
+const requestJson = async <T>(fetchFn: typeof fetch, url: string): Promise<T> => {
+  const response = await fetchFn(url);
+  if (!response.ok) {
+    throw new Error(`Weather request failed with status ${response.status}`);
+  }
+  return (await response.json()) as T;
+};
+
+export const createHttpWeatherProvider = ({
+  geocodingUrl = 'https://geocoding-api.open-meteo.com/v1/search',
+  forecastUrl = 'https://api.open-meteo.com/v1/forecast',
+  fetchFn = fetch,
+}: HttpWeatherProviderOptions = {}): WeatherProvider => ({
+  name: 'http',
+
+  async getWeather({ location, units, days }: WeatherQuery) {
+    const geocoding = await requestJson<GeocodingResponse>(
+      fetchFn,
+      `${geocodingUrl}?name=${encodeURIComponent(location)}&count=1&format=json`
+    );
+    const place = geocoding.results?.[0];
+    if (!place) {
+      throw new Error(`Location not found: ${location}`);
+    }
+
+    const params = [
+      `latitude=${place.latitude}`,
+      `longitude=${place.longitude}`,
+      'current=temperature_2m,relative_humidity_2m,weather_code',
+      `temperature_unit=${units}`,
+      'timezone=auto',
+      ...(days > 0
+        ? ['daily=weather_code,temperature_2m_max,temperature_2m_min', `forecast_days=${days}`]
+        : []),
+    ].join('&');
+
+    const forecast = await requestJson<ForecastResponse>(fetchFn, `${forecastUrl}?${params}`);
+    const daily = forecast.daily;
+
+    return {
+      location: [place.name, place.admin1, place.country].filter(Boolean).join(', '),
+      temperature: Math.round(forecast.current.temperature_2m),
+      units,
+      conditions: describeWeatherCode(forecast.current.weather_code),
+      humidity: Math.round(forecast.current.relative_humidity_2m),
+      forecast: daily
+        ? daily.time.map((date, index) => ({
+            date,
+            high: Math.round(daily.temperature_2m_max[index]),
+            low: Math.round(daily.temperature_2m_min[index]),
+            conditions: describeWeatherCode(daily.weather_code[index]),
+          }))
+        : [],
+    };
+  },
+});
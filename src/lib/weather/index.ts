@@ -0,0 +1,40 @@
+/**
+ * Weather Providers
+ * Selects the weather adapter used by the `weather` tool
+ */
+import { config } from '@/config';
+import { createFixtureWeatherProvider } from './fixture-provider';
+import { createHttpWeatherProvider } from './http-provider';
+import type { WeatherProvider } from './types';
+
+let weatherProvider: WeatherProvider | null = null;
+
+/**
+ * Resolve the configured provider
+ * WEATHER_PROVIDER=fixture|http; defaults to the fixture adapter when mock API responses are enabled
+ */
+export const getWeatherProvider = (): WeatherProvider => {
+  if (!weatherProvider) {
+    const providerName =
+      process.env.WEATHER_PROVIDER || (config.dev.mockApiResponses ? 'fixture' : 'http');
+    weatherProvider =
+      providerName === 'fixture'
+        ? createFixtureWeatherProvider()
+        : createHttpWeatherProvider({
+            geocodingUrl: process.env.WEATHER_GEOCODING_URL || undefined,
+            forecastUrl: process.env.WEATHER_FORECAST_URL || undefined,
+          });
+  }
+  return weatherProvider;
+};
+
+/**
+ * Override the active provider (tests, custom adapters)
+ */
+export const setWeatherProvider = (provider: WeatherProvider | null): void => {
+  weatherProvider = provider;
+};
+
+export { createFixtureWeatherProvider } from './fixture-provider';
+export { createHttpWeatherProvider } from './http-provider';
+export type { WeatherProvider, WeatherQuery } from './types';
@@ -0,0 +1,26 @@
+/**
+ * Weather Provider Types
+ */
+import type { TemperatureUnit, WeatherResult } from '@/types/api';
+
+export interface WeatherQuery {
+  location: string;
+  units: TemperatureUnit;
+  /** Number of forecast days, starting today */
+  days: number;
+}
+
+/**
+ * Adapter interface implemented by every weather data source
+ */
+export interface WeatherProvider {
+  readonly name: string;
+  getWeather(query: WeatherQuery): Promise<WeatherResult>;
+}
+
+/**
+ * Convert a fahrenheit reading to the requested units
+ */
+export const fromFahrenheit = (value: number, units: TemperatureUnit): number => {
+  return units === 'celsius' ? Math.round((value - 32) * (5 / 9)) : Math.round(value);
+};
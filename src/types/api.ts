@@ -1,20 +1,46 @@
 import { z } from 'zod';
+import { MODEL_PROVIDERS, parseModelId } from '@/config/models';
+import { SHARE_PERMISSIONS } from '@/config/sharing';
 
 // Chat API request/response schemas - compatible with AI SDK
+
+// File attached to a user message - uploaded to storage before sending and kept in
+// `messages.metadata.attachments` so it is shown and re-sent with the history
+export const ChatAttachmentSchema = z.object({
+  name: z.string().optional(),
+  contentType: z.string().optional(),
+  url: z.string().url(),
+});
+
 export const ChatMessageSchema = z.object({
   role: z.enum(['user', 'assistant', 'system']),
   content: z.string(),
   id: z.string().optional(),
+  // Field name used by useChat for message attachments
+  experimental_attachments: z.array(ChatAttachmentSchema).optional(),
 });
 
+// Model identifier in `provider:model` form, e.g. `openai:gpt-4o`
+export const ModelIdSchema = z.string().refine(
+  (modelId) => {
+    const { provider, modelName } = parseModelId(modelId);
+    return (MODEL_PROVIDERS as readonly string[]).includes(provider) && modelName.length > 0;
+  },
+  { message: `Model must be in provider:model format (${MODEL_PROVIDERS.join(', ')})` }
+);
+
 export const ChatRequestSchema = z.object({
   messages: z.array(ChatMessageSchema),
+  model: ModelIdSchema.optional(),
   temperature: z.number().min(0).max(2).optional(),
   maxTokens: z.number().positive().optional(),
-  stream: z.boolean().optional().default(true),
+  // Falls back to config.ai.streamingEnabled when omitted
+  stream: z.boolean().optional(),
   conversationId: z.string().uuid().optional(),
   userId: z.string().uuid().optional(),
   saveMessages: z.boolean().optional().default(true),
+  // The last user message is already saved - only a new assistant reply is persisted
+  regenerate: z.boolean().optional(),
 });
 
 export const ChatResponseSchema = z.object({
@@ -38,18 +64,80 @@ export const ChatResponseSchema = z.object({
     .optional(),
 });
 
+// Per-conversation generation settings stored in `conversations.metadata.settings`
+export const ConversationSettingsSchema = z.object({
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+});
+
+// Rolling summary of older turns stored in `conversations.metadata.context_summary`
+export const ContextSummarySchema = z.object({
+  text: z.string(),
+  // Last message folded into the summary - later messages are sent verbatim
+  throughMessageId: z.string(),
+  // Number of messages the summary covers
+  messageCount: z.number().int().nonnegative(),
+  updatedAt: z.string(),
+});
+
 // Tool schemas
+export const TemperatureUnitSchema = z.enum(['fahrenheit', 'celsius']);
+
 export const WeatherToolSchema = z.object({
   location: z.string().describe('The location to get the weather for'),
+  units: TemperatureUnitSchema.optional().describe('Temperature units (default: fahrenheit)'),
+  days: z
+    .number()
+    .int()
+    .min(0)
+    .max(7)
+    .optional()
+    .describe('Number of forecast days to include, 0-7 (default: 3)'),
 });
 
 export const CelsiusConvertToolSchema = z.object({
   temperature: z.number().describe('The temperature in fahrenheit to convert'),
 });
 
+export const SearchHistoryToolSchema = z.object({
+  query: z
+    .string()
+    .min(1)
+    .describe('What to look for in past conversations, phrased as a topic or question'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .optional()
+    .describe('Maximum number of past messages to return (default: 5)'),
+});
+
+export const SearchDocumentsToolSchema = z.object({
+  query: z.string().min(1).describe('What to look for in the files attached to this conversation'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .optional()
+    .describe('Maximum number of excerpts to return (default: 5)'),
+});
+
+export const WeatherForecastDaySchema = z.object({
+  date: z.string(),
+  high: z.number(),
+  low: z.number(),
+  conditions: z.string(),
+});
+
 export const WeatherResultSchema = z.object({
   location: z.string(),
   temperature: z.number(),
+  units: TemperatureUnitSchema,
+  conditions: z.string(),
+  humidity: z.number().min(0).max(100),
+  forecast: z.array(WeatherForecastDaySchema),
 });
 
 export const CelsiusConvertResultSchema = z.object({
@@ -57,6 +145,120 @@ export const CelsiusConvertResultSchema = z.object({
   celsius: z.number(),
 });
 
+export const SearchHistoryMatchSchema = z.object({
+  messageId: z.string(),
+  conversationId: z.string(),
+  conversationTitle: z.string(),
+  role: z.enum(['user', 'assistant', 'system', 'tool']),
+  content: z.string(),
+  createdAt: z.string(),
+  similarity: z.number(),
+});
+
+export const SearchHistoryResultSchema = z.object({
+  query: z.string(),
+  results: z.array(SearchHistoryMatchSchema),
+});
+
+// Excerpt from an attached document. `citation` is the footnote number the model
+// cites as [n] - it stays the same for a chunk across tool calls in one response.
+export const DocumentCitationSchema = z.object({
+  citation: z.number().int().positive(),
+  chunkId: z.string(),
+  sourceName: z.string(),
+  sourceUrl: z.string(),
+  chunkIndex: z.number().int(),
+  content: z.string(),
+});
+
+export const SearchDocumentsResultSchema = z.object({
+  query: z.string(),
+  results: z.array(DocumentCitationSchema.extend({ similarity: z.number() })),
+});
+
+// Speech-to-text schemas - /api/transcribe takes the raw recording as the request body
+export const TranscriptionResponseSchema = z.object({
+  text: z.string(),
+  language: z.string().optional(),
+  durationInSeconds: z.number().optional(),
+});
+
+// Text-to-speech schemas - /api/speech responds with the audio file
+export const SpeechRequestSchema = z.object({
+  // Saved assistant message - its stored content is read, and audio is cached per message id
+  messageId: z.string().uuid(),
+  voice: z.string().optional(),
+});
+
+// Share permission schemas - see SHARE_ACCESS_LEVELS for how they combine
+export const SharePermissionSchema = z.enum(SHARE_PERMISSIONS);
+export const SharePermissionsSchema = z.array(SharePermissionSchema).min(1);
+
+// Shared conversation schemas - read-only transcript served to share link visitors
+export const SharedMessageSchema = z.object({
+  id: z.string(),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  created_at: z.string(),
+  version: z.number(),
+  parent_message_id: z.string().nullable(),
+});
+
+export const SharedConversationResponseSchema = z.object({
+  conversation: z.object({
+    id: z.string(),
+    title: z.string(),
+    created_at: z.string(),
+    updated_at: z.string(),
+  }),
+  share: z.object({
+    id: z.string(),
+    permissions: z.array(z.string()),
+    expires_at: z.string().nullable(),
+  }),
+  messages: z.array(SharedMessageSchema),
+});
+
+// Profile schemas - blank fields are saved as null so they can be cleared
+const trimmed = (value: unknown) => (typeof value === 'string' ? value.trim() : value);
+
+const optionalProfileField = (schema: z.ZodTypeAny, normalize = trimmed) =>
+  z
+    .preprocess(normalize, z.union([z.literal(''), schema]))
+    .transform((value) => (value === '' ? null : (value as string)))
+    .nullable()
+    .optional();
+
+export const ProfileUpdateSchema = z.object({
+  username: optionalProfileField(
+    z
+      .string()
+      .min(3, 'Username must be at least 3 characters')
+      .max(30, 'Username must be 30 characters or fewer')
+      .regex(/^[a-zA-Z0-9_]+$/, 'Use only letters, numbers and underscores')
+  ),
+  full_name: optionalProfileField(z.string().max(100, 'Name must be 100 characters or fewer')),
+  bio: optionalProfileField(z.string().max(500, 'Bio must be 500 characters or fewer')),
+  // "example.com" is saved as "https://example.com"
+  website: optionalProfileField(z.string().url('Enter a valid website address'), (value) => {
+    const website = trimmed(value);
+    return typeof website === 'string' && website && !/^[a-z][a-z\d+.-]*:\/\//i.test(website)
+      ? `https://${website}`
+      : website;
+  }),
+  // E.164 with the country code, separators are stripped
+  phone: optionalProfileField(
+    z.string().regex(/^\+[1-9]\d{6,14}$/, 'Include the country code, e.g. +14155550123'),
+    (value) => (typeof value === 'string' ? value.replace(/[\s\-().]/g, '') : value)
+  ),
+  avatar_url: z.string().url().nullable().optional(),
+});
+
+// MFA recovery - /api/mfa/recover removes the caller's factors when a code matches
+export const MfaRecoveryRequestSchema = z.object({
+  code: z.string().trim().min(1).max(64),
+});
+
 // Error response schema
 export const ErrorResponseSchema = z.object({
   error: z.object({
@@ -67,13 +269,31 @@ export const ErrorResponseSchema = z.object({
 });
 
 // Inferred types from schemas
+export type ChatAttachment = z.infer<typeof ChatAttachmentSchema>;
 export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+export type ModelId = z.infer<typeof ModelIdSchema>;
 export type ChatRequest = z.infer<typeof ChatRequestSchema>;
 export type ChatResponse = z.infer<typeof ChatResponseSchema>;
+export type ConversationSettings = z.infer<typeof ConversationSettingsSchema>;
+export type ContextSummary = z.infer<typeof ContextSummarySchema>;
 export type WeatherToolParams = z.infer<typeof WeatherToolSchema>;
 export type CelsiusConvertToolParams = z.infer<typeof CelsiusConvertToolSchema>;
+export type TemperatureUnit = z.infer<typeof TemperatureUnitSchema>;
+export type WeatherForecastDay = z.infer<typeof WeatherForecastDaySchema>;
 export type WeatherResult = z.infer<typeof WeatherResultSchema>;
 export type CelsiusConvertResult = z.infer<typeof CelsiusConvertResultSchema>;
+export type SearchHistoryToolParams = z.infer<typeof SearchHistoryToolSchema>;
+export type SearchHistoryMatch = z.infer<typeof SearchHistoryMatchSchema>;
+export type SearchHistoryResult = z.infer<typeof SearchHistoryResultSchema>;
+export type SearchDocumentsToolParams = z.infer<typeof SearchDocumentsToolSchema>;
+export type DocumentCitation = z.infer<typeof DocumentCitationSchema>;
+export type SearchDocumentsResult = z.infer<typeof SearchDocumentsResultSchema>;
+export type TranscriptionResponse = z.infer<typeof TranscriptionResponseSchema>;
+export type SpeechRequest = z.infer<typeof SpeechRequestSchema>;
+export type SharedMessage = z.infer<typeof SharedMessageSchema>;
+export type SharedConversationResponse = z.infer<typeof SharedConversationResponseSchema>;
+export type ProfileUpdate = z.infer<typeof ProfileUpdateSchema>;
+export type MfaRecoveryRequest = z.infer<typeof MfaRecoveryRequestSchema>;
 export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
 
 // API endpoint types
@@ -84,6 +304,9 @@ export interface ApiEndpoint {
   responseSchema?: z.ZodSchema;
 }
 
+// Set by /api/chat when earlier messages were replaced by the context summary - value is the count
+export const CONTEXT_SUMMARIZED_HEADER = 'X-Context-Summarized-Messages';
+
 export const API_ENDPOINTS = {
   CHAT: {
     method: 'POST' as const,
@@ -91,4 +314,14 @@ export const API_ENDPOINTS = {
     requestSchema: ChatRequestSchema,
     responseSchema: ChatResponseSchema,
   },
+  SHARED_CONVERSATION: {
+    method: 'GET' as const,
+    path: '/api/shared/[token]',
+    responseSchema: SharedConversationResponseSchema,
+  },
+  MFA_RECOVER: {
+    method: 'POST' as const,
+    path: '/api/mfa/recover',
+    requestSchema: MfaRecoveryRequestSchema,
+  },
 } as const;
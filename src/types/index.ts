@@ -26,9 +26,20 @@ export interface SuggestionCard {
 }
 
 // Weather tool specific types
+export interface WeatherForecastDay {
+  date: string;
+  high: number;
+  low: number;
+  conditions: string;
+}
+
 export interface WeatherResult {
   location: string;
   temperature: number;
+  units: 'fahrenheit' | 'celsius';
+  conditions: string;
+  humidity: number;
+  forecast: WeatherForecastDay[];
 }
 
 export interface CelsiusConvertResult {
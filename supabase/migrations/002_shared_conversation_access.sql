@@ -0,0 +1,114 @@
+-- Shared Conversation Access
+-- Resolves public share links (conversations.share_token) against conversation_shares,
+-- enforcing expires_at and the 'read' permission
+
+-- Direct shares must be unexpired and grant 'read'. Public shares are no longer
+-- readable through RLS - they are only reachable with the share token below.
+DROP POLICY IF EXISTS "Users can view their own conversations" ON conversations;
+CREATE POLICY "Users can view their own conversations" ON conversations
+    FOR SELECT USING (
+        user_id = auth.uid() OR
+        id IN (
+            SELECT conversation_id FROM conversation_shares
+            WHERE shared_with = auth.uid()
+            AND 'read' = ANY(permissions)
+            AND (expires_at IS NULL OR expires_at > NOW())
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can view messages from accessible conversations" ON messages;
+CREATE POLICY "Users can view messages from accessible conversations" ON messages
+    FOR SELECT USING (
+        conversation_id IN (
+            SELECT id FROM conversations
+            WHERE user_id = auth.uid() OR
+            id IN (
+                SELECT conversation_id FROM conversation_shares
+                WHERE shared_with = auth.uid()
+                AND 'read' = ANY(permissions)
+                AND (expires_at IS NULL OR expires_at > NOW())
+            )
+        )
+    );
+
+-- Look up a conversation by share token for unauthenticated visitors
+-- Returns a status of ok, not_found, expired or forbidden. Only the fields needed to
+-- render a read-only transcript are included - never owner ids or metadata.
+CREATE OR REPLACE FUNCTION get_shared_conversation(share_token_param UUID)
+RETURNS JSONB AS $$
+DECLARE
+    target_conversation conversations%ROWTYPE;
+    active_share conversation_shares%ROWTYPE;
+BEGIN
+    SELECT * INTO target_conversation
+    FROM conversations
+    WHERE share_token = share_token_param;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    -- Prefer the share that stays valid the longest
+    SELECT * INTO active_share
+    FROM conversation_shares
+    WHERE conversation_id = target_conversation.id
+    AND shared_with IS NULL
+    AND 'read' = ANY(permissions)
+    AND (expires_at IS NULL OR expires_at > NOW())
+    ORDER BY expires_at DESC NULLS FIRST
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        -- Work out why so the visitor gets a useful message
+        IF EXISTS (
+            SELECT 1 FROM conversation_shares
+            WHERE conversation_id = target_conversation.id
+            AND shared_with IS NULL
+            AND (expires_at IS NULL OR expires_at > NOW())
+        ) THEN
+            RETURN jsonb_build_object('status', 'forbidden');
+        ELSIF EXISTS (
+            SELECT 1 FROM conversation_shares
+            WHERE conversation_id = target_conversation.id
+            AND shared_with IS NULL
+        ) THEN
+            RETURN jsonb_build_object('status', 'expired');
+        END IF;
+
+        RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    RETURN jsonb_build_object(
+        'status', 'ok',
+        'conversation', jsonb_build_object(
+            'id', target_conversation.id,
+            'title', target_conversation.title,
+            'created_at', target_conversation.created_at,
+            'updated_at', target_conversation.updated_at
+        ),
+        'share', jsonb_build_object(
+            'id', active_share.id,
+            'permissions', to_jsonb(active_share.permissions),
+            'expires_at', active_share.expires_at
+        ),
+        'messages', COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object(
+                    'id', m.id,
+                    'role', m.role,
+                    'content', m.content,
+                    'created_at', m.created_at,
+                    'version', m.version,
+                    'parent_message_id', m.parent_message_id
+                )
+                ORDER BY m.created_at
+            )
+            FROM messages m
+            WHERE m.conversation_id = target_conversation.id
+            AND m.role IN ('user', 'assistant')
+        ), '[]'::jsonb)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_shared_conversation(UUID) TO anon, authenticated;
@@ -0,0 +1,104 @@
+-- Conversation Share Audit Trail
+-- Records every grant, permission change and revocation on conversation_shares,
+-- and allows the comment and fork access levels
+
+-- Access levels from src/config/sharing.ts: read, comment, fork and write.
+-- 'admin' is kept for existing rows.
+ALTER TABLE conversation_shares DROP CONSTRAINT IF EXISTS valid_permissions;
+ALTER TABLE conversation_shares ADD CONSTRAINT valid_permissions CHECK (
+    permissions <@ ARRAY['read', 'comment', 'fork', 'write', 'admin'] AND
+    array_length(permissions, 1) > 0
+);
+
+CREATE TYPE share_event_action AS ENUM ('granted', 'changed', 'revoked');
+
+CREATE TABLE conversation_share_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    -- No foreign key: revoked shares are deleted but their history is kept
+    share_id UUID NOT NULL,
+    actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    action share_event_action NOT NULL,
+    shared_with UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    previous_permissions TEXT[],
+    permissions TEXT[],
+    previous_expires_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_conversation_share_events_conversation
+    ON conversation_share_events(conversation_id, created_at DESC);
+
+-- Events are written by the trigger only, so clients cannot forge history
+CREATE OR REPLACE FUNCTION record_conversation_share_event()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO conversation_share_events (
+            conversation_id, share_id, actor_id, action, shared_with, permissions, expires_at
+        ) VALUES (
+            NEW.conversation_id, NEW.id, COALESCE(auth.uid(), NEW.shared_by), 'granted',
+            NEW.shared_with, NEW.permissions, NEW.expires_at
+        );
+        RETURN NEW;
+    ELSIF TG_OP = 'UPDATE' THEN
+        IF NEW.permissions IS DISTINCT FROM OLD.permissions
+            OR NEW.expires_at IS DISTINCT FROM OLD.expires_at THEN
+            INSERT INTO conversation_share_events (
+                conversation_id, share_id, actor_id, action, shared_with,
+                previous_permissions, permissions, previous_expires_at, expires_at
+            ) VALUES (
+                NEW.conversation_id, NEW.id, auth.uid(), 'changed', NEW.shared_with,
+                OLD.permissions, NEW.permissions, OLD.expires_at, NEW.expires_at
+            );
+        END IF;
+        RETURN NEW;
+    ELSIF TG_OP = 'DELETE' THEN
+        -- Skip when the whole conversation is being deleted
+        IF EXISTS (SELECT 1 FROM conversations WHERE id = OLD.conversation_id) THEN
+            INSERT INTO conversation_share_events (
+                conversation_id, share_id, actor_id, action, shared_with,
+                previous_permissions, previous_expires_at
+            ) VALUES (
+                OLD.conversation_id, OLD.id, auth.uid(), 'revoked', OLD.shared_with,
+                OLD.permissions, OLD.expires_at
+            );
+        END IF;
+        RETURN OLD;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_record_conversation_share_event
+    AFTER INSERT OR UPDATE OR DELETE ON conversation_shares
+    FOR EACH ROW
+    EXECUTE FUNCTION record_conversation_share_event();
+
+-- Row Level Security
+ALTER TABLE conversation_share_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view share history" ON conversation_share_events
+    FOR SELECT USING (
+        conversation_id IN (SELECT id FROM conversations WHERE user_id = auth.uid())
+    );
+
+GRANT SELECT ON conversation_share_events TO authenticated;
+
+-- The account to invite, matched by its exact email. Profiles RLS only exposes the
+-- caller's own row, and this returns the id, name and avatar without the email.
+CREATE OR REPLACE FUNCTION find_profile_by_email(email_param TEXT)
+RETURNS TABLE (
+    id UUID,
+    full_name TEXT,
+    avatar_url TEXT
+) AS $$
+    SELECT p.id, p.full_name, p.avatar_url
+    FROM profiles p
+    WHERE auth.uid() IS NOT NULL
+    AND lower(p.email) = lower(trim(email_param))
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION find_profile_by_email(TEXT) TO authenticated;
@@ -0,0 +1,93 @@
+-- Fork Shared Conversations
+-- Copies a conversation and its messages into a new conversation owned by the caller
+
+-- Allowed for the owner, a direct share with the 'fork' permission, or a public share
+-- with 'fork' when the caller also presents the conversation's share token
+CREATE OR REPLACE FUNCTION fork_conversation(
+    conversation_id_param UUID,
+    share_token_param UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    source_conversation conversations%ROWTYPE;
+    new_conversation_id UUID := uuid_generate_v4();
+    source_message messages%ROWTYPE;
+    new_message_id UUID;
+    message_id_map JSONB := '{}'::jsonb;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to fork a conversation' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO source_conversation
+    FROM conversations
+    WHERE id = conversation_id_param;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Conversation not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF source_conversation.user_id <> auth.uid() AND NOT EXISTS (
+        SELECT 1 FROM conversation_shares
+        WHERE conversation_id = source_conversation.id
+        AND 'fork' = ANY(permissions)
+        AND (expires_at IS NULL OR expires_at > NOW())
+        AND (
+            shared_with = auth.uid() OR
+            (shared_with IS NULL AND share_token_param = source_conversation.share_token)
+        )
+    ) THEN
+        RAISE EXCEPTION 'This share does not allow forking' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO conversations (id, user_id, title, metadata)
+    VALUES (
+        new_conversation_id,
+        auth.uid(),
+        source_conversation.title,
+        -- The rolling context summary belongs to the source conversation and is
+        -- rebuilt for the fork when its history grows
+        (COALESCE(source_conversation.metadata, '{}'::jsonb) - 'context_summary') || jsonb_build_object(
+            'forked_from', jsonb_build_object(
+                'conversation_id', source_conversation.id,
+                'title', source_conversation.title,
+                'forked_at', NOW()
+            )
+        )
+    );
+
+    -- Parents are always created before their children, so the id map is filled
+    -- before any message that needs it
+    FOR source_message IN
+        SELECT * FROM messages
+        WHERE conversation_id = source_conversation.id
+        ORDER BY created_at, version
+    LOOP
+        new_message_id := uuid_generate_v4();
+        message_id_map := message_id_map || jsonb_build_object(source_message.id::text, new_message_id);
+
+        INSERT INTO messages (
+            id, conversation_id, content, role, created_at, metadata, model_used,
+            tokens_used, response_time_ms, tool_calls, tool_results, version, parent_message_id
+        ) VALUES (
+            new_message_id,
+            new_conversation_id,
+            source_message.content,
+            source_message.role,
+            source_message.created_at,
+            source_message.metadata,
+            source_message.model_used,
+            source_message.tokens_used,
+            source_message.response_time_ms,
+            source_message.tool_calls,
+            source_message.tool_results,
+            source_message.version,
+            (message_id_map ->> source_message.parent_message_id::text)::uuid
+        );
+    END LOOP;
+
+    RETURN new_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION fork_conversation(UUID, UUID) TO authenticated;
@@ -0,0 +1,77 @@
+-- Full-Text Search
+-- Indexes message content and conversation titles and exposes a ranked search with snippets
+
+-- Expression indexes keep the tsvector out of the table rows returned to clients.
+-- Queries must use the same to_tsvector('english', ...) expression to hit them.
+CREATE INDEX idx_messages_content_search
+    ON messages USING GIN (to_tsvector('english', content));
+
+CREATE INDEX idx_conversations_title_search
+    ON conversations USING GIN (to_tsvector('english', title));
+
+-- Search the caller's conversations. Message hits carry a message_id so the client
+-- can jump to the message; title-only hits have a NULL message_id.
+-- Matches in the snippet are wrapped in <mark></mark>.
+CREATE OR REPLACE FUNCTION search_messages(
+    search_query TEXT,
+    result_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    conversation_id UUID,
+    conversation_title TEXT,
+    message_id UUID,
+    role message_role,
+    snippet TEXT,
+    rank REAL,
+    created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', search_query) AS tsquery
+    ),
+    message_hits AS (
+        SELECT
+            c.id AS conversation_id,
+            c.title AS conversation_title,
+            m.id AS message_id,
+            m.role,
+            ts_headline(
+                'english', m.content, query.tsquery,
+                'StartSel=<mark>, StopSel=</mark>, MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" … "'
+            ) AS snippet,
+            ts_rank(to_tsvector('english', m.content), query.tsquery) AS rank,
+            m.created_at
+        FROM messages m
+        JOIN conversations c ON c.id = m.conversation_id
+        CROSS JOIN query
+        WHERE c.user_id = auth.uid()
+        AND m.role IN ('user', 'assistant')
+        AND to_tsvector('english', m.content) @@ query.tsquery
+    ),
+    title_hits AS (
+        SELECT
+            c.id AS conversation_id,
+            c.title AS conversation_title,
+            NULL::UUID AS message_id,
+            NULL::message_role AS role,
+            ts_headline(
+                'english', c.title, query.tsquery,
+                'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'
+            ) AS snippet,
+            -- Title matches outrank a single message match in the same conversation
+            ts_rank(to_tsvector('english', c.title), query.tsquery) * 2 AS rank,
+            c.updated_at AS created_at
+        FROM conversations c
+        CROSS JOIN query
+        WHERE c.user_id = auth.uid()
+        AND to_tsvector('english', c.title) @@ query.tsquery
+    )
+    SELECT * FROM (
+        SELECT * FROM message_hits
+        UNION ALL
+        SELECT * FROM title_hits
+    ) hits
+    ORDER BY rank DESC, created_at DESC
+    LIMIT LEAST(GREATEST(result_limit, 1), 100);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION search_messages(TEXT, INTEGER) TO authenticated;
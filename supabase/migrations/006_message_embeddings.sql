@@ -0,0 +1,82 @@
+-- Message Embeddings
+-- Vector index over past messages for semantic retrieval by the searchHistory tool
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- One embedding per message. Vectors from different models are not comparable,
+-- so every row records the model that produced it and searches filter on it.
+-- The dimension must match EMBEDDING_DIMENSIONS in src/lib/ai/providers.ts.
+CREATE TABLE message_embeddings (
+    message_id UUID PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    model TEXT NOT NULL,
+    embedding vector(512) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_message_embeddings_conversation_id ON message_embeddings(conversation_id);
+CREATE INDEX idx_message_embeddings_embedding
+    ON message_embeddings USING hnsw (embedding vector_cosine_ops);
+
+-- Row Level Security
+ALTER TABLE message_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view embeddings from their conversations" ON message_embeddings
+    FOR SELECT USING (
+        conversation_id IN (SELECT id FROM conversations WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can create embeddings in their conversations" ON message_embeddings
+    FOR INSERT WITH CHECK (
+        conversation_id IN (SELECT id FROM conversations WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can update embeddings in their conversations" ON message_embeddings
+    FOR UPDATE USING (
+        conversation_id IN (SELECT id FROM conversations WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can delete embeddings from their conversations" ON message_embeddings
+    FOR DELETE USING (
+        conversation_id IN (SELECT id FROM conversations WHERE user_id = auth.uid())
+    );
+
+GRANT ALL ON message_embeddings TO authenticated;
+
+-- Nearest messages to a query embedding across the caller's conversations
+CREATE OR REPLACE FUNCTION match_message_embeddings(
+    query_embedding vector(512),
+    embedding_model TEXT,
+    match_count INTEGER DEFAULT 5,
+    min_similarity FLOAT DEFAULT 0.2,
+    exclude_conversation_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    message_id UUID,
+    conversation_id UUID,
+    conversation_title TEXT,
+    role message_role,
+    content TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    similarity FLOAT
+) AS $$
+    SELECT
+        m.id AS message_id,
+        c.id AS conversation_id,
+        c.title AS conversation_title,
+        m.role,
+        m.content,
+        m.created_at,
+        1 - (e.embedding <=> query_embedding) AS similarity
+    FROM message_embeddings e
+    JOIN messages m ON m.id = e.message_id
+    JOIN conversations c ON c.id = e.conversation_id
+    WHERE c.user_id = auth.uid()
+    AND e.model = embedding_model
+    AND (exclude_conversation_id IS NULL OR c.id <> exclude_conversation_id)
+    AND 1 - (e.embedding <=> query_embedding) >= min_similarity
+    ORDER BY e.embedding <=> query_embedding
+    LIMIT LEAST(GREATEST(match_count, 1), 20);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION match_message_embeddings(vector, TEXT, INTEGER, FLOAT, UUID) TO authenticated;
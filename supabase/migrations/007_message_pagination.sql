@@ -0,0 +1,7 @@
+-- Message Pagination
+-- Supports cursor pagination over a conversation's messages, newest first
+
+-- Matches the (created_at, id) ordering used by db.getMessages, so each page is
+-- an index range scan no matter how long the conversation is
+CREATE INDEX idx_messages_conversation_cursor
+    ON messages(conversation_id, created_at DESC, id DESC);
@@ -0,0 +1,6 @@
+-- Realtime
+-- Publishes conversation and message changes so other signed-in devices update live
+
+-- Row Level Security still applies, so subscribers only receive rows they can select.
+-- Delete events include just the primary key.
+ALTER PUBLICATION supabase_realtime ADD TABLE conversations, messages;
@@ -0,0 +1,94 @@
+-- Collaborative Conversations
+-- Lets users invited with the 'write' permission send messages into a shared conversation,
+-- and records the author of every user message
+
+-- Author of a user message. Assistant, system and tool messages have no author.
+ALTER TABLE messages ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_messages_user_id ON messages(user_id) WHERE user_id IS NOT NULL;
+
+-- Until now only owners could post, so existing user messages are theirs
+UPDATE messages m
+SET user_id = c.user_id
+FROM conversations c
+WHERE c.id = m.conversation_id
+AND m.role = 'user'
+AND m.user_id IS NULL;
+
+-- The owner, or a direct share with an unexpired 'write' permission.
+-- Public links never grant write access.
+CREATE OR REPLACE FUNCTION can_write_conversation(conversation_id_param UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM conversations
+        WHERE id = conversation_id_param
+        AND user_id = auth.uid()
+    ) OR EXISTS (
+        SELECT 1 FROM conversation_shares
+        WHERE conversation_id = conversation_id_param
+        AND shared_with = auth.uid()
+        AND 'write' = ANY(permissions)
+        AND (expires_at IS NULL OR expires_at > NOW())
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION can_write_conversation(UUID) TO authenticated;
+
+-- Collaborators can post, but only their own user messages. Assistant replies have no
+-- author and are saved by /api/chat with the service role after it checks
+-- can_write_conversation for the caller.
+DROP POLICY IF EXISTS "Users can create messages in their conversations" ON messages;
+CREATE POLICY "Users can create messages in their conversations" ON messages
+    FOR INSERT WITH CHECK (
+        can_write_conversation(conversation_id) AND
+        role = 'user' AND
+        user_id = auth.uid()
+    );
+
+-- Display names and avatars of the people the caller shares a conversation with:
+-- owners, share recipients and message authors. Profiles RLS only exposes the caller's
+-- own row, and this never returns emails or other profile fields.
+CREATE OR REPLACE FUNCTION get_participant_profiles(user_ids UUID[])
+RETURNS TABLE (
+    id UUID,
+    full_name TEXT,
+    avatar_url TEXT
+) AS $$
+    SELECT p.id, p.full_name, p.avatar_url
+    FROM profiles p
+    WHERE p.id = ANY(user_ids)
+    AND (
+        p.id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM conversations c
+            WHERE (
+                c.user_id = auth.uid()
+                OR EXISTS (
+                    SELECT 1 FROM conversation_shares s
+                    WHERE s.conversation_id = c.id
+                    AND s.shared_with = auth.uid()
+                    AND (s.expires_at IS NULL OR s.expires_at > NOW())
+                )
+            )
+            AND (
+                c.user_id = p.id
+                OR EXISTS (
+                    SELECT 1 FROM conversation_shares s
+                    WHERE s.conversation_id = c.id
+                    AND s.shared_with = p.id
+                )
+                OR EXISTS (
+                    SELECT 1 FROM messages m
+                    WHERE m.conversation_id = c.id
+                    AND m.user_id = p.id
+                )
+            )
+        )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_participant_profiles(UUID[]) TO authenticated;
+
+-- Messages from collaborators still move the conversation to the top of the owner's list,
+-- even though collaborators cannot update the conversation row themselves
+ALTER FUNCTION update_conversation_updated_at() SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,53 @@
+-- Chat Attachments
+-- Storage bucket for images and files attached to chat messages
+
+-- Private - the app and the chat API read files through short-lived signed URLs.
+-- Messages store the public-style URL of each file only as its identifier.
+-- Keep file_size_limit in sync with EXPO_PUBLIC_MAX_ATTACHMENT_SIZE_MB.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'chat-attachments',
+    'chat-attachments',
+    FALSE,
+    10485760,
+    ARRAY['image/*', 'application/pdf', 'text/*', 'application/json']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Files are uploaded to <user id>/<file id>/<file name>
+CREATE POLICY "Users can upload their own chat attachments" ON storage.objects
+    FOR INSERT TO authenticated WITH CHECK (
+        bucket_id = 'chat-attachments'
+        AND (storage.foldername(name))[1] = auth.uid()::text
+    );
+
+-- Signing a URL needs read access. Besides their own files, users can read files
+-- attached to messages they can see, as long as the message author uploaded them.
+-- The subquery runs under the messages policies, so shared conversations are covered.
+CREATE POLICY "Users can read chat attachments they can see" ON storage.objects
+    FOR SELECT TO authenticated USING (
+        bucket_id = 'chat-attachments'
+        AND (
+            (storage.foldername(name))[1] = auth.uid()::text
+            OR EXISTS (
+                SELECT 1
+                FROM public.messages m
+                CROSS JOIN LATERAL jsonb_array_elements(
+                    COALESCE(m.metadata->'attachments', '[]'::jsonb)
+                ) AS attachment
+                WHERE m.user_id::text = (storage.foldername(name))[1]
+                -- Matched on <user id>/<file id>/, which URL encoding leaves alone
+                AND POSITION(
+                    '/chat-attachments/' || (storage.foldername(name))[1]
+                        || '/' || (storage.foldername(name))[2] || '/'
+                    IN attachment->>'url'
+                ) > 0
+            )
+        )
+    );
+
+CREATE POLICY "Users can delete their own chat attachments" ON storage.objects
+    FOR DELETE TO authenticated USING (
+        bucket_id = 'chat-attachments'
+        AND (storage.foldername(name))[1] = auth.uid()::text
+    );
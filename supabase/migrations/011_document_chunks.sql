@@ -0,0 +1,76 @@
+-- Document Chunks
+-- Text of files attached to a conversation, split into chunks and embedded for the searchDocuments tool
+
+-- Like message_embeddings, every row records the embedding model and searches filter on it.
+-- The dimension must match EMBEDDING_DIMENSIONS in src/lib/ai/providers.ts.
+CREATE TABLE document_chunks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    -- User message the file was attached to
+    message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+    source_url TEXT NOT NULL,
+    source_name TEXT NOT NULL,
+    chunk_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    model TEXT NOT NULL,
+    embedding vector(512) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    -- Re-indexing a file replaces its chunks instead of duplicating them
+    CONSTRAINT unique_document_chunk UNIQUE (conversation_id, source_url, chunk_index, model)
+);
+
+CREATE INDEX idx_document_chunks_conversation_id ON document_chunks(conversation_id);
+CREATE INDEX idx_document_chunks_embedding
+    ON document_chunks USING hnsw (embedding vector_cosine_ops);
+
+-- Row Level Security - collaborators who can post files can also search them
+ALTER TABLE document_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view document chunks in their conversations" ON document_chunks
+    FOR SELECT USING (can_write_conversation(conversation_id));
+
+CREATE POLICY "Users can create document chunks in their conversations" ON document_chunks
+    FOR INSERT WITH CHECK (can_write_conversation(conversation_id));
+
+CREATE POLICY "Users can update document chunks in their conversations" ON document_chunks
+    FOR UPDATE USING (can_write_conversation(conversation_id));
+
+CREATE POLICY "Users can delete document chunks from their conversations" ON document_chunks
+    FOR DELETE USING (can_write_conversation(conversation_id));
+
+GRANT ALL ON document_chunks TO authenticated;
+
+-- Nearest chunks to a query embedding within one conversation
+CREATE OR REPLACE FUNCTION match_document_chunks(
+    query_embedding vector(512),
+    embedding_model TEXT,
+    conversation_id_param UUID,
+    match_count INTEGER DEFAULT 5,
+    min_similarity FLOAT DEFAULT 0.1
+)
+RETURNS TABLE (
+    id UUID,
+    source_url TEXT,
+    source_name TEXT,
+    chunk_index INTEGER,
+    content TEXT,
+    similarity FLOAT
+) AS $$
+    SELECT
+        d.id,
+        d.source_url,
+        d.source_name,
+        d.chunk_index,
+        d.content,
+        1 - (d.embedding <=> query_embedding) AS similarity
+    FROM document_chunks d
+    WHERE d.conversation_id = conversation_id_param
+    AND can_write_conversation(conversation_id_param)
+    AND d.model = embedding_model
+    AND 1 - (d.embedding <=> query_embedding) >= min_similarity
+    ORDER BY d.embedding <=> query_embedding
+    LIMIT LEAST(GREATEST(match_count, 1), 20);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION match_document_chunks(vector, TEXT, UUID, INTEGER, FLOAT) TO authenticated;
@@ -0,0 +1,50 @@
+-- OAuth Identities
+-- Fills profiles from OAuth provider data and keeps every linked identity on one profile
+
+-- Profiles are keyed by auth.users.id, so identities linked to the same user share a row.
+-- Providers send the display name and picture under different keys, and some
+-- (Apple with a hidden address, phone sign-in) may not send an email at all.
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO profiles (id, email, full_name, avatar_url)
+    VALUES (
+        NEW.id,
+        COALESCE(NEW.email, ''),
+        COALESCE(NEW.raw_user_meta_data->>'full_name', NEW.raw_user_meta_data->>'name'),
+        COALESCE(NEW.raw_user_meta_data->>'avatar_url', NEW.raw_user_meta_data->>'picture')
+    )
+    ON CONFLICT (id) DO NOTHING;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW
+    EXECUTE FUNCTION handle_new_user();
+
+-- A newly linked identity only fills fields the profile does not have yet,
+-- so names and avatars edited in the app are never overwritten
+CREATE OR REPLACE FUNCTION handle_identity_linked()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE profiles SET
+        email = COALESCE(NULLIF(email, ''), NEW.identity_data->>'email', ''),
+        full_name = COALESCE(
+            full_name, NEW.identity_data->>'full_name', NEW.identity_data->>'name'
+        ),
+        avatar_url = COALESCE(
+            avatar_url, NEW.identity_data->>'avatar_url', NEW.identity_data->>'picture'
+        )
+    WHERE id = NEW.user_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_identity_created ON auth.identities;
+CREATE TRIGGER on_auth_identity_created
+    AFTER INSERT ON auth.identities
+    FOR EACH ROW
+    EXECUTE FUNCTION handle_identity_linked();
@@ -0,0 +1,266 @@
+-- MFA Recovery Codes
+-- One-time codes that let a user who lost their authenticator remove TOTP and sign in again,
+-- and the database checks that hold enrolled users to two-factor sessions
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Only bcrypt hashes are stored. The plain codes are returned once, when generated.
+CREATE TABLE mfa_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_mfa_recovery_codes_user_id ON mfa_recovery_codes(user_id);
+
+-- Row Level Security
+-- Clients may count their codes. New codes are only written by the functions below.
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recovery codes" ON mfa_recovery_codes
+    FOR SELECT USING (user_id = auth.uid());
+
+GRANT SELECT ON mfa_recovery_codes TO authenticated;
+
+-- Replace the caller's recovery codes. Requires an aal2 session, i.e. a verified
+-- TOTP code in this session, so a stolen password alone cannot mint new codes.
+-- Codes look like 3f9a1-c04be.
+CREATE OR REPLACE FUNCTION generate_mfa_recovery_codes(code_count INTEGER DEFAULT 10)
+RETURNS TEXT[] AS $$
+DECLARE
+    codes TEXT[] := '{}';
+    code TEXT;
+BEGIN
+    IF auth.uid() IS NULL OR COALESCE(auth.jwt()->>'aal', 'aal1') <> 'aal2' THEN
+        RAISE EXCEPTION 'Two-factor verification required' USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid();
+
+    FOR i IN 1..LEAST(GREATEST(code_count, 1), 20) LOOP
+        code := encode(gen_random_bytes(5), 'hex');
+        code := substr(code, 1, 5) || '-' || substr(code, 6, 5);
+        codes := array_append(codes, code);
+        INSERT INTO mfa_recovery_codes (user_id, code_hash)
+        VALUES (auth.uid(), crypt(code, gen_salt('bf')));
+    END LOOP;
+
+    RETURN codes;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION generate_mfa_recovery_codes(INTEGER) TO authenticated;
+
+-- Clients may clear their codes when they remove their last authenticator, but only
+-- from an aal2 session so a stolen password cannot destroy them.
+CREATE POLICY "Users can delete their own recovery codes" ON mfa_recovery_codes
+    FOR DELETE USING (
+        user_id = auth.uid()
+        AND auth.jwt()->>'aal' = 'aal2'
+    );
+
+GRANT DELETE ON mfa_recovery_codes TO authenticated;
+
+-- Redeem a recovery code from an aal1 session. A match consumes that code only.
+-- /api/mfa/recover then removes the caller's factors through the auth admin API and
+-- deletes the remaining codes, so a failed removal leaves the other codes usable.
+-- Nothing here touches the auth schema.
+CREATE OR REPLACE FUNCTION redeem_mfa_recovery_code(recovery_code TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+    redeemed_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    DELETE FROM mfa_recovery_codes
+    WHERE id = (
+        SELECT id FROM mfa_recovery_codes
+        WHERE user_id = auth.uid()
+        AND code_hash = crypt(lower(trim(recovery_code)), code_hash)
+        LIMIT 1
+    )
+    RETURNING id INTO redeemed_id;
+
+    RETURN redeemed_id IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION redeem_mfa_recovery_code(TEXT) TO authenticated;
+
+-- Two-factor enforcement
+-- The MFA challenge screen is only a client redirect. These checks make the database
+-- refuse an aal1 session of a user with a verified factor, so a stolen password
+-- alone cannot read or change their conversations through the API.
+
+-- Reads auth.mfa_factors, never writes to it
+CREATE OR REPLACE FUNCTION has_verified_mfa_factor()
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM auth.mfa_factors
+        WHERE user_id = auth.uid()
+        AND status = 'verified'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- aal2, or any session for users who have not enrolled a factor
+CREATE OR REPLACE FUNCTION mfa_assurance_met()
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(auth.jwt()->>'aal', 'aal1') = 'aal2' OR NOT has_verified_mfa_factor();
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION has_verified_mfa_factor() TO authenticated;
+GRANT EXECUTE ON FUNCTION mfa_assurance_met() TO authenticated;
+
+-- Restrictive policies are ANDed with the existing ones, so every earlier policy
+-- keeps its meaning and additionally requires the assurance level
+CREATE POLICY "Enrolled users must verify two-factor" ON conversations
+    AS RESTRICTIVE FOR ALL TO authenticated
+    USING (mfa_assurance_met())
+    WITH CHECK (mfa_assurance_met());
+
+CREATE POLICY "Enrolled users must verify two-factor" ON messages
+    AS RESTRICTIVE FOR ALL TO authenticated
+    USING (mfa_assurance_met())
+    WITH CHECK (mfa_assurance_met());
+
+CREATE POLICY "Enrolled users must verify two-factor" ON conversation_shares
+    AS RESTRICTIVE FOR ALL TO authenticated
+    USING (mfa_assurance_met())
+    WITH CHECK (mfa_assurance_met());
+
+CREATE POLICY "Enrolled users must verify two-factor" ON message_embeddings
+    AS RESTRICTIVE FOR ALL TO authenticated
+    USING (mfa_assurance_met())
+    WITH CHECK (mfa_assurance_met());
+
+CREATE POLICY "Enrolled users must verify two-factor" ON document_chunks
+    AS RESTRICTIVE FOR ALL TO authenticated
+    USING (mfa_assurance_met())
+    WITH CHECK (mfa_assurance_met());
+
+-- Sharing hands conversations to other accounts, so it requires an enrolled
+-- authenticator verified in this session
+CREATE POLICY "Sharing requires two-factor authentication" ON conversation_shares
+    AS RESTRICTIVE FOR INSERT TO authenticated
+    WITH CHECK (has_verified_mfa_factor() AND auth.jwt()->>'aal' = 'aal2');
+
+-- SECURITY DEFINER functions skip the policies above, so they check the assurance
+-- level themselves. /api/chat saves replies with the service role only after
+-- can_write_conversation passes for the caller.
+CREATE OR REPLACE FUNCTION can_write_conversation(conversation_id_param UUID)
+RETURNS BOOLEAN AS $$
+    SELECT mfa_assurance_met() AND (
+        EXISTS (
+            SELECT 1 FROM conversations
+            WHERE id = conversation_id_param
+            AND user_id = auth.uid()
+        ) OR EXISTS (
+            SELECT 1 FROM conversation_shares
+            WHERE conversation_id = conversation_id_param
+            AND shared_with = auth.uid()
+            AND 'write' = ANY(permissions)
+            AND (expires_at IS NULL OR expires_at > NOW())
+        )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Same as 004_fork_conversations.sql, plus the assurance check
+CREATE OR REPLACE FUNCTION fork_conversation(
+    conversation_id_param UUID,
+    share_token_param UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    source_conversation conversations%ROWTYPE;
+    new_conversation_id UUID := uuid_generate_v4();
+    source_message messages%ROWTYPE;
+    new_message_id UUID;
+    message_id_map JSONB := '{}'::jsonb;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to fork a conversation' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT mfa_assurance_met() THEN
+        RAISE EXCEPTION 'Verify two-factor authentication to fork a conversation' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO source_conversation
+    FROM conversations
+    WHERE id = conversation_id_param;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Conversation not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF source_conversation.user_id <> auth.uid() AND NOT EXISTS (
+        SELECT 1 FROM conversation_shares
+        WHERE conversation_id = source_conversation.id
+        AND 'fork' = ANY(permissions)
+        AND (expires_at IS NULL OR expires_at > NOW())
+        AND (
+            shared_with = auth.uid() OR
+            (shared_with IS NULL AND share_token_param = source_conversation.share_token)
+        )
+    ) THEN
+        RAISE EXCEPTION 'This share does not allow forking' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO conversations (id, user_id, title, metadata)
+    VALUES (
+        new_conversation_id,
+        auth.uid(),
+        source_conversation.title,
+        -- The rolling context summary belongs to the source conversation and is
+        -- rebuilt for the fork when its history grows
+        (COALESCE(source_conversation.metadata, '{}'::jsonb) - 'context_summary') || jsonb_build_object(
+            'forked_from', jsonb_build_object(
+                'conversation_id', source_conversation.id,
+                'title', source_conversation.title,
+                'forked_at', NOW()
+            )
+        )
+    );
+
+    -- Parents are always created before their children, so the id map is filled
+    -- before any message that needs it
+    FOR source_message IN
+        SELECT * FROM messages
+        WHERE conversation_id = source_conversation.id
+        ORDER BY created_at, version
+    LOOP
+        new_message_id := uuid_generate_v4();
+        message_id_map := message_id_map || jsonb_build_object(source_message.id::text, new_message_id);
+
+        INSERT INTO messages (
+            id, conversation_id, content, role, created_at, metadata, model_used,
+            tokens_used, response_time_ms, tool_calls, tool_results, version, parent_message_id
+        ) VALUES (
+            new_message_id,
+            new_conversation_id,
+            source_message.content,
+            source_message.role,
+            source_message.created_at,
+            source_message.metadata,
+            source_message.model_used,
+            source_message.tokens_used,
+            source_message.response_time_ms,
+            source_message.tool_calls,
+            source_message.tool_results,
+            source_message.version,
+            (message_id_map ->> source_message.parent_message_id::text)::uuid
+        );
+    END LOOP;
+
+    RETURN new_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Search only returns the caller's own rows, which the policies above already allow.
+-- Running as the caller puts the searches under the same two-factor checks.
+ALTER FUNCTION search_messages(TEXT, INTEGER) SECURITY INVOKER;
+ALTER FUNCTION match_message_embeddings(vector, TEXT, INTEGER, FLOAT, UUID) SECURITY INVOKER;
+ALTER FUNCTION match_document_chunks(vector, TEXT, UUID, INTEGER, FLOAT) SECURITY INVOKER;
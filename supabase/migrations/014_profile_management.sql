@@ -0,0 +1,43 @@
+-- Profile Management
+-- Editable profile fields and a storage bucket for profile pictures
+
+-- Older setups created profiles from docs/AUTH_ONBOARDING_SETUP.md without these columns
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS username TEXT,
+    ADD COLUMN IF NOT EXISTS website TEXT,
+    ADD COLUMN IF NOT EXISTS bio TEXT;
+
+-- Usernames are unique regardless of case. The profile screen reports a
+-- unique_violation (23505) on this index as "That username is taken".
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_username ON profiles (LOWER(username));
+
+-- Public so avatar URLs load without a signed URL.
+-- Keep file_size_limit in sync with EXPO_PUBLIC_MAX_AVATAR_SIZE_MB.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'avatars',
+    'avatars',
+    TRUE,
+    2097152,
+    ARRAY['image/*']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Files are uploaded to <user id>/avatar-<timestamp>.<ext>
+CREATE POLICY "Users can upload their own avatar" ON storage.objects
+    FOR INSERT TO authenticated WITH CHECK (
+        bucket_id = 'avatars'
+        AND (storage.foldername(name))[1] = auth.uid()::text
+    );
+
+CREATE POLICY "Users can update their own avatar" ON storage.objects
+    FOR UPDATE TO authenticated USING (
+        bucket_id = 'avatars'
+        AND (storage.foldername(name))[1] = auth.uid()::text
+    );
+
+CREATE POLICY "Users can delete their own avatar" ON storage.objects
+    FOR DELETE TO authenticated USING (
+        bucket_id = 'avatars'
+        AND (storage.foldername(name))[1] = auth.uid()::text
+    );